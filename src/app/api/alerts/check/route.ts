@@ -0,0 +1,287 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getEnabledAlertRulesAdmin,
+  getAreaAdmin,
+  updateAlertRuleAdmin,
+  createAlertEventAdmin,
+  getAreaObservationsAdmin,
+} from "@/lib/firestore/admin";
+import { initializeEarthEngine, getEarthEngine } from "@/lib/earthEngine";
+import { getLatestScene, measureScene, checkAlertCondition } from "@/lib/alerts/evaluate";
+import { sendEmail } from "@/lib/email/resend";
+import { sendAlertWhatsApp } from "@/lib/whatsapp/meta";
+import { AlertRule } from "@/types/alert";
+import { Area } from "@/types/area";
+import { calculatePolygonArea, squareMetersToKm, getAdaptiveScale } from "@/lib/utils/geometry";
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // Maximum 5 minutes (Vercel Pro limit)
+
+/**
+ * POST /api/alerts/check
+ * Evaluate every enabled alert rule against the most recent scene of its area
+ * Rules only run when a new scene is available; triggered alerts are notified
+ * and recorded in the alert history
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const timestamp = new Date().toISOString();
+
+  try {
+    console.log(`[Alert Check] Starting alert check at ${timestamp}`);
+
+    // Only the cron job may run the checks: each one queries Earth Engine and can send alerts
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      console.error(`[Alert Check] CRON_SECRET not configured`);
+      return NextResponse.json({ error: "Cron secret not configured" }, { status: 500 });
+    }
+    if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      console.error(`[Alert Check] Unauthorized: Invalid or missing authorization header`);
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rules = await getEnabledAlertRulesAdmin();
+    if (rules.length === 0) {
+      console.log(`[Alert Check] No enabled alert rules`);
+      return NextResponse.json({ message: "No enabled alert rules", timestamp });
+    }
+
+    console.log(`[Alert Check] Found ${rules.length} enabled rule(s)`);
+
+    await initializeEarthEngine();
+    const ee = getEarthEngine();
+
+    const results: Array<{ ruleId: string; status: string; error?: string }> = [];
+    const areas = new Map<string, Area | null>();
+    const TIME_BUDGET_MS = 240000; // 4 minutes (leave 1 minute buffer before 5min timeout)
+
+    for (const rule of rules) {
+      const elapsed = Date.now() - startTime;
+      if (elapsed > TIME_BUDGET_MS) {
+        console.log(`[Alert Check] ⚠️ Time budget exceeded (${elapsed}ms). Remaining rules will be checked in next run.`);
+        break;
+      }
+
+      try {
+        if (!areas.has(rule.areaId)) {
+          areas.set(rule.areaId, await getAreaAdmin(rule.areaId));
+        }
+        const area = areas.get(rule.areaId);
+        if (!area || area.coordinates.length < 3) {
+          console.error(`[Alert Check] Rule ${rule.id} has no valid area`);
+          results.push({ ruleId: rule.id!, status: "error", error: "Area not found" });
+          continue;
+        }
+        // Rules only watch areas of their own user; anything else would leak another user's data
+        if (area.userId !== rule.userId) {
+          console.error(`[Alert Check] Rule ${rule.id} watches area ${rule.areaId} of another user`);
+          results.push({ ruleId: rule.id!, status: "error", error: "Area does not belong to the rule owner" });
+          continue;
+        }
+
+        const coordinates = area.coordinates as { lat: number; lng: number }[];
+        const polygon = ee.Geometry.Polygon(
+          [coordinates.map((coord) => [coord.lng, coord.lat])],
+          "EPSG:4326"
+        );
+
+        const latest = await getLatestScene(rule, polygon);
+        if (!latest || latest.metadata.sceneId === rule.lastSceneId) {
+          await updateAlertRuleAdmin(rule.id!, { lastCheckedAt: new Date() });
+          results.push({ ruleId: rule.id!, status: "no_new_scene" });
+          continue;
+        }
+
+        console.log(`[Alert Check] Rule ${rule.id}: new scene ${latest.metadata.sceneId} for ${area.name}`);
+        const scale = getAdaptiveScale(squareMetersToKm(calculatePolygonArea(coordinates)));
+        const measurement = await measureScene(latest.image, rule, polygon, scale);
+
+        // A fully clouded pass is skipped but not re-evaluated; the baseline stays
+        if (measurement.meanValue === null) {
+          await updateAlertRuleAdmin(rule.id!, { lastSceneId: latest.metadata.sceneId, lastCheckedAt: new Date() });
+          results.push({ ruleId: rule.id!, status: "no_clear_pixels" });
+          continue;
+        }
+
+        const previousMean = await getBaselineMean(rule, latest.metadata.date);
+        const check = checkAlertCondition(rule, area.name, latest.metadata.date, measurement, previousMean);
+        const ruleUpdates: Partial<AlertRule> = {
+          lastSceneId: latest.metadata.sceneId,
+          lastMean: measurement.meanValue,
+          lastCheckedAt: new Date(),
+        };
+
+        // area_below holds for many passes in a row; only the pass where it starts is notified
+        let notify = check.triggered;
+        if (rule.condition === "area_below") {
+          notify = check.triggered && !rule.conditionMet;
+          ruleUpdates.conditionMet = check.triggered;
+        }
+
+        if (notify) {
+          console.log(`[Alert Check] 🚨 Rule ${rule.id} triggered: ${check.message}`);
+
+          let deliveryError: string | undefined;
+          try {
+            await notifyAlert(rule, area.name, check.message);
+          } catch (notifyError: any) {
+            // The alert is still recorded so it shows in the history
+            console.error(`[Alert Check] ❌ Notification failed for rule ${rule.id}:`, notifyError.message);
+            deliveryError = notifyError.message;
+          }
+
+          await createAlertEventAdmin({
+            ruleId: rule.id!,
+            userId: rule.userId,
+            areaId: rule.areaId,
+            areaName: area.name,
+            indexType: rule.indexType,
+            condition: rule.condition,
+            sceneId: latest.metadata.sceneId,
+            sceneDate: latest.metadata.date,
+            currentMean: measurement.meanValue,
+            previousMean,
+            dropPercentage: check.dropPercentage,
+            hectaresBelow: measurement.hectaresBelow,
+            message: check.message,
+            deliveryMethod: rule.deliveryMethod,
+            delivered: !deliveryError,
+            deliveryError,
+          });
+          ruleUpdates.lastTriggeredAt = new Date();
+        }
+
+        await updateAlertRuleAdmin(rule.id!, ruleUpdates);
+        results.push({ ruleId: rule.id!, status: notify ? "triggered" : check.triggered ? "still_triggered" : "ok" });
+      } catch (ruleError: any) {
+        console.error(`[Alert Check] Error checking rule ${rule.id}:`, ruleError);
+        results.push({ ruleId: rule.id!, status: "error", error: ruleError.message });
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`[Alert Check] ✅ Checked ${results.length}/${rules.length} rule(s) in ${duration}ms`);
+
+    return NextResponse.json({
+      results,
+      total: rules.length,
+      processed: results.length,
+      triggered: results.filter((result) => result.status === "triggered").length,
+      timestamp,
+      duration: `${duration}ms`,
+    });
+  } catch (error: any) {
+    const duration = Date.now() - startTime;
+    console.error(`[Alert Check] ❌ Error in alert check (${duration}ms):`, error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to check alerts",
+        timestamp,
+        duration: `${duration}ms`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Baseline mean for mean_drop: the last evaluated pass, or on a rule's first pass the
+ * latest Sentinel-2 observation stored by reports before the new scene
+ */
+async function getBaselineMean(rule: AlertRule, sceneDate: string): Promise<number | undefined> {
+  if (rule.lastMean !== undefined || rule.condition !== "mean_drop") {
+    return rule.lastMean;
+  }
+
+  try {
+    const observations = await getAreaObservationsAdmin(rule.areaId, rule.indexType, 10);
+    const baseline = observations.find(
+      (observation) =>
+        observation.imageDate < sceneDate &&
+        (!observation.source || observation.source === "sentinel2")
+    );
+    return baseline?.stats.mean;
+  } catch (error: any) {
+    // Non-critical: without a baseline the first pass only records the mean
+    console.error(`[Alert Check] Error reading observations for rule ${rule.id}:`, error.message);
+    return undefined;
+  }
+}
+
+/**
+ * Send a triggered alert through the rule's delivery method
+ */
+async function notifyAlert(rule: AlertRule, areaName: string, message: string): Promise<void> {
+  if (rule.deliveryMethod === "whatsapp") {
+    if (!rule.phoneNumber) {
+      throw new Error("Phone number is required for WhatsApp delivery");
+    }
+    await sendAlertWhatsApp(rule.phoneNumber, areaName, rule.indexType, message);
+    return;
+  }
+
+  if (!rule.email) {
+    throw new Error("Email is required for email delivery");
+  }
+  // Area names are user input: no line breaks in the subject, no markup in the body
+  const subjectAreaName = areaName.replace(/[\r\n]+/g, " ");
+  await sendEmail(rule.email, `Alerta: ${rule.indexType} en ${subjectAreaName}`, generateAlertEmail(escapeHtml(areaName), escapeHtml(message)));
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Alert email body; areaName and message must already be HTML-escaped
+ */
+function generateAlertEmail(areaName: string, message: string): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+    </head>
+    <body style="margin: 0; padding: 0; font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+      <table cellpadding="0" cellspacing="0" border="0" width="100%" style="background-color: #f4f3f4;">
+        <tr>
+          <td align="center" style="padding: 20px;">
+            <table cellpadding="0" cellspacing="0" border="0" width="600" style="max-width: 600px;">
+              <tr>
+                <td style="background-color: #dc2626; color: white; padding: 20px; border-radius: 5px 5px 0 0;">
+                  <h1 style="margin: 0; font-size: 24px;">Alerta en ${areaName}</h1>
+                </td>
+              </tr>
+              <tr>
+                <td style="background-color: #ffffff; padding: 20px;">
+                  <p>Hola,</p>
+                  <p>${message}</p>
+                  <p>Revisa la parcela para descartar fallas de riego, plagas o daños.</p>
+                </td>
+              </tr>
+              <tr>
+                <td style="background-color: #ffffff; padding: 0 20px 20px 20px;" align="center">
+                  <a href="https://copernigeo.com/dashboard/imagenes" style="display: inline-block; padding: 12px 24px; background-color: #5db815; color: white; text-decoration: none; border-radius: 5px; font-weight: bold;">Ver en Dashboard</a>
+                </td>
+              </tr>
+              <tr>
+                <td style="background-color: #ffffff; padding: 0 20px 20px 20px;">
+                  <p style="margin-top: 30px; font-size: 12px; color: #666; text-align: center;">
+                    Esta es una alerta automática de CoperniGeo. Para modificar tus alertas, visita tu dashboard.
+                  </p>
+                </td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `;
+}
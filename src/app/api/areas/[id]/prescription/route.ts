@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "firebase-admin/auth";
+import { getAdminApp } from "@/lib/firebase-admin";
+import { getAreaAdmin } from "@/lib/firestore/admin";
+import { createZip } from "@/lib/prescription/zip";
+import { buildShapefileEntries } from "@/lib/prescription/shapefile";
+import { buildIsoxmlEntries } from "@/lib/prescription/isoxml";
+import { PrescriptionRequest, PrescriptionZone, RateUnit } from "@/types/prescription";
+
+export const dynamic = 'force-dynamic';
+
+const RATE_UNITS: RateUnit[] = ["kg/ha", "L/ha"];
+
+/**
+ * File-system safe base name for the archive and its files
+ */
+function toFileName(name: string): string {
+  const safeName = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // Strip accents
+    .replace(/[^A-Za-z0-9_-]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return safeName || "zonas";
+}
+
+function isValidZone(zone: any): boolean {
+  return (
+    Number.isInteger(zone?.zone) &&
+    zone.zone > 0 &&
+    Number.isFinite(zone.areaHectares) &&
+    Number.isFinite(zone.meanValue) &&
+    zone.geometry?.type === "MultiPolygon" &&
+    Array.isArray(zone.geometry.coordinates) &&
+    zone.geometry.coordinates.length > 0 &&
+    zone.geometry.coordinates.every(
+      (polygon: any) =>
+        Array.isArray(polygon) &&
+        polygon.every(
+          (ring: any) =>
+            Array.isArray(ring) &&
+            ring.length >= 4 &&
+            ring.every((point: any) => Array.isArray(point) && point.length >= 2 && point.every(Number.isFinite))
+        )
+    )
+  );
+}
+
+/**
+ * Export a variable-rate prescription (zipped Shapefile or ISOXML TaskData) for an area
+ * POST /api/areas/[id]/prescription
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await getAuth(getAdminApp()).verifyIdToken(token);
+
+    const area = await getAreaAdmin(params.id);
+    if (!area) {
+      return NextResponse.json({ error: "Area not found" }, { status: 404 });
+    }
+    if (area.userId !== decodedToken.uid) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body: PrescriptionRequest = await request.json();
+    const { format, zones, rates, unit } = body;
+    const productName = body.productName?.trim() || "Producto";
+
+    if (format !== "shapefile" && format !== "isoxml") {
+      return NextResponse.json(
+        { error: "Invalid format. Must be shapefile or isoxml." },
+        { status: 400 }
+      );
+    }
+
+    if (!RATE_UNITS.includes(unit)) {
+      return NextResponse.json(
+        { error: `Invalid unit. Must be one of ${RATE_UNITS.join(", ")}.` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(zones) || zones.length === 0 || !zones.every(isValidZone)) {
+      return NextResponse.json(
+        { error: "Invalid zones. Generate management zones for the area first." },
+        { status: 400 }
+      );
+    }
+
+    // Zone numbers identify the zones in the DBF ZONE column and the ISOXML treatment zones
+    const zoneNumbers = new Set(zones.map((zone) => zone.zone));
+    if (zoneNumbers.size !== zones.length) {
+      return NextResponse.json(
+        { error: "Invalid zones. Zone numbers must be unique." },
+        { status: 400 }
+      );
+    }
+
+    // Every zone needs a non-negative rate
+    const prescriptionZones: PrescriptionZone[] = [];
+    for (const zone of zones) {
+      const rate = rates?.find((zoneRate) => zoneRate.zone === zone.zone)?.rate;
+      if (typeof rate !== "number" || !Number.isFinite(rate) || rate < 0) {
+        return NextResponse.json(
+          { error: `Missing or invalid rate for zone ${zone.zone}.` },
+          { status: 400 }
+        );
+      }
+      prescriptionZones.push({ ...zone, rate });
+    }
+
+    console.log("[Prescription API] Exporting", format, "for area", area.id, "with", prescriptionZones.length, "zones");
+
+    const baseName = toFileName(area.name);
+    const coordinates = area.coordinates as { lat: number; lng: number }[];
+    const entries = format === "shapefile"
+      ? buildShapefileEntries(baseName, prescriptionZones, unit)
+      : buildIsoxmlEntries({
+          areaName: area.name,
+          boundary: coordinates,
+          zones: prescriptionZones,
+          unit,
+          productName,
+        });
+    const archive = createZip(entries);
+    const fileName = `${baseName}_${format === "shapefile" ? "shp" : "isoxml"}.zip`;
+
+    return new NextResponse(new Uint8Array(archive), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Content-Length": String(archive.length),
+      },
+    });
+  } catch (error: any) {
+    console.error("[Prescription API] Error exporting prescription:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to export prescription" },
+      { status: 500 }
+    );
+  }
+}
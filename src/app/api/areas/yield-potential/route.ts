@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "firebase-admin/auth";
+import { getAdminApp } from "@/lib/firebase-admin";
+import { getUserAreasAdmin } from "@/lib/firestore/admin";
+import { initializeEarthEngine } from "@/lib/earthEngine";
+import { MAX_YIELD_AREAS, YIELD_INDEX_TYPES } from "@/lib/indices/registry";
+import { getYieldPotential } from "@/lib/indices/yieldPotential";
+import { YieldIndexType, YieldPotentialResponse } from "@/types/yield";
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // One season time series per area, a few at a time
+
+/**
+ * Relative yield potential and ranking of the user's areas, from the
+ * seasonal integral of NDVI or EVI normalized within each crop type
+ * Users with more than MAX_YIELD_AREAS areas pick which ones to compare with areaIds
+ * GET /api/areas/yield-potential?indexType=NDVI&areaIds=id1,id2
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.split("Bearer ")[1];
+    const decodedToken = await getAuth(getAdminApp()).verifyIdToken(token);
+
+    const indexType = (request.nextUrl.searchParams.get("indexType") || "NDVI") as YieldIndexType;
+    if (!YIELD_INDEX_TYPES.includes(indexType)) {
+      return NextResponse.json(
+        { error: `Invalid index type. Must be one of ${YIELD_INDEX_TYPES.join(", ")}.` },
+        { status: 400 }
+      );
+    }
+
+    // Only the user's own areas can be selected
+    const areaIds = request.nextUrl.searchParams.get("areaIds")?.split(",").filter(Boolean);
+    const areas = (await getUserAreasAdmin(decodedToken.uid)).filter(
+      (area) => area.coordinates.length >= 3 && (!areaIds || areaIds.includes(area.id!))
+    );
+    if (areas.length > MAX_YIELD_AREAS) {
+      return NextResponse.json(
+        { error: `Too many areas. Select up to ${MAX_YIELD_AREAS} areas with areaIds.` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Yield Potential API] Integrating ${indexType} over ${areas.length} area(s) of ${decodedToken.uid}...`);
+    await initializeEarthEngine();
+    const results = await getYieldPotential(areas, indexType);
+    console.log(`[Yield Potential API] ✅ Scored ${results.filter((result) => result.score !== null).length}/${results.length} area(s)`);
+
+    const response: YieldPotentialResponse = {
+      indexType,
+      areas: results,
+    };
+
+    return NextResponse.json(response);
+  } catch (error: any) {
+    console.error("[Yield Potential API] Error computing yield potential:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to compute yield potential",
+        details: process.env.NODE_ENV === "development" ? error.stack : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
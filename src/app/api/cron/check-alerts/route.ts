@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Cron job endpoint to check anomaly alert rules
+ * Configure in vercel.json to run several times a day so new scenes are picked up quickly
+ */
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const timestamp = new Date().toISOString();
+  
+  try {
+    console.log(`[Cron] Alert check cron job triggered at ${timestamp}`);
+    
+    // Verify this is a cron request (optional: add secret verification)
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error(`[Cron] Unauthorized: Invalid or missing authorization header`);
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Call the alert check endpoint
+    // Use relative URL to avoid issues with external routing
+    const checkUrl = new URL("/api/alerts/check", request.url);
+    
+    console.log(`[Cron] Calling alert check endpoint: ${checkUrl.toString()}`);
+    
+    const response = await fetch(checkUrl.toString(), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${cronSecret}`,
+      },
+    });
+
+    const contentType = response.headers.get("content-type") || "";
+    const duration = Date.now() - startTime;
+
+    if (!response.ok) {
+      let errorData: any;
+      if (contentType.includes("application/json")) {
+        errorData = await response.json();
+      } else {
+        const text = await response.text();
+        console.error(`[Cron] Non-JSON error response:`, text.substring(0, 500));
+        errorData = { error: `HTTP ${response.status}`, message: text.substring(0, 200) };
+      }
+      console.error(`[Cron] Alert check failed (${response.status}):`, errorData);
+      return NextResponse.json(
+        { error: "Failed to check alerts", details: errorData },
+        { status: response.status }
+      );
+    }
+
+    // Parse JSON only if content-type is correct
+    let data: any;
+    if (contentType.includes("application/json")) {
+      data = await response.json();
+    } else {
+      const text = await response.text();
+      console.error(`[Cron] Expected JSON but got:`, contentType, text.substring(0, 500));
+      return NextResponse.json(
+        { error: "Invalid response format from alert check endpoint" },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[Cron] ✅ Alert check completed successfully in ${duration}ms`);
+    console.log(`[Cron] Results:`, JSON.stringify(data, null, 2));
+
+    return NextResponse.json({
+      success: true,
+      message: "Alert check triggered",
+      results: data,
+      timestamp,
+      duration: `${duration}ms`,
+    });
+  } catch (error: any) {
+    const duration = Date.now() - startTime;
+    console.error(`[Cron] ❌ Error in cron job (${duration}ms):`, error);
+    console.error(`[Cron] Error stack:`, error.stack);
+    return NextResponse.json(
+      { 
+        error: error.message || "Cron job failed",
+        timestamp,
+        duration: `${duration}ms`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getDueReportsAdmin, enqueueReportJobsAdmin } from "@/lib/firestore/admin";
 
 /**
- * Cron job endpoint to generate reports
+ * Cron job endpoint to schedule report generation
+ * Only enqueues a report job per due report; the process-report-jobs cron generates them
  * Configure in vercel.json to run daily
  */
 export const dynamic = 'force-dynamic';
@@ -11,7 +13,7 @@ export async function GET(request: NextRequest) {
   const timestamp = new Date().toISOString();
   
   try {
-    console.log(`[Cron] Report generation cron job triggered at ${timestamp}`);
+    console.log(`[Cron] Report scheduling cron job triggered at ${timestamp}`);
     
     // Verify this is a cron request (optional: add secret verification)
     const authHeader = request.headers.get("authorization");
@@ -22,58 +24,17 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Call the report generation endpoint
-    // Use relative URL to avoid issues with external routing
-    const generateUrl = new URL("/api/reports/generate", request.url);
-    
-    console.log(`[Cron] Calling report generation endpoint: ${generateUrl.toString()}`);
-    
-    const response = await fetch(generateUrl.toString(), {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
-
-    const contentType = response.headers.get("content-type") || "";
+    const reports = await getDueReportsAdmin();
+    const queued = await enqueueReportJobsAdmin(reports);
     const duration = Date.now() - startTime;
 
-    if (!response.ok) {
-      let errorData: any;
-      if (contentType.includes("application/json")) {
-        errorData = await response.json();
-      } else {
-        const text = await response.text();
-        console.error(`[Cron] Non-JSON error response:`, text.substring(0, 500));
-        errorData = { error: `HTTP ${response.status}`, message: text.substring(0, 200) };
-      }
-      console.error(`[Cron] Report generation failed (${response.status}):`, errorData);
-      return NextResponse.json(
-        { error: "Failed to generate reports", details: errorData },
-        { status: response.status }
-      );
-    }
-
-    // Parse JSON only if content-type is correct
-    let data: any;
-    if (contentType.includes("application/json")) {
-      data = await response.json();
-    } else {
-      const text = await response.text();
-      console.error(`[Cron] Expected JSON but got:`, contentType, text.substring(0, 500));
-      return NextResponse.json(
-        { error: "Invalid response format from report generation endpoint" },
-        { status: 500 }
-      );
-    }
-
-    console.log(`[Cron] ✅ Report generation completed successfully in ${duration}ms`);
-    console.log(`[Cron] Results:`, JSON.stringify(data, null, 2));
+    console.log(`[Cron] ✅ Queued ${queued} report job(s) for ${reports.length} due report(s) in ${duration}ms`);
 
     return NextResponse.json({
       success: true,
-      message: "Reports generation triggered",
-      results: data,
+      message: "Report jobs queued",
+      due: reports.length,
+      queued,
       timestamp,
       duration: `${duration}ms`,
     });
@@ -91,4 +52,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
@@ -6,11 +6,11 @@ import { generateCropHealthPDF } from "@/lib/pdf/generateCropHealthPDF";
 import { initializeEarthEngine, getEarthEngine } from "@/lib/earthEngine";
 import * as ee from "@google/earthengine";
 import { 
-  calculateIndex, 
   getSentinel2Collection, 
   getMostRecentImage 
 } from "@/lib/indices/calculations";
 import { IndexType } from "@/types/report";
+import { analyzeArea, renderLayerThumbnails } from "@/lib/indices/analysis";
 import { compositeIndexOverlay } from "@/lib/images/compositeImage";
 import { renderMapWithTiles } from "@/lib/images/tileRenderer";
 import { Lead } from "@/types/lead";
@@ -126,109 +126,16 @@ export async function POST(
         // Don't throw error - continue with empty image (will show placeholder in PDF)
         ndviImageBase64 = "";
       } else {
-        // Clip image to polygon bounding box BEFORE index calculation (same optimization as dashboard)
-        console.log(`[Lead Report] Clipping image to bounding box (cost optimization)...`);
-        const bbox = polygon.bounds();
-        const bufferMeters = 1000; // 1km buffer
-        const bufferedBbox = bbox.buffer(bufferMeters);
-        const clippedImage = image.clip(bufferedBbox);
-        
-        // Calculate NDVI on clipped image
-        const ndvi = calculateIndex(clippedImage, "NDVI" as IndexType);
-        
-        // Clip to exact polygon for display
-        const clipped = ndvi.clip(polygon);
-        
-        // Get statistics first (needed for proper visualization)
-        console.log(`[Lead Report] Computing statistics...`);
-        const stats = clipped.reduceRegion({
-          reducer: ee.Reducer.minMax().combine({
-            reducer2: ee.Reducer.mean(),
-            sharedInputs: true,
-          }),
-          geometry: polygon,
-          scale: 100,
-          maxPixels: 1e9,
-          bestEffort: true,
-        });
-
-        const statsValue = await new Promise<any>((resolve, reject) => {
-          const timeout = setTimeout(() => {
-            reject(new Error("Statistics computation timed out"));
-          }, 60000);
-          
-          stats.getInfo((value: any, error?: Error) => {
-            clearTimeout(timeout);
-            if (error) {
-              reject(error);
-            } else {
-              resolve(value);
-            }
-          });
-        });
-
-        const minValue = statsValue.NDVI_min;
-        const maxValue = statsValue.NDVI_max;
-        console.log(`[Lead Report] Statistics: min=${minValue}, max=${maxValue}`);
-
-        // Get tile URL for headless browser rendering (same as automated reports)
-        console.log(`[Lead Report] Generating tile URL...`);
-        const mapId = await new Promise<any>((resolve, reject) => {
-          const timeout = setTimeout(() => {
-            reject(new Error("Tile URL generation timed out"));
-          }, 60000);
-          
-          clipped.getMapId(
-            {
-              min: minValue,
-              max: maxValue,
-              palette: ["red", "yellow", "green"],
-            },
-            (result: any, error?: Error) => {
-              clearTimeout(timeout);
-              if (error) {
-                reject(error);
-              } else {
-                resolve(result);
-              }
-            }
-          );
-        });
-
-        // Extract tile URL (same as automated reports)
-        const tileUrl = mapId?.urlFormat || mapId?.tile_fetcher?.url_format || mapId?.url_format;
-        
-        if (!tileUrl) {
-          throw new Error(`Failed to generate tile URL. MapId structure: ${JSON.stringify(Object.keys(mapId || {}))}`);
+        // NDVI statistics and tile URL (same pipeline as automated reports)
+        console.log(`[Lead Report] Analyzing NDVI...`);
+        const analysis = await analyzeArea(lead.coordinates, ["NDVI" as IndexType], { image });
+        if (analysis.layers.length === 0) {
+          throw analysis.errors[0].error;
         }
-        
+        const { tileUrl, stretch } = analysis.layers[0];
+        console.log(`[Lead Report] Color stretch: min=${stretch.min}, max=${stretch.max}`);
         console.log(`[Lead Report] Tile URL generated: ${tileUrl.substring(0, 100)}...`);
 
-        // Calculate bounding box with padding for fallback composite
-        let minLat = lead.coordinates[0].lat;
-        let maxLat = lead.coordinates[0].lat;
-        let minLng = lead.coordinates[0].lng;
-        let maxLng = lead.coordinates[0].lng;
-        
-        for (const coord of lead.coordinates) {
-          if (coord.lat < minLat) minLat = coord.lat;
-          if (coord.lat > maxLat) maxLat = coord.lat;
-          if (coord.lng < minLng) minLng = coord.lng;
-          if (coord.lng > maxLng) maxLng = coord.lng;
-        }
-        
-        // Add 5% padding
-        const latPadding = (maxLat - minLat) * 0.05;
-        const lngPadding = (maxLng - minLng) * 0.05;
-        
-        const paddedBounds = ee.Geometry.Polygon([[
-          [minLng - lngPadding, minLat - latPadding],
-          [maxLng + lngPadding, minLat - latPadding],
-          [maxLng + lngPadding, maxLat + latPadding],
-          [minLng - lngPadding, maxLat + latPadding],
-          [minLng - lngPadding, minLat - latPadding]
-        ]]);
-
         // Try headless browser rendering first (Google Maps + Earth Engine tiles)
         let finalImageBuffer: Buffer | null = null;
         
@@ -251,39 +158,10 @@ export async function POST(
           
           // Fallback to Earth Engine composite (same as automated reports)
           console.log(`[Lead Report] Falling back to Earth Engine composite...`);
-          
-          // Generate base satellite image (RGB) and index overlay for composite
-          console.log(`[Lead Report] Generating RGB base satellite image...`);
-          const baseSatelliteUrl = await new Promise<string>((resolve, reject) => {
-            (image as any).getThumbURL({
-              dimensions: 1200,
-              format: 'png',
-              region: paddedBounds,
-              bands: ['B4', 'B3', 'B2'], // RGB bands
-              min: [0, 0, 0],
-              max: [3000, 3000, 3000], // Typical Sentinel-2 reflectance values
-            }, (url: string, error?: Error) => {
-              if (error) reject(error);
-              else resolve(url);
-            });
-          });
-          console.log(`[Lead Report] ✅ RGB base satellite image generated`);
-          
-          console.log(`[Lead Report] Generating NDVI overlay thumbnail...`);
-          const thumbnailUrl = await new Promise<string>((resolve, reject) => {
-            (clipped as any).getThumbURL({
-              dimensions: 1200, // Same dimensions as base image
-              format: 'png',
-              region: paddedBounds, // Same bounding box as base image
-              min: minValue,
-              max: maxValue,
-              palette: ["red", "yellow", "green"],
-            }, (url: string, error?: Error) => {
-              if (error) reject(error);
-              else resolve(url);
-            });
-          });
-          console.log(`[Lead Report] ✅ Index overlay thumbnail generated`);
+          // Thumbnails are only rendered here, when the headless browser failed
+          console.log(`[Lead Report] Generating RGB base and NDVI overlay thumbnails...`);
+          const { baseSatelliteUrl, thumbnailUrl } = await renderLayerThumbnails(image, analysis.layers[0], lead.coordinates);
+          console.log(`[Lead Report] ✅ Thumbnails generated`);
 
           // Download both images
           console.log(`[Lead Report] Downloading base satellite image...`);
@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getReportAdmin, markReportGeneratedAdmin, getAreaAdmin, updateReportAdmin } from "@/lib/firestore/admin";
-import { initializeEarthEngine, getEarthEngine } from "@/lib/earthEngine";
-import { calculateIndex, getSentinel2Collection, getMostRecentImage } from "@/lib/indices/calculations";
+import { getReportAdmin, markReportGeneratedAdmin, getAreaAdmin, updateReportAdmin, createObservationsAdmin, createReportRunAdmin, updateReportRunAdmin, trackReportDeliveryAdmin } from "@/lib/firestore/admin";
+import { initializeEarthEngine } from "@/lib/earthEngine";
+import { formatIndexValue, isRadarIndexType, isThermalLayerType } from "@/lib/indices/registry";
+import { analyzeReportArea, ReportLayerResult } from "@/lib/indices/analysis";
+import { interpretPSRI } from "@/lib/indices/phenology";
+import { getYieldPotential } from "@/lib/indices/yieldPotential";
 import { sendEmail } from "@/lib/email/resend";
 import { sendReportWhatsApp, sendReportWhatsAppWithPDF } from "@/lib/whatsapp/meta";
 import { generateReportPDF } from "@/lib/pdf/generateReportPDF";
-import { IndexType } from "@/types/report";
-import { getFrequencyLabel } from "@/lib/utils/reports";
-import { calculatePolygonArea, squareMetersToKm } from "@/lib/utils/geometry";
+import { TimeSeriesPoint } from "@/types/satellite";
+import { ReportRun, ReportRunDelivery, ReportRunError, ReportRunStatus } from "@/types/reportRun";
+import { getFrequencyLabel, formatCompositeDates, formatWeatherPeriod, formatWeatherSummary, formatPhenologySummary, formatYieldPotentialRow, getReportRunResults } from "@/lib/utils/reports";
+import { AreaYieldPotential } from "@/types/yield";
+import { Area } from "@/types/area";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
 import { uploadImageWithDedup, uploadPDFAdmin } from "@/lib/storage/admin-upload";
 import { compositeIndexOverlay } from '@/lib/images/compositeImage';
 import { renderMapWithTiles } from '@/lib/images/tileRenderer';
@@ -16,6 +22,8 @@ import sharp from 'sharp';
 export const dynamic = 'force-dynamic';
 export const maxDuration = 120; // Allow up to 120 seconds for processing (reports may take longer)
 
+const AREA_CONCURRENCY = 3; // Areas of a report analyzed at once
+
 // v3.8 - Headless browser with Google Maps + Earth Engine tiles (fix tile loading)
 
 /**
@@ -27,6 +35,33 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   console.log(`[Report Send] Starting report send for ID: ${params.id}`);
+
+  // Run history of this send (non-critical), finished on every exit after the run is created
+  let runId: string | null = null;
+  const runErrors: ReportRunError[] = [];
+  let runArtifacts: Partial<ReportRun> = {};
+  let delivery: ReportRunDelivery | undefined;
+  let deliveryTracked = false;
+  const finishRun = async (status: ReportRunStatus) => {
+    if (!runId) return;
+    try {
+      // A tracked delivery is already on the run and may have been advanced by the webhooks
+      await updateReportRunAdmin(params.id, runId, { ...runArtifacts, status, finishedAt: new Date(), errors: runErrors, delivery: deliveryTracked ? undefined : delivery });
+    } catch (runError: any) {
+      console.error(`[Report Send] Failed to record run ${runId}:`, runError.message);
+    }
+  };
+  // The delivery webhooks match status events back to this run by message ID (non-critical)
+  const trackDelivery = async () => {
+    if (!runId || !delivery?.messageId) return;
+    try {
+      await trackReportDeliveryAdmin(params.id, runId, { ...delivery, messageId: delivery.messageId });
+      deliveryTracked = true;
+    } catch (trackError: any) {
+      console.error(`[Report Send] Failed to track delivery ${delivery.messageId}:`, trackError.message);
+    }
+  };
+
   try {
     // Get the report using Admin SDK (bypasses Firestore rules)
     console.log(`[Report Send] Fetching report from Firestore (Admin SDK)...`);
@@ -49,7 +84,7 @@ export async function POST(
       report.areaIds.map((areaId) => getAreaAdmin(areaId))
     );
 
-    const validAreas = areas.filter((area) => area !== null);
+    const validAreas = areas.filter((area): area is Area => area !== null);
 
     if (validAreas.length === 0) {
       return NextResponse.json(
@@ -58,277 +93,98 @@ export async function POST(
       );
     }
 
+    try {
+      runId = await createReportRunAdmin(report.id, {
+        userId: report.userId,
+        trigger: "manual",
+        startedAt: new Date(),
+      });
+    } catch (runError: any) {
+      console.error(`[Report Send] Failed to start run history:`, runError.message);
+    }
+
     // Initialize Earth Engine
     console.log(`[Report Send] Initializing Earth Engine...`);
     await initializeEarthEngine();
-    const ee = getEarthEngine();
     console.log(`[Report Send] Earth Engine initialized`);
 
     // Process each index for each area using current data (most recent images)
-    const imageData: Array<{
-      areaName: string;
-      indexType: IndexType;
-      imageUrl: string;
-      thumbnailUrl?: string;
-      baseSatelliteUrl?: string; // RGB base satellite image from Earth Engine
-      stats: { min: number; max: number; mean: number };
-      centerLat?: number;
-      centerLng?: number;
-      coordinates?: { lat: number; lng: number }[];
-    }> = [];
+    const imageData: ReportLayerResult[] = [];
 
     console.log(`[Report Send] Processing ${validAreas.length} areas with ${report.indices.length} indices each...`);
-    for (const area of validAreas) {
-      if (!area) continue;
+    // NDVI season series of each area's phenology, reused by the yield potential ranking
+    const seasonNdvi = new Map<string, TimeSeriesPoint[]>();
+    // Areas are analyzed concurrently, a few at a time to stay within Earth Engine's request limits;
+    // each returns its own entries so the email keeps them grouped in report order.
+    // Failing areas and indices are recorded on the run and left out, so the rest still go out
+    const imageDataByArea = await mapWithConcurrency(validAreas, AREA_CONCURRENCY, async (area) => {
       console.log(`[Report Send] Processing area: ${area.name}`);
-
-      // Create polygon
-      const coordinates = area.coordinates.map((coord: any) => ({
-        lat: coord.latitude || coord.lat,
-        lng: coord.longitude || coord.lng,
-      }));
-
-      const polygon = ee.Geometry.Polygon(
-        [coordinates.map((coord: any) => [coord.lng, coord.lat])],
-        "EPSG:4326"
-      );
-
-      // Process each requested index
-      for (const indexType of report.indices) {
-        console.log(`[Report Send] Processing index: ${indexType} for area: ${area.name}`);
-        
-        try {
-          // Get Sentinel-2 collection (automatically uses last 60 days, most recent data)
-          const collection = getSentinel2Collection(report.cloudCoverage)
-            .filterBounds(polygon); // Filter by polygon early to reduce processing
-
-          // Select the most recent image
-          const image = getMostRecentImage(collection);
-          
-          // OPTIMIZATION: Clip image to polygon bounding box BEFORE index calculation
-          // This dramatically reduces processing (99%+ reduction for small areas)
-          console.log(`[Report Send] Clipping image to bounding box (cost optimization)...`);
-          const bbox = polygon.bounds();
-          const bufferMeters = 1000; // 1km buffer
-          const bufferedBbox = bbox.buffer(bufferMeters);
-          const clippedImage = image.clip(bufferedBbox);
-          
-          // Calculate index on clipped image (much smaller area)
-          const indexImage = calculateIndex(clippedImage, indexType);
-          
-          // Clip to exact polygon for statistics
-          const clipped = indexImage.clip(polygon);
-
-          // OPTIMIZATION: Adaptive resolution scaling based on area size
-          const polygonAreaM2 = calculatePolygonArea(coordinates);
-          const areaKm2 = squareMetersToKm(polygonAreaM2);
-          let scale = 100; // Default 100m resolution
-          
-          if (areaKm2 > 100) {
-            scale = 250; // 250m for areas > 100 km²
-          } else if (areaKm2 > 50) {
-            scale = 200; // 200m for areas > 50 km²
-          } else if (areaKm2 > 10) {
-            scale = 150; // 150m for areas > 10 km²
-          }
-
-          // Get statistics with optimized parameters
-          console.log(`[Report Send] Computing statistics for ${indexType} (scale: ${scale}m, area: ${areaKm2.toFixed(2)} km²)...`);
-          const stats = clipped.reduceRegion({
-            reducer: ee.Reducer.minMax().combine({
-              reducer2: ee.Reducer.mean(),
-              sharedInputs: true,
-            }),
-            geometry: polygon,
-            scale: scale, // Adaptive resolution
-            maxPixels: 1e9,
-            bestEffort: true, // Use best effort mode to avoid timeouts
-            tileScale: 4, // Increase tile scale for better performance
-          });
-
-          // Use getInfo() instead of get() for better reliability, with longer timeout
-          const statsValue = await new Promise<any>((resolve, reject) => {
-            const timeout = setTimeout(() => {
-              console.error(`[Report Send] Statistics computation timed out for ${indexType}`);
-              reject(new Error(`Statistics computation timeout after 90 seconds. Area size: ${areaKm2.toFixed(2)} km²`));
-            }, 90000); // 90 second timeout (same as satellite route)
-
-            stats.getInfo((value: any, error?: Error) => {
-              clearTimeout(timeout);
-              if (error) {
-                console.error(`[Report Send] Statistics error for ${indexType}:`, error);
-                reject(error);
-              } else {
-                console.log(`[Report Send] Statistics received for ${indexType}`);
-                resolve(value);
-              }
-            });
-          });
-          
-          console.log(`[Report Send] Statistics computed for ${indexType}:`, statsValue);
-
-          // Generate image URL - use getMapId for tiles and also try to get thumbnail
-          console.log(`[Report Send] Generating tile URL for ${indexType}...`);
-          const mapId = await Promise.race([
-            new Promise<any>((resolve, reject) => {
-              clipped.getMapId(
-                {
-                  min: statsValue[`${indexType}_min`],
-                  max: statsValue[`${indexType}_max`],
-                  palette:
-                    indexType === "NDVI" || indexType === "NDRE" || indexType === "MSAVI"
-                      ? ["red", "yellow", "green"]
-                      : indexType === "NDWI"
-                      ? ["brown", "yellow", "cyan", "blue"]
-                      : indexType === "PSRI"
-                      ? ["green", "yellow", "orange", "red"]
-                      : ["blue", "cyan", "yellow", "orange", "red"],
-                },
-                (result: any, error?: Error) => {
-                  if (error) reject(error);
-                  else resolve(result);
-                }
-              );
-            }),
-            new Promise((_, reject) => {
-              setTimeout(() => reject(new Error("Tile URL generation timeout after 30 seconds")), 30000);
-            })
-          ]) as any;
-          
-          console.log(`[Report Send] Tile URL generated for ${indexType}`);
-          const tileUrl = mapId?.tile_fetcher?.url_format || mapId?.urlFormat || mapId?.url_format || "";
-          console.log(`[Report Send] Extracted tile URL: ${tileUrl.substring(0, 150)}...`);
-
-          // Generate both base satellite and index overlay from Earth Engine
-          // This ensures perfect alignment as both use the same coordinate system
-          let thumbnailUrl: string | null = null;
-          let baseSatelliteUrl: string | null = null;
-          
-          try {
-            // Calculate bounding box with padding
-            let minLat = coordinates[0].lat;
-            let maxLat = coordinates[0].lat;
-            let minLng = coordinates[0].lng;
-            let maxLng = coordinates[0].lng;
-            
-            for (const coord of coordinates) {
-              if (coord.lat < minLat) minLat = coord.lat;
-              if (coord.lat > maxLat) maxLat = coord.lat;
-              if (coord.lng < minLng) minLng = coord.lng;
-              if (coord.lng > maxLng) maxLng = coord.lng;
-            }
-            
-            // Add 5% padding
-            const latPadding = (maxLat - minLat) * 0.05;
-            const lngPadding = (maxLng - minLng) * 0.05;
-            
-            // Store bounds for later use
-            const boundsData = {
-              minLat: minLat - latPadding,
-              maxLat: maxLat + latPadding,
-              minLng: minLng - lngPadding,
-              maxLng: maxLng + lngPadding,
-            };
-            
-            // Create bounding box as a polygon for Earth Engine
-            const paddedBounds = ee.Geometry.Polygon([[
-              [boundsData.minLng, boundsData.minLat],
-              [boundsData.maxLng, boundsData.minLat],
-              [boundsData.maxLng, boundsData.maxLat],
-              [boundsData.minLng, boundsData.maxLat],
-              [boundsData.minLng, boundsData.minLat]
-            ]]);
-            
-            console.log(`[Report Send] Generating Earth Engine images for bounding box`);
-            console.log(`[Report Send] Bounding box:`, boundsData);
-            
-            // Generate RGB base satellite image from the SAME Sentinel-2 image
-            console.log(`[Report Send] Generating RGB base satellite image...`);
-            baseSatelliteUrl = await new Promise<string>((resolve, reject) => {
-              (image as any).getThumbURL({
-                dimensions: 1200,
-                format: 'png',
-                region: paddedBounds,
-                bands: ['B4', 'B3', 'B2'], // RGB bands
-                min: [0, 0, 0],
-                max: [3000, 3000, 3000], // Typical Sentinel-2 reflectance values
-              }, (url: string, error?: Error) => {
-                if (error) reject(error);
-                else resolve(url);
-              });
-            });
-            console.log(`[Report Send] ✅ RGB base satellite image generated`);
-            
-            // Generate index overlay thumbnail for the SAME bounding box
-            if (typeof (indexImage as any).getThumbURL === 'function') {
-              console.log(`[Report Send] Generating index overlay thumbnail...`);
-              thumbnailUrl = await new Promise<string>((resolve, reject) => {
-                (indexImage as any).getThumbURL({
-                  dimensions: 1200, // Same dimensions as base image
-                  format: 'png',
-                  region: paddedBounds, // Same bounding box as base image
-                  min: statsValue[`${indexType}_min`],
-                  max: statsValue[`${indexType}_max`],
-                  palette: indexType === "NDVI" || indexType === "NDRE" || indexType === "MSAVI"
-                    ? ["red", "yellow", "green"]
-                    : indexType === "NDWI"
-                    ? ["brown", "yellow", "cyan", "blue"]
-                    : indexType === "PSRI"
-                    ? ["green", "yellow", "orange", "red"]
-                    : ["blue", "cyan", "yellow", "orange", "red"],
-                }, (url: string, error?: Error) => {
-                  if (error) reject(error);
-                  else resolve(url);
-                });
-              });
-              console.log(`[Report Send] ✅ Index overlay thumbnail generated`);
-            }
-          } catch (thumbError: any) {
-            console.log(`[Report Send] Thumbnail generation failed: ${thumbError.message}`);
-          }
-
-          // Calculate center coordinates for tile selection
-          const centerLat = coordinates.reduce((sum: number, coord: any) => sum + coord.lat, 0) / coordinates.length;
-          const centerLng = coordinates.reduce((sum: number, coord: any) => sum + coord.lng, 0) / coordinates.length;
-          console.log(`[Report Send] Calculated center: lat=${centerLat}, lng=${centerLng}`);
-
-          imageData.push({
-            areaName: area.name,
-            indexType,
-            imageUrl: tileUrl,
-            thumbnailUrl: thumbnailUrl || undefined,
-            baseSatelliteUrl: baseSatelliteUrl || undefined, // Base RGB satellite image
-            stats: {
-              min: statsValue[`${indexType}_min`],
-              max: statsValue[`${indexType}_max`],
-              mean: statsValue[`${indexType}_mean`],
-            },
-            centerLat,
-            centerLng,
-            coordinates, // Pass coordinates for composite generation
-          });
-          console.log(`[Report Send] Completed ${indexType} for ${area.name}`);
-        } catch (indexError: any) {
-          console.error(`[Report Send] Error processing ${indexType} for ${area.name}:`, indexError);
-          throw new Error(`Failed to process ${indexType} for ${area.name}: ${indexError.message}`);
+      try {
+        const { entries, errors } = await analyzeReportArea(area, report, { seasonNdvi, logPrefix: "[Report Send]" });
+        for (const { layer, error } of errors) {
+          console.error(`[Report Send] ⚠️ Error processing ${layer} for ${area.name}:`, error);
+          runErrors.push({ areaName: area.name, indexType: layer, message: error.message });
         }
+        return entries;
+      } catch (areaError: any) {
+        console.error(`[Report Send] ⚠️ Error processing area ${area.name}:`, areaError);
+        runErrors.push({ areaName: area.name, message: areaError.message || "Unknown error" });
+        return [];
       }
-    }
+    });
+    imageData.push(...imageDataByArea.flat());
     
     console.log(`[Report Send] Completed processing all areas. Total image data: ${imageData.length} items`);
 
+    if (imageData.length === 0) {
+      throw new Error("All indices failed to process");
+    }
+
     // Generate email content (async function that downloads images)
     console.log(`[Report Send] Generating email HTML with images...`);
     console.log(`[Report Send] Image data count: ${imageData.length}`);
     imageData.forEach((data, idx) => {
       console.log(`[Report Send] Image ${idx + 1}: ${data.areaName} - ${data.indexType}, URL: ${data.imageUrl.substring(0, 100)}..., center: (${data.centerLat}, ${data.centerLng})`);
     });
-    const emailResult = await generateReportEmail(report, imageData);
+    // Monthly reports can rank the yield potential of their areas (non-critical)
+    let yieldPotential: AreaYieldPotential[] | null = null;
+    if (report.frequency === "monthly" && report.includeYieldPotential) {
+      try {
+        yieldPotential = await getYieldPotential(validAreas, "NDVI", seasonNdvi);
+      } catch (yieldError: any) {
+        console.error(`[Report Send] Failed to compute yield potential:`, yieldError.message);
+      }
+    }
+
+    const emailResult = await generateReportEmail(report, imageData, yieldPotential);
     const emailHtml = emailResult.html;
     const imageAttachments = emailResult.attachments;
     const imageBuffers = emailResult.imageBuffers;
     const uploadedImageUrls = emailResult.imageUrls; // Image URLs already uploaded to Firebase Storage
 
+    // Keep every computed result as per-area history (non-critical)
+    try {
+      await createObservationsAdmin(
+        imageData
+          .filter((data) => data.imageDate)
+          .map((data) => ({
+            userId: report.userId,
+            areaId: data.areaId,
+            areaName: data.areaName,
+            indexType: data.indexType,
+            imageDate: data.imageDate!,
+            imageDates: data.imageDates,
+            source: data.source,
+            stats: data.stats,
+            imageUrl: uploadedImageUrls.find((image) => image.areaId === data.areaId && image.indexType === data.indexType)?.url,
+            reportId: report.id!,
+          }))
+      );
+    } catch (observationError: any) {
+      console.error(`[Report Send] Failed to store observations:`, observationError.message);
+    }
+
+
     // Generate PDF
     console.log(`[Report Send] Generating PDF for report ${report.id}...`);
     let pdfBuffer: Buffer | null = null;
@@ -348,11 +204,24 @@ export async function POST(
           indexType: data.indexType,
           imageUrl: base64Image ? `data:image/png;base64,${base64Image}` : undefined,
           stats: data.stats,
+          imageDates: data.imageDates,
+          source: data.source,
+          weather: data.weather,
+          phenology: data.phenology,
+          change: data.change ? {
+            sinceDate: data.change.sinceDate,
+            meanChange: data.change.stats.mean,
+            declineThreshold: data.change.declineThreshold,
+            declinedHectares: data.change.declinedHectares,
+            declinedPercentage: data.change.declinedPercentage,
+            stretch: data.change.stretch,
+            imageUrl: data.change.imageBuffer ? `data:image/png;base64,${data.change.imageBuffer.toString('base64')}` : undefined,
+          } : undefined,
         };
       });
       
       pdfBuffer = await Promise.race([
-        generateReportPDF(report, pdfImageData),
+        generateReportPDF(report, pdfImageData, yieldPotential),
         new Promise<Buffer>((_, reject) => {
           setTimeout(() => reject(new Error("PDF generation timeout after 30 seconds")), 30000);
         })
@@ -365,6 +234,21 @@ export async function POST(
       pdfBuffer = null;
     }
 
+    // This run's PDF and results for the history (latest.pdf is overwritten by every run)
+    let runPdfUrl: string | undefined;
+    if (runId && pdfBuffer && pdfBuffer.length > 0) {
+      try {
+        runPdfUrl = await uploadPDFAdmin(report.id, pdfBuffer, runId);
+      } catch (uploadError: any) {
+        console.error(`[Report Send] Failed to upload run PDF:`, uploadError.message);
+      }
+    }
+    runArtifacts = {
+      ...getReportRunResults(imageData, uploadedImageUrls),
+      pdfUrl: runPdfUrl,
+      imageUrls: uploadedImageUrls,
+    };
+
     // Send report via email or WhatsApp based on deliveryMethod
     const reportDate = new Date().toLocaleDateString("es-MX");
     
@@ -407,12 +291,15 @@ export async function POST(
         // Send WhatsApp template with PDF URL
         const reportName = report.name || `Reporte ${getFrequencyLabel(report.frequency)}`;
         if (pdfUrl) {
-          await sendReportWhatsAppWithPDF(
+          delivery = { method: "whatsapp", recipient: report.phoneNumber, status: "failed" };
+          const messageId = await sendReportWhatsAppWithPDF(
             report.phoneNumber,
             reportName,
             pdfUrl,
             report.id
           );
+          delivery = { ...delivery, status: "sent", messageId, sentAt: new Date() };
+          await trackDelivery();
           console.log(`[Report Send] ✅ WhatsApp template sent to ${report.phoneNumber}`);
         } else {
           throw new Error("PDF URL is required to send WhatsApp template");
@@ -427,6 +314,7 @@ export async function POST(
         throw new Error(`Failed to send WhatsApp report: ${whatsappError.message}`);
       }
 
+      await finishRun("succeeded");
       return NextResponse.json({
         success: true,
         message: "WhatsApp report sent successfully",
@@ -475,13 +363,16 @@ export async function POST(
           });
         }
         
-      await sendEmail(
+      delivery = { method: "email", recipient: emailAddress, status: "failed" };
+      const messageId = await sendEmail(
           emailAddress,
         `Reporte de Monitoreo - ${reportDate}`,
         emailHtml,
         undefined,
           allAttachments.length > 0 ? allAttachments : undefined
       );
+      delivery = { ...delivery, status: "sent", messageId, sentAt: new Date() };
+      await trackDelivery();
         console.log(`[Report Send] ✅ Email sent successfully for report ${report.id} to ${emailAddress}${pdfBuffer ? " with PDF attachment" : " (no PDF)"}${imageAttachments && imageAttachments.length > 0 ? ` and ${imageAttachments.length} inline images` : ""}`);
     } catch (emailError: any) {
       console.error(`[Report Send] ❌ Email sending failed:`, emailError);
@@ -492,6 +383,7 @@ export async function POST(
     // Mark report as generated using Admin SDK (bypasses Firestore rules)
     await markReportGeneratedAdmin(report.id);
 
+    await finishRun("succeeded");
     return NextResponse.json({
       success: true,
       message: "Report sent successfully",
@@ -499,6 +391,9 @@ export async function POST(
     });
   } catch (error: any) {
     console.error(`Error sending report ${params.id}:`, error);
+    runErrors.push({ message: error.message || "Unknown error" });
+    // A report that reached its recipient counts as sent even if bookkeeping failed afterwards
+    await finishRun(delivery?.status === "sent" ? "succeeded" : "failed");
     return NextResponse.json(
       { error: error.message || "Failed to send report" },
       { status: 500 }
@@ -623,18 +518,9 @@ async function downloadTileAsBase64(
 
 async function generateReportEmail(
   report: any,
-  imageData: Array<{
-    areaName: string;
-    indexType: IndexType;
-    imageUrl: string;
-    thumbnailUrl?: string;
-    baseSatelliteUrl?: string; // RGB base satellite image from Earth Engine
-    stats: { min: number; max: number; mean: number };
-    centerLat?: number;
-    centerLng?: number;
-    coordinates?: { lat: number; lng: number }[]; // Add coordinates for composite generation
-  }>
-): Promise<{ html: string; attachments: Array<{ filename: string; content: Buffer; contentType: string; cid?: string }>; imageBuffers: Buffer[]; imageUrls: Array<{areaName: string; indexType: string; url: string}> }> {
+  imageData: ReportLayerResult[],
+  yieldPotential?: AreaYieldPotential[] | null // Monthly ranking of the report's areas
+): Promise<{ html: string; attachments: Array<{ filename: string; content: Buffer; contentType: string; cid?: string }>; imageBuffers: Buffer[]; imageUrls: Array<{areaId: string; areaName: string; indexType: string; url: string}> }> {
   const reportDate = new Date().toLocaleDateString("es-MX", {
     year: "numeric",
     month: "long",
@@ -642,6 +528,17 @@ async function generateReportEmail(
   });
 
   let imagesHtml = "";
+  const yieldPotentialHtml = yieldPotential && yieldPotential.length > 0
+    ? `
+              <!-- Yield potential -->
+              <tr>
+                <td style="background-color: #ffffff; padding: 0 20px 20px 20px;">
+                  <h2 style="color: #242424;">Potencial de rendimiento</h2>
+                  ${yieldPotential.map((result) => `<p style="margin-top: 0; margin-bottom: 5px;">${formatYieldPotentialRow(result)}</p>`).join("")}
+                  <p style="margin-top: 10px; margin-bottom: 0; font-size: 12px; color: #666;">NDVI acumulado en la temporada; 100 = la mejor parcela de su cultivo. Estimación relativa, no un rendimiento en t/ha.</p>
+                </td>
+              </tr>`
+    : "";
   const imageAttachments: Array<{
     filename: string;
     content: Buffer;
@@ -649,11 +546,50 @@ async function generateReportEmail(
     cid?: string;
   }> = [];
   const imageBuffers: Buffer[] = []; // Store buffers for PDF generation
-  const imageUrls: Array<{areaName: string; indexType: string; url: string}> = []; // Store image URLs for WhatsApp
+  const imageUrls: Array<{areaId: string; areaName: string; indexType: string; url: string}> = []; // Store image URLs for WhatsApp
   
   console.log(`[Email] Starting to process ${imageData.length} images for email (uploading to Firebase Storage with Admin SDK)...`);
   for (let i = 0; i < imageData.length; i++) {
     const data = imageData[i];
+    const datesHtml = isRadarIndexType(data.indexType)
+      ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;"><strong>Imagen:</strong> Radar Sentinel-1. No hubo imágenes ópticas despejadas de la parcela, así que se muestra un índice de radar, que atraviesa las nubes.</p>`
+      : isThermalLayerType(data.indexType)
+        ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;"><strong>Imagen:</strong> Landsat 8/9, banda térmica (resolución de 30 m)${data.imageDate ? ` del ${new Date(`${data.imageDate}T00:00:00`).toLocaleDateString("es-MX")}` : ""}.</p>`
+        : data.source === "landsat"
+          ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;"><strong>Imagen:</strong> Landsat 8/9. No hubo imágenes despejadas de Sentinel-2 de la parcela, así que se usó Landsat (resolución de 30 m).</p>`
+          : report.compositeMode && data.imageDates?.length
+            ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;"><strong>Imagen:</strong> ${formatCompositeDates(report.compositeMode, data.imageDates)}</p>`
+            : "";
+    // Weather of the area over the report period, shown once with its first index
+    const firstOfArea = i === 0 || imageData[i - 1].areaName !== data.areaName;
+    const weatherHtml = data.weather && firstOfArea
+      ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;"><strong>Clima ${formatWeatherPeriod(data.weather)}:</strong> ${formatWeatherSummary(data.weather)}</p>`
+      : "";
+    // Crop calendar and season, also shown once per area; PSRI is read against the expected stage
+    const phenologyHtml = data.phenology && firstOfArea
+      ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;"><strong>Cultivo:</strong> ${formatPhenologySummary(data.phenology)}</p>`
+      : "";
+    const psriNote = data.indexType === "PSRI" && data.phenology ? interpretPSRI(data.stats.mean, data.phenology.expectedStage) : null;
+    const psriHtml = psriNote ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;">${psriNote}</p>` : "";
+    // Difference map since the last report, uploaded next to the index image
+    let changeHtml = "";
+    if (data.change) {
+      let changeImageTag = "";
+      if (data.change.imageBuffer) {
+        try {
+          const changeImageUrl = await uploadImageWithDedup(data.change.imageBuffer, data.areaName, `change-${data.indexType}`);
+          changeImageTag = `<img src="${changeImageUrl}" alt="${data.areaName} - cambios ${data.indexType}" style="display: block; width: 600px; max-width: 100%; height: auto; border-radius: 5px;" />`;
+        } catch (changeUploadError: any) {
+          console.error(`[Email] Failed to upload change image for ${data.areaName} - ${data.indexType}:`, changeUploadError.message);
+        }
+      }
+      const meanChange = data.change.stats.mean;
+      changeHtml = `
+            <h4 style="color: #242424; margin-top: 20px; margin-bottom: 5px;">Cambios desde el último reporte (${new Date(`${data.change.sinceDate}T00:00:00`).toLocaleDateString("es-MX")})</h4>
+            <p style="margin-top: 0; margin-bottom: 10px;"><strong>Cambio promedio:</strong> ${meanChange > 0 ? "+" : ""}${meanChange.toFixed(3)} · <strong>Superficie con caída mayor a ${data.change.declineThreshold}:</strong> ${data.change.declinedHectares.toFixed(2)} ha (${data.change.declinedPercentage.toFixed(1)}%)</p>
+            ${changeImageTag}
+            <p style="margin-top: 5px; margin-bottom: 0; font-size: 12px; color: #666;">Rojo: el índice bajó · Blanco: sin cambio · Verde: el índice subió</p>`;
+    }
     console.log(`[Email] Processing image ${i + 1}/${imageData.length}: ${data.areaName} - ${data.indexType}`);
     console.log(`[Email] Tile URL: ${data.imageUrl.substring(0, 150)}...`);
     console.log(`[Email] Index overlay URL: ${data.thumbnailUrl ? data.thumbnailUrl.substring(0, 150) + '...' : 'not available'}`);
@@ -768,6 +704,7 @@ async function generateReportEmail(
         
         // Store image URL for WhatsApp
         imageUrls.push({
+          areaId: data.areaId,
           areaName: data.areaName,
           indexType: data.indexType,
           url: imageUrl,
@@ -798,7 +735,7 @@ async function generateReportEmail(
         <tr>
           <td style="padding: 15px; border: 1px solid #ddd; border-radius: 5px; background-color: white;">
             <h3 style="color: #5db815; margin-top: 0;">${data.areaName} - ${data.indexType}</h3>
-            <p style="margin-top: 10px; margin-bottom: 15px;"><strong>Valores:</strong> Mín: ${data.stats.min.toFixed(3)}, Máx: ${data.stats.max.toFixed(3)}, Promedio: ${data.stats.mean.toFixed(3)}</p>
+            <p style="margin-top: 10px; margin-bottom: 15px;"><strong>Valores:</strong> Mín: ${formatIndexValue(data.indexType, data.stats.min)}, Máx: ${formatIndexValue(data.indexType, data.stats.max)}, Promedio: ${formatIndexValue(data.indexType, data.stats.mean)}</p>${datesHtml}${weatherHtml}${phenologyHtml}${psriHtml}
             <table cellpadding="0" cellspacing="0" border="0" width="100%" align="center" style="margin: 15px auto;">
               <tr>
                 <td align="center">
@@ -806,6 +743,7 @@ async function generateReportEmail(
                 </td>
               </tr>
             </table>
+            ${changeHtml}
           </td>
         </tr>
       </table>
@@ -819,8 +757,9 @@ async function generateReportEmail(
         <tr>
           <td style="padding: 15px; border: 1px solid #ddd; border-radius: 5px; background-color: white;">
             <h3 style="color: #5db815; margin-top: 0;">${data.areaName} - ${data.indexType}</h3>
-            <p style="margin-top: 10px; margin-bottom: 10px;"><strong>Valores:</strong> Mín: ${data.stats.min.toFixed(3)}, Máx: ${data.stats.max.toFixed(3)}, Promedio: ${data.stats.mean.toFixed(3)}</p>
+            <p style="margin-top: 10px; margin-bottom: 10px;"><strong>Valores:</strong> Mín: ${formatIndexValue(data.indexType, data.stats.min)}, Máx: ${formatIndexValue(data.indexType, data.stats.max)}, Promedio: ${formatIndexValue(data.indexType, data.stats.mean)}</p>${datesHtml}${weatherHtml}${phenologyHtml}${psriHtml}
             <p style="color: #666; font-style: italic;">Imagen no disponible - ver en dashboard</p>
+            ${changeHtml}
           </td>
         </tr>
       </table>
@@ -835,8 +774,9 @@ async function generateReportEmail(
         <tr>
           <td style="padding: 15px; border: 1px solid #ddd; border-radius: 5px; background-color: white;">
             <h3 style="color: #5db815; margin-top: 0;">${data.areaName} - ${data.indexType}</h3>
-            <p style="margin-top: 10px; margin-bottom: 10px;"><strong>Valores:</strong> Mín: ${data.stats.min.toFixed(3)}, Máx: ${data.stats.max.toFixed(3)}, Promedio: ${data.stats.mean.toFixed(3)}</p>
+            <p style="margin-top: 10px; margin-bottom: 10px;"><strong>Valores:</strong> Mín: ${formatIndexValue(data.indexType, data.stats.min)}, Máx: ${formatIndexValue(data.indexType, data.stats.max)}, Promedio: ${formatIndexValue(data.indexType, data.stats.mean)}</p>${datesHtml}${weatherHtml}${phenologyHtml}${psriHtml}
             <p style="color: #666; font-style: italic;">Imagen no disponible - ver en dashboard</p>
+            ${changeHtml}
           </td>
         </tr>
       </table>
@@ -886,6 +826,7 @@ async function generateReportEmail(
           ${imagesHtml}
                 </td>
               </tr>
+              ${yieldPotentialHtml}
               <!-- Button -->
               <tr>
                 <td style="background-color: #ffffff; padding: 0 20px 20px 20px;" align="center">
@@ -1,13 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getDueReportsAdmin, markReportGeneratedAdmin, getAreaAdmin, updateReportAdmin, getReportAdmin } from "@/lib/firestore/admin";
-import { initializeEarthEngine, getEarthEngine } from "@/lib/earthEngine";
-import { calculateIndex, getSentinel2Collection, getMostRecentImage } from "@/lib/indices/calculations";
+import { markReportGeneratedAdmin, getAreaAdmin, updateReportAdmin, getReportAdmin, createObservationsAdmin, claimReportJobAdmin, completeReportJobAdmin, failReportJobAdmin, createReportRunAdmin, updateReportRunAdmin, trackReportDeliveryAdmin } from "@/lib/firestore/admin";
+import { initializeEarthEngine } from "@/lib/earthEngine";
+import { formatIndexValue, isRadarIndexType, isThermalLayerType } from "@/lib/indices/registry";
+import { analyzeReportArea, ReportLayerResult } from "@/lib/indices/analysis";
+import { interpretPSRI } from "@/lib/indices/phenology";
+import { getYieldPotential } from "@/lib/indices/yieldPotential";
 import { sendEmail } from "@/lib/email/resend";
 import { sendReportWhatsAppWithPDF } from "@/lib/whatsapp/meta";
 import { generateReportPDF } from "@/lib/pdf/generateReportPDF";
-import { IndexType, ReportFrequency, Report } from "@/types/report";
-import { getFrequencyLabel } from "@/lib/utils/reports";
-import { calculatePolygonArea, squareMetersToKm } from "@/lib/utils/geometry";
+import { ReportFrequency, Report } from "@/types/report";
+import { TimeSeriesPoint } from "@/types/satellite";
+import { getFrequencyLabel, formatCompositeDates, formatWeatherPeriod, formatWeatherSummary, formatPhenologySummary, formatYieldPotentialRow, getReportRunResults } from "@/lib/utils/reports";
+import { AreaYieldPotential } from "@/types/yield";
+import { ReportJob } from "@/types/reportJob";
+import { ReportRun, ReportRunDelivery, ReportRunError, ReportRunStatus } from "@/types/reportRun";
+import { Area } from "@/types/area";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
 import { compositeIndexOverlay } from '@/lib/images/compositeImage';
 import { renderMapWithTiles } from '@/lib/images/tileRenderer';
 import { uploadImageWithDedup, uploadPDFAdmin } from "@/lib/storage/admin-upload";
@@ -16,6 +24,8 @@ import sharp from 'sharp';
 export const dynamic = 'force-dynamic';
 export const maxDuration = 300; // Maximum 5 minutes (Vercel Pro limit)
 
+const AREA_CONCURRENCY = 3; // Areas of a report analyzed at once
+
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
   const timestamp = new Date().toISOString();
@@ -55,41 +65,82 @@ export async function POST(request: NextRequest) {
       reports = [report];
       console.log(`[Report Generate] Force processing report: ${report.id}, deliveryMethod: ${report.deliveryMethod}`);
     } else {
-    // Get all due reports using Admin SDK (bypasses Firestore rules)
-      console.log(`[Report Generate] Fetching due reports...`);
-      reports = await getDueReportsAdmin();
-
-    if (reports.length === 0) {
-        console.log(`[Report Generate] No reports due for generation`);
-        return NextResponse.json({ 
-          message: "No reports due for generation",
-          timestamp,
-          checkedAt: timestamp,
-        });
-    }
+      // Worker mode: due reports are enqueued by the cron and claimed from report_jobs below
+      console.log(`[Report Generate] Worker mode: claiming queued report jobs...`);
     }
-    
-    console.log(`[Report Generate] Found ${reports.length} report(s) to process`);
 
     // Initialize Earth Engine
     await initializeEarthEngine();
-    const ee = getEarthEngine();
 
     const results = [];
     const TIME_BUDGET_MS = 240000; // 4 minutes (leave 1 minute buffer before 5min timeout)
     const startProcessingTime = Date.now();
 
-    for (let i = 0; i < reports.length; i++) {
-      const report = reports[i];
+    for (let i = 0; ; i++) {
       const elapsed = Date.now() - startProcessingTime;
       
-      // Check if we're running out of time
+      // Check if we're running out of time; unclaimed jobs stay queued for the next run
       if (elapsed > TIME_BUDGET_MS) {
-        console.log(`[Report Generate] ⚠️ Time budget exceeded (${elapsed}ms). Processed ${i}/${reports.length} reports. Remaining will be processed in next run.`);
+        console.log(`[Report Generate] ⚠️ Time budget exceeded (${elapsed}ms). Processed ${i} report(s). Remaining will be processed in next run.`);
         break;
       }
+
+      // Forced reports run directly; otherwise claim the next queued job
+      let job: ReportJob | null = null;
+      let report: Report | null;
+      if (forceReportId) {
+        if (i >= reports.length) break;
+        report = reports[i];
+      } else {
+        job = await claimReportJobAdmin();
+        if (!job) break;
+        report = await getReportAdmin(job.reportId);
+        if (!report || report.status !== 'active') {
+          // Deleted or paused since it was enqueued: nothing to send
+          console.log(`[Report Generate] Report ${job.reportId} is no longer active, closing job ${job.id}`);
+          await completeReportJobAdmin(job);
+          continue;
+        }
+      }
       
-      console.log(`[Report Generate] Processing report ${i + 1}/${reports.length}: ${report.id} (${elapsed}ms elapsed)`);
+      console.log(`[Report Generate] Processing report ${i + 1}: ${report.id}${job ? ` (job ${job.id}, attempt ${job.attempts}/${job.maxAttempts})` : ""} (${elapsed}ms elapsed)`);
+
+      // Every execution is kept in the report's run history (non-critical)
+      let runId: string | null = null;
+      try {
+        runId = await createReportRunAdmin(report.id!, {
+          userId: report.userId,
+          trigger: job ? "scheduled" : "manual",
+          jobId: job?.id,
+          startedAt: new Date(),
+        });
+      } catch (runError: any) {
+        console.error(`[Report Generate] Failed to start run history for report ${report.id}:`, runError.message);
+      }
+      const runErrors: ReportRunError[] = [];
+      let runArtifacts: Partial<ReportRun> = {};
+      let delivery: ReportRunDelivery | undefined;
+      let deliveryTracked = false;
+      const finishRun = async (status: ReportRunStatus) => {
+        if (!runId) return;
+        try {
+          // A tracked delivery is already on the run and may have been advanced by the webhooks
+          await updateReportRunAdmin(report.id!, runId, { ...runArtifacts, status, finishedAt: new Date(), errors: runErrors, delivery: deliveryTracked ? undefined : delivery });
+        } catch (runError: any) {
+          console.error(`[Report Generate] Failed to record run ${runId}:`, runError.message);
+        }
+      };
+      // The delivery webhooks match status events back to this run by message ID (non-critical)
+      const trackDelivery = async () => {
+        if (!runId || !delivery?.messageId) return;
+        try {
+          await trackReportDeliveryAdmin(report.id!, runId, { ...delivery, messageId: delivery.messageId });
+          deliveryTracked = true;
+        } catch (trackError: any) {
+          console.error(`[Report Generate] Failed to track delivery ${delivery.messageId}:`, trackError.message);
+        }
+      };
+      let errorMessage: string | undefined;
       
       try {
         // Get area coordinates using Admin SDK (bypasses Firestore rules)
@@ -97,283 +148,87 @@ export async function POST(request: NextRequest) {
           report.areaIds.map((areaId) => getAreaAdmin(areaId))
         );
 
-        const validAreas = areas.filter((area) => area !== null);
+        const validAreas = areas.filter((area): area is Area => area !== null);
 
         if (validAreas.length === 0) {
-          console.error(`Report ${report.id} has no valid areas`);
-          continue;
+          throw new Error("Report has no valid areas");
         }
 
         // Process each index for each area
         // Note: We now always fetch the most recent data (last 60 days)
         // Use the same image data structure as the send route for high-quality images
-        const imageData: Array<{
-          areaName: string;
-          indexType: IndexType;
-          imageUrl: string;
-          thumbnailUrl?: string;
-          baseSatelliteUrl?: string; // RGB base satellite image from Earth Engine
-          stats: { min: number; max: number; mean: number };
-          centerLat?: number;
-          centerLng?: number;
-          coordinates?: { lat: number; lng: number }[];
-        }> = [];
-
-        for (const area of validAreas) {
-          if (!area) continue;
-
-          // Create polygon
-          const coordinates = area.coordinates.map((coord: any) => ({
-            lat: coord.latitude || coord.lat,
-            lng: coord.longitude || coord.lng,
-          }));
-
-          const polygon = ee.Geometry.Polygon(
-            [coordinates.map((coord: any) => [coord.lng, coord.lat])],
-            "EPSG:4326"
-          );
+        const imageData: ReportLayerResult[] = [];
 
-          // Process each requested index
-          for (const indexType of report.indices) {
-            console.log(`[Report Generate] Processing index: ${indexType} for area: ${area.name}`);
-            
-            try {
-            // Get Sentinel-2 collection (automatically uses last 60 days, most recent data)
-            const collection = getSentinel2Collection(report.cloudCoverage)
-              .filterBounds(polygon); // Filter by polygon early to reduce processing
+        // NDVI season series of each area's phenology, reused by the yield potential ranking
+        const seasonNdvi = new Map<string, TimeSeriesPoint[]>();
 
-            // Select the most recent image
-            const image = getMostRecentImage(collection);
-            
-              // OPTIMIZATION: Clip image to polygon bounding box BEFORE index calculation
-              // This dramatically reduces processing (99%+ reduction for small areas)
-              console.log(`[Report Generate] Clipping image to bounding box (cost optimization)...`);
-              const bbox = polygon.bounds();
-              const bufferMeters = 1000; // 1km buffer
-              const bufferedBbox = bbox.buffer(bufferMeters);
-              const clippedImage = image.clip(bufferedBbox);
-              
-              // Calculate index on clipped image (much smaller area)
-              const indexImage = calculateIndex(clippedImage, indexType);
-              
-              // Clip to exact polygon for statistics
-            const clipped = indexImage.clip(polygon);
-
-              // OPTIMIZATION: Adaptive resolution scaling based on area size
-              const polygonAreaM2 = calculatePolygonArea(coordinates);
-              const areaKm2 = squareMetersToKm(polygonAreaM2);
-              let scale = 100; // Default 100m resolution
-              
-              if (areaKm2 > 100) {
-                scale = 250; // 250m for areas > 100 km²
-              } else if (areaKm2 > 50) {
-                scale = 200; // 200m for areas > 50 km²
-              } else if (areaKm2 > 10) {
-                scale = 150; // 150m for areas > 10 km²
-              }
-
-              // Get statistics with optimized parameters
-              console.log(`[Report Generate] Computing statistics for ${indexType} (scale: ${scale}m, area: ${areaKm2.toFixed(2)} km²)...`);
-            const stats = clipped.reduceRegion({
-              reducer: ee.Reducer.minMax().combine({
-                reducer2: ee.Reducer.mean(),
-                sharedInputs: true,
-              }),
-              geometry: polygon,
-                scale: scale, // Adaptive resolution
-              maxPixels: 1e9,
-                bestEffort: true, // Use best effort mode to avoid timeouts
-                tileScale: 4, // Increase tile scale for better performance
-            });
-
-              // Use getInfo() instead of get() for better reliability, with timeout
-            const statsValue = await new Promise<any>((resolve, reject) => {
-              const timeout = setTimeout(() => {
-                console.error(`[Report Generate] Statistics computation timed out for ${indexType} (area: ${areaKm2.toFixed(2)} km²)`);
-                reject(new Error(`Statistics computation timeout after 90 seconds. Area size: ${areaKm2.toFixed(2)} km²`));
-              }, 90000); // 90 second timeout (same as send route)
-
-              stats.getInfo((value: any, error?: Error) => {
-                clearTimeout(timeout);
-                if (error) {
-                  console.error(`[Report Generate] Statistics error for ${indexType}:`, error);
-                  reject(error);
-                } else {
-                  console.log(`[Report Generate] ✅ Statistics received for ${indexType}`);
-                  resolve(value);
-                }
-              });
-            });
-
-              // Generate tile URL for Earth Engine overlay (use callback to avoid filesystem issues)
-              console.log(`[Report Generate] Generating tile URL for ${indexType}...`);
-            const mapId = await Promise.race([
-              new Promise<any>((resolve, reject) => {
-                clipped.getMapId(
-                  {
-              min: statsValue[`${indexType}_min`],
-              max: statsValue[`${indexType}_max`],
-              palette:
-                indexType === "NDVI" || indexType === "NDRE" || indexType === "MSAVI"
-                  ? ["red", "yellow", "green"]
-                  : indexType === "NDWI"
-                  ? ["brown", "yellow", "cyan", "blue"]
-                  : indexType === "PSRI"
-                  ? ["green", "yellow", "orange", "red"]
-                  : ["blue", "cyan", "yellow", "orange", "red"],
-                  },
-                  (result: any, error?: Error) => {
-                    if (error) {
-                      console.error(`[Report Generate] getMapId error for ${indexType}:`, error);
-                      reject(error);
-                    } else {
-                      console.log(`[Report Generate] Tile URL generated for ${indexType}`);
-                      resolve(result);
-                    }
-                  }
-                );
-              }),
-              new Promise((_, reject) => {
-                setTimeout(() => reject(new Error("Tile URL generation timeout after 30 seconds")), 30000);
-              })
-            ]) as any;
-
-              const tileUrl = mapId?.tile_fetcher?.url_format || mapId?.urlFormat || mapId?.url_format || "";
-              if (!tileUrl) {
-                throw new Error(`Failed to extract tile URL from mapId for ${indexType}`);
-              }
-              console.log(`[Report Generate] Extracted tile URL: ${tileUrl.substring(0, 100)}...`);
-
-              // Generate base satellite and overlay thumbnails (same as send route)
-              let thumbnailUrl: string | null = null;
-              let baseSatelliteUrl: string | null = null;
-              
-              try {
-                // Calculate bounding box with padding
-                let minLat = coordinates[0].lat;
-                let maxLat = coordinates[0].lat;
-                let minLng = coordinates[0].lng;
-                let maxLng = coordinates[0].lng;
-                
-                for (const coord of coordinates) {
-                  if (coord.lat < minLat) minLat = coord.lat;
-                  if (coord.lat > maxLat) maxLat = coord.lat;
-                  if (coord.lng < minLng) minLng = coord.lng;
-                  if (coord.lng > maxLng) maxLng = coord.lng;
-                }
-                
-                // Add 5% padding
-                const latPadding = (maxLat - minLat) * 0.05;
-                const lngPadding = (maxLng - minLng) * 0.05;
-                
-                // Store bounds for later use
-                const boundsData = {
-                  minLat: minLat - latPadding,
-                  maxLat: maxLat + latPadding,
-                  minLng: minLng - lngPadding,
-                  maxLng: maxLng + lngPadding,
-                };
-                
-                // Create bounding box as a polygon for Earth Engine
-                const paddedBounds = ee.Geometry.Polygon([[
-                  [boundsData.minLng, boundsData.minLat],
-                  [boundsData.maxLng, boundsData.minLat],
-                  [boundsData.maxLng, boundsData.maxLat],
-                  [boundsData.minLng, boundsData.maxLat],
-                  [boundsData.minLng, boundsData.minLat]
-                ]]);
-                
-                console.log(`[Report Generate] Generating Earth Engine images for bounding box`);
-                
-                // Generate RGB base satellite image from the SAME Sentinel-2 image
-                console.log(`[Report Generate] Generating RGB base satellite image...`);
-                baseSatelliteUrl = await new Promise<string>((resolve, reject) => {
-                  (image as any).getThumbURL({
-                    dimensions: 1200,
-                    format: 'png',
-                    region: paddedBounds,
-                    bands: ['B4', 'B3', 'B2'], // RGB bands
-                    min: [0, 0, 0],
-                    max: [3000, 3000, 3000], // Typical Sentinel-2 reflectance values
-                  }, (url: string, error?: Error) => {
-                    if (error) reject(error);
-                    else resolve(url);
-                  });
-                });
-                console.log(`[Report Generate] ✅ RGB base satellite image generated`);
-                
-                // Generate index overlay thumbnail for the SAME bounding box
-                if (typeof (indexImage as any).getThumbURL === 'function') {
-                  console.log(`[Report Generate] Generating index overlay thumbnail...`);
-                  thumbnailUrl = await new Promise<string>((resolve, reject) => {
-                    (indexImage as any).getThumbURL({
-                      dimensions: 1200, // Same dimensions as base image
-                      format: 'png',
-                      region: paddedBounds, // Same bounding box as base image
-                      min: statsValue[`${indexType}_min`],
-                      max: statsValue[`${indexType}_max`],
-                      palette: indexType === "NDVI" || indexType === "NDRE" || indexType === "MSAVI"
-                        ? ["red", "yellow", "green"]
-                        : indexType === "NDWI"
-                        ? ["brown", "yellow", "cyan", "blue"]
-                        : indexType === "PSRI"
-                        ? ["green", "yellow", "orange", "red"]
-                        : ["blue", "cyan", "yellow", "orange", "red"],
-                    }, (url: string, error?: Error) => {
-                      if (error) reject(error);
-                      else resolve(url);
-                    });
-                  });
-                  console.log(`[Report Generate] ✅ Index overlay thumbnail generated`);
-                }
-              } catch (thumbError: any) {
-                console.log(`[Report Generate] Thumbnail generation failed: ${thumbError.message}`);
-              }
-
-            // Calculate center coordinates for tile selection
-            const centerLat = coordinates.reduce((sum: number, coord: any) => sum + coord.lat, 0) / coordinates.length;
-            const centerLng = coordinates.reduce((sum: number, coord: any) => sum + coord.lng, 0) / coordinates.length;
-              console.log(`[Report Generate] Calculated center: lat=${centerLat}, lng=${centerLng}`);
-
-            imageData.push({
-              areaName: area.name,
-              indexType,
-                imageUrl: tileUrl,
-                thumbnailUrl: thumbnailUrl || undefined,
-                baseSatelliteUrl: baseSatelliteUrl || undefined, // Base RGB satellite image
-              stats: {
-                min: statsValue[`${indexType}_min`],
-                max: statsValue[`${indexType}_max`],
-                mean: statsValue[`${indexType}_mean`],
-              },
-              centerLat,
-              centerLng,
-                coordinates, // Pass coordinates for composite generation
-              });
-              console.log(`[Report Generate] Completed ${indexType} for ${area.name}`);
-            } catch (indexError: any) {
-              console.error(`[Report Generate] ⚠️ Error processing ${indexType} for ${area.name}:`, indexError);
-              console.error(`[Report Generate] Continuing with next index/area...`);
+        // Areas are analyzed concurrently, a few at a time to stay within Earth Engine's request limits;
+        // each returns its own entries so the email keeps them grouped in report order.
+        // A failing area is recorded and left out, like a failing index, so the rest still go out
+        const imageDataByArea = await mapWithConcurrency(validAreas, AREA_CONCURRENCY, async (area) => {
+          try {
+            const { entries, errors } = await analyzeReportArea(area, report, { seasonNdvi, logPrefix: "[Report Generate]" });
+            for (const { layer, error } of errors) {
               // Don't throw - continue processing other indices/areas
               // This allows partial success (e.g., if NDVI fails but NDRE succeeds)
+              console.error(`[Report Generate] ⚠️ Error processing ${layer} for ${area.name}:`, error);
+              runErrors.push({ areaName: area.name, indexType: layer, message: error.message });
             }
+            return entries;
+          } catch (areaError: any) {
+            console.error(`[Report Generate] ⚠️ Error processing area ${area.name}:`, areaError);
+            runErrors.push({ areaName: area.name, message: areaError.message || "Unknown error" });
+            return [];
           }
-        }
+        });
+        imageData.push(...imageDataByArea.flat());
 
         // Check if we have any image data to process
         if (imageData.length === 0) {
           console.error(`[Report Generate] ⚠️ No image data generated for report ${report.id} - all indices failed. Skipping report.`);
-          results.push({ reportId: report.id, status: "error", error: "All indices failed to process" });
-          continue;
+          throw new Error("All indices failed to process");
         }
 
         // Generate email content using the same high-quality method as send route
         console.log(`[Report Generate] Generating email HTML with ${imageData.length} image(s)...`);
-        const emailResult = await generateReportEmail(report, imageData);
+        // Monthly reports can rank the yield potential of their areas (non-critical)
+        let yieldPotential: AreaYieldPotential[] | null = null;
+        if (report.frequency === "monthly" && report.includeYieldPotential) {
+          try {
+            yieldPotential = await getYieldPotential(validAreas, "NDVI", seasonNdvi);
+          } catch (yieldError: any) {
+            console.error(`[Report Generate] Failed to compute yield potential:`, yieldError.message);
+          }
+        }
+
+        const emailResult = await generateReportEmail(report, imageData, yieldPotential);
         const emailHtml = emailResult.html;
         const imageBuffers = emailResult.imageBuffers;
         const uploadedImageUrls = emailResult.imageUrls; // Image URLs already uploaded to Firebase Storage
 
+        // Keep every computed result as per-area history (non-critical)
+        try {
+          await createObservationsAdmin(
+            imageData
+              .filter((data) => data.imageDate)
+              .map((data) => ({
+                userId: report.userId,
+                areaId: data.areaId,
+                areaName: data.areaName,
+                indexType: data.indexType,
+                imageDate: data.imageDate!,
+                imageDates: data.imageDates,
+                source: data.source,
+                stats: data.stats,
+                imageUrl: uploadedImageUrls.find((image) => image.areaId === data.areaId && image.indexType === data.indexType)?.url,
+                reportId: report.id!,
+              }))
+          );
+        } catch (observationError: any) {
+          console.error(`[Report Generate] Failed to store observations:`, observationError.message);
+        }
+
+
         // Generate PDF using the image buffers from email generation
         console.log(`[Report Generate] Generating PDF for report ${report.id}...`);
         const pdfImageData = imageData.map((data, idx) => {
@@ -387,13 +242,26 @@ export async function POST(request: NextRequest) {
           indexType: data.indexType,
             imageUrl: base64Image ? `data:image/png;base64,${base64Image}` : undefined,
           stats: data.stats,
+          imageDates: data.imageDates,
+          source: data.source,
+          weather: data.weather,
+          phenology: data.phenology,
+          change: data.change ? {
+            sinceDate: data.change.sinceDate,
+            meanChange: data.change.stats.mean,
+            declineThreshold: data.change.declineThreshold,
+            declinedHectares: data.change.declinedHectares,
+            declinedPercentage: data.change.declinedPercentage,
+            stretch: data.change.stretch,
+            imageUrl: data.change.imageBuffer ? `data:image/png;base64,${data.change.imageBuffer.toString('base64')}` : undefined,
+          } : undefined,
           };
         });
         
         let pdfBuffer: Buffer | null = null;
         try {
           pdfBuffer = await Promise.race([
-            generateReportPDF(report, pdfImageData),
+            generateReportPDF(report, pdfImageData, yieldPotential),
             new Promise<Buffer>((_, reject) => {
               setTimeout(() => reject(new Error("PDF generation timeout after 30 seconds")), 30000);
             })
@@ -404,6 +272,21 @@ export async function POST(request: NextRequest) {
           pdfBuffer = null;
         }
 
+        // This run's PDF and results for the history (latest.pdf is overwritten by every run)
+        let runPdfUrl: string | undefined;
+        if (runId && pdfBuffer && pdfBuffer.length > 0) {
+          try {
+            runPdfUrl = await uploadPDFAdmin(report.id!, pdfBuffer, runId);
+          } catch (uploadError: any) {
+            console.error(`[Report Generate] Failed to upload run PDF:`, uploadError.message);
+          }
+        }
+        runArtifacts = {
+          ...getReportRunResults(imageData, uploadedImageUrls),
+          pdfUrl: runPdfUrl,
+          imageUrls: uploadedImageUrls,
+        };
+
         // Send report via email or WhatsApp based on deliveryMethod
         const reportDate = new Date().toLocaleDateString("es-MX");
         
@@ -443,12 +326,15 @@ export async function POST(request: NextRequest) {
             // Send WhatsApp template with PDF URL
             const reportName = report.name || `Reporte ${getFrequencyLabel(report.frequency)}`;
             if (pdfUrl) {
-              await sendReportWhatsAppWithPDF(
+              delivery = { method: "whatsapp", recipient: report.phoneNumber, status: "failed" };
+              const messageId = await sendReportWhatsAppWithPDF(
                 report.phoneNumber,
                 reportName,
                 pdfUrl,
                 report.id
               );
+              delivery = { ...delivery, status: "sent", messageId, sentAt: new Date() };
+              await trackDelivery();
               console.log(`[Report Generate] ✅ WhatsApp template sent to ${report.phoneNumber}`);
             } else {
               throw new Error("PDF URL is required to send WhatsApp template");
@@ -475,13 +361,16 @@ export async function POST(request: NextRequest) {
           contentType: "application/pdf",
         }] : undefined;
         
-        await sendEmail(
+        delivery = { method: "email", recipient: emailAddress, status: "failed" };
+        const messageId = await sendEmail(
           emailAddress,
           `Reporte de Monitoreo - ${reportDate}`,
           emailHtml,
           undefined,
           attachments
         );
+        delivery = { ...delivery, status: "sent", messageId, sentAt: new Date() };
+        await trackDelivery();
         
         console.log(`[Report Generate] PDF generated and email sent for report ${report.id}`);
 
@@ -489,33 +378,50 @@ export async function POST(request: NextRequest) {
         await markReportGeneratedAdmin(report.id!);
         }
 
-        results.push({ reportId: report.id, status: "success" });
+        results.push({ reportId: report.id, jobId: job?.id, runId, status: "success" });
       } catch (error: any) {
         console.error(`Error generating report ${report.id}:`, error);
-        results.push({ reportId: report.id, status: "error", error: error.message });
+        const message: string = error.message || "Unknown error";
+        errorMessage = message;
+        results.push({ reportId: report.id, jobId: job?.id, runId, status: "error", error: error.message });
+        runErrors.push({ message });
+      }
+
+      // Bookkeeping stays out of the catch above: once the report reached its recipient
+      // (even if marking it generated failed afterwards) the job must not be retried,
+      // or the recipient would get it twice
+      const delivered = delivery?.status === "sent";
+      await finishRun(!errorMessage || delivered ? "succeeded" : "failed");
+      if (job) {
+        try {
+          if (!errorMessage || delivered) {
+            await completeReportJobAdmin(job);
+          } else {
+            // Queued again with backoff, or failed once its attempts are used up
+            await failReportJobAdmin(job, errorMessage);
+          }
+        } catch (jobError: any) {
+          // The lease expires and the job is reclaimed; a delivered run may then be sent again
+          console.error(`[Report Generate] Failed to update job ${job.id}:`, jobError.message);
+        }
       }
     }
 
     const duration = Date.now() - startTime;
     const processedCount = results.length;
-    const remainingCount = reports.length - processedCount;
-    
-    console.log(`[Report Generate] ✅ Completed processing ${processedCount}/${reports.length} report(s) in ${duration}ms`);
+    const failedCount = results.filter((result) => result.status === "error").length;
     
-    if (remainingCount > 0) {
-      console.log(`[Report Generate] ⚠️ ${remainingCount} report(s) remaining - will be processed in next cron run`);
-    }
+    console.log(`[Report Generate] ✅ Completed processing ${processedCount} report(s) in ${duration}ms (${failedCount} failed)`);
     
     return NextResponse.json({ 
       results, 
-      total: reports.length,
       processed: processedCount,
-      remaining: remainingCount,
+      failed: failedCount,
       timestamp,
       duration: `${duration}ms`,
-      message: remainingCount > 0 
-        ? `${processedCount} reports processed, ${remainingCount} will be processed in next run`
-        : `All ${processedCount} reports processed successfully`,
+      message: processedCount === 0
+        ? "No report jobs available"
+        : `${processedCount - failedCount}/${processedCount} reports processed successfully`,
     });
   } catch (error: any) {
     const duration = Date.now() - startTime;
@@ -553,18 +459,9 @@ async function getImageDimensions(buffer: Buffer): Promise<{ width: number; heig
 
 async function generateReportEmail(
   report: any,
-  imageData: Array<{
-    areaName: string;
-    indexType: IndexType;
-    imageUrl: string;
-    thumbnailUrl?: string;
-    baseSatelliteUrl?: string; // RGB base satellite image from Earth Engine
-    stats: { min: number; max: number; mean: number };
-    centerLat?: number;
-    centerLng?: number;
-    coordinates?: { lat: number; lng: number }[]; // Add coordinates for composite generation
-  }>
-): Promise<{ html: string; imageBuffers: Buffer[]; imageUrls: Array<{areaName: string; indexType: string; url: string}> }> {
+  imageData: ReportLayerResult[],
+  yieldPotential?: AreaYieldPotential[] | null // Monthly ranking of the report's areas
+): Promise<{ html: string; imageBuffers: Buffer[]; imageUrls: Array<{areaId: string; areaName: string; indexType: string; url: string}> }> {
   const reportDate = new Date().toLocaleDateString("es-MX", {
     year: "numeric",
     month: "long",
@@ -572,12 +469,62 @@ async function generateReportEmail(
   });
 
   let imagesHtml = "";
+  const yieldPotentialHtml = yieldPotential && yieldPotential.length > 0
+    ? `
+              <!-- Yield potential -->
+              <tr>
+                <td style="background-color: #ffffff; padding: 0 20px 20px 20px;">
+                  <h2 style="color: #242424;">Potencial de rendimiento</h2>
+                  ${yieldPotential.map((result) => `<p style="margin-top: 0; margin-bottom: 5px;">${formatYieldPotentialRow(result)}</p>`).join("")}
+                  <p style="margin-top: 10px; margin-bottom: 0; font-size: 12px; color: #666;">NDVI acumulado en la temporada; 100 = la mejor parcela de su cultivo. Estimación relativa, no un rendimiento en t/ha.</p>
+                </td>
+              </tr>`
+    : "";
   const imageBuffers: Buffer[] = []; // Store buffers for PDF generation
-  const imageUrls: Array<{areaName: string; indexType: string; url: string}> = []; // Store image URLs for WhatsApp
+  const imageUrls: Array<{areaId: string; areaName: string; indexType: string; url: string}> = []; // Store image URLs for WhatsApp
   
   console.log(`[Report Generate] Starting to process ${imageData.length} images for email...`);
   for (let i = 0; i < imageData.length; i++) {
     const data = imageData[i];
+    const datesHtml = isRadarIndexType(data.indexType)
+      ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;"><strong>Imagen:</strong> Radar Sentinel-1. No hubo imágenes ópticas despejadas de la parcela, así que se muestra un índice de radar, que atraviesa las nubes.</p>`
+      : isThermalLayerType(data.indexType)
+        ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;"><strong>Imagen:</strong> Landsat 8/9, banda térmica (resolución de 30 m)${data.imageDate ? ` del ${new Date(`${data.imageDate}T00:00:00`).toLocaleDateString("es-MX")}` : ""}.</p>`
+        : data.source === "landsat"
+          ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;"><strong>Imagen:</strong> Landsat 8/9. No hubo imágenes despejadas de Sentinel-2 de la parcela, así que se usó Landsat (resolución de 30 m).</p>`
+          : report.compositeMode && data.imageDates?.length
+            ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;"><strong>Imagen:</strong> ${formatCompositeDates(report.compositeMode, data.imageDates)}</p>`
+            : "";
+    // Weather of the area over the report period, shown once with its first index
+    const firstOfArea = i === 0 || imageData[i - 1].areaName !== data.areaName;
+    const weatherHtml = data.weather && firstOfArea
+      ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;"><strong>Clima ${formatWeatherPeriod(data.weather)}:</strong> ${formatWeatherSummary(data.weather)}</p>`
+      : "";
+    // Crop calendar and season, also shown once per area; PSRI is read against the expected stage
+    const phenologyHtml = data.phenology && firstOfArea
+      ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;"><strong>Cultivo:</strong> ${formatPhenologySummary(data.phenology)}</p>`
+      : "";
+    const psriNote = data.indexType === "PSRI" && data.phenology ? interpretPSRI(data.stats.mean, data.phenology.expectedStage) : null;
+    const psriHtml = psriNote ? `<p style="margin-top: 0; margin-bottom: 10px; color: #666;">${psriNote}</p>` : "";
+    // Difference map since the last report, uploaded next to the index image
+    let changeHtml = "";
+    if (data.change) {
+      let changeImageTag = "";
+      if (data.change.imageBuffer) {
+        try {
+          const changeImageUrl = await uploadImageWithDedup(data.change.imageBuffer, data.areaName, `change-${data.indexType}`);
+          changeImageTag = `<img src="${changeImageUrl}" alt="${data.areaName} - cambios ${data.indexType}" style="display: block; width: 600px; max-width: 100%; height: auto; border-radius: 5px;" />`;
+        } catch (changeUploadError: any) {
+          console.error(`[Report Generate] Failed to upload change image for ${data.areaName} - ${data.indexType}:`, changeUploadError.message);
+        }
+      }
+      const meanChange = data.change.stats.mean;
+      changeHtml = `
+            <h4 style="color: #242424; margin-top: 20px; margin-bottom: 5px;">Cambios desde el último reporte (${new Date(`${data.change.sinceDate}T00:00:00`).toLocaleDateString("es-MX")})</h4>
+            <p style="margin-top: 0; margin-bottom: 10px;"><strong>Cambio promedio:</strong> ${meanChange > 0 ? "+" : ""}${meanChange.toFixed(3)} · <strong>Superficie con caída mayor a ${data.change.declineThreshold}:</strong> ${data.change.declinedHectares.toFixed(2)} ha (${data.change.declinedPercentage.toFixed(1)}%)</p>
+            ${changeImageTag}
+            <p style="margin-top: 5px; margin-bottom: 0; font-size: 12px; color: #666;">Rojo: el índice bajó · Blanco: sin cambio · Verde: el índice subió</p>`;
+    }
     console.log(`[Report Generate] Processing image ${i + 1}/${imageData.length}: ${data.areaName} - ${data.indexType}`);
     
     // Download index overlay and base satellite image from Earth Engine
@@ -675,6 +622,7 @@ async function generateReportEmail(
         
         // Store image URL for WhatsApp
         imageUrls.push({
+          areaId: data.areaId,
           areaName: data.areaName,
           indexType: data.indexType,
           url: imageUrl,
@@ -699,7 +647,7 @@ async function generateReportEmail(
         <tr>
           <td style="padding: 15px; border: 1px solid #ddd; border-radius: 5px; background-color: white;">
         <h3 style="color: #5db815; margin-top: 0;">${data.areaName} - ${data.indexType}</h3>
-            <p style="margin-top: 10px; margin-bottom: 15px;"><strong>Valores:</strong> Mín: ${data.stats.min.toFixed(3)}, Máx: ${data.stats.max.toFixed(3)}, Promedio: ${data.stats.mean.toFixed(3)}</p>
+            <p style="margin-top: 10px; margin-bottom: 15px;"><strong>Valores:</strong> Mín: ${formatIndexValue(data.indexType, data.stats.min)}, Máx: ${formatIndexValue(data.indexType, data.stats.max)}, Promedio: ${formatIndexValue(data.indexType, data.stats.mean)}</p>${datesHtml}${weatherHtml}${phenologyHtml}${psriHtml}
             <table cellpadding="0" cellspacing="0" border="0" width="100%" align="center" style="margin: 15px auto;">
               <tr>
                 <td align="center">
@@ -707,6 +655,7 @@ async function generateReportEmail(
                 </td>
               </tr>
             </table>
+            ${changeHtml}
           </td>
         </tr>
       </table>
@@ -718,8 +667,9 @@ async function generateReportEmail(
         <tr>
           <td style="padding: 15px; border: 1px solid #ddd; border-radius: 5px; background-color: white;">
             <h3 style="color: #5db815; margin-top: 0;">${data.areaName} - ${data.indexType}</h3>
-            <p style="margin-top: 10px; margin-bottom: 10px;"><strong>Valores:</strong> Mín: ${data.stats.min.toFixed(3)}, Máx: ${data.stats.max.toFixed(3)}, Promedio: ${data.stats.mean.toFixed(3)}</p>
+            <p style="margin-top: 10px; margin-bottom: 10px;"><strong>Valores:</strong> Mín: ${formatIndexValue(data.indexType, data.stats.min)}, Máx: ${formatIndexValue(data.indexType, data.stats.max)}, Promedio: ${formatIndexValue(data.indexType, data.stats.mean)}</p>${datesHtml}${weatherHtml}${phenologyHtml}${psriHtml}
             <p style="color: #666; font-style: italic;">Imagen no disponible - ver en dashboard</p>
+            ${changeHtml}
           </td>
         </tr>
       </table>
@@ -732,8 +682,9 @@ async function generateReportEmail(
         <tr>
           <td style="padding: 15px; border: 1px solid #ddd; border-radius: 5px; background-color: white;">
             <h3 style="color: #5db815; margin-top: 0;">${data.areaName} - ${data.indexType}</h3>
-            <p style="margin-top: 10px; margin-bottom: 10px;"><strong>Valores:</strong> Mín: ${data.stats.min.toFixed(3)}, Máx: ${data.stats.max.toFixed(3)}, Promedio: ${data.stats.mean.toFixed(3)}</p>
+            <p style="margin-top: 10px; margin-bottom: 10px;"><strong>Valores:</strong> Mín: ${formatIndexValue(data.indexType, data.stats.min)}, Máx: ${formatIndexValue(data.indexType, data.stats.max)}, Promedio: ${formatIndexValue(data.indexType, data.stats.mean)}</p>${datesHtml}${weatherHtml}${phenologyHtml}${psriHtml}
             <p style="color: #666; font-style: italic;">Imagen no disponible - ver en dashboard</p>
+            ${changeHtml}
           </td>
         </tr>
       </table>
@@ -782,6 +733,7 @@ async function generateReportEmail(
           ${imagesHtml}
                 </td>
               </tr>
+              ${yieldPotentialHtml}
               <!-- Button -->
               <tr>
                 <td style="background-color: #ffffff; padding: 0 20px 20px 20px;" align="center">
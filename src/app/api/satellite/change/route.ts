@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from "next/server";
+import { initializeEarthEngine, getEarthEngine } from "@/lib/earthEngine";
+import { getImageMetadata, CLOUD_MASK_MODES } from "@/lib/indices/calculations";
+import {
+  buildChangeImage,
+  getSceneImage,
+  getSceneDateRange,
+  isSentinel2SceneId,
+  getChangeStatistics,
+  getChangeStretch,
+  renderChangeImage,
+  CHANGE_PALETTE,
+  DEFAULT_DECLINE_THRESHOLD,
+} from "@/lib/indices/change";
+import { INDEX_TYPES, isIndexType, resolveIndexParameters } from "@/lib/indices/registry";
+import { ChangeDetectionRequest, ChangeDetectionResponse, SatelliteImageMetadata } from "@/types/satellite";
+import { calculatePolygonArea, squareMetersToKm, getAdaptiveScale } from "@/lib/utils/geometry";
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120; // Two scenes, statistics and a static image
+
+/**
+ * POST /api/satellite/change
+ * Compare an index between two scenes of an area: delta raster (after - before),
+ * change statistics and the hectares that declined more than a threshold
+ */
+export async function POST(request: NextRequest) {
+  try {
+    console.log("[Change API] Starting request processing...");
+
+    const body: ChangeDetectionRequest = await request.json();
+    const { coordinates, indexType, beforeSceneId, afterSceneId, indexParams } = body;
+    const cloudMask = body.cloudMask ?? "qa60";
+    const declineThreshold = body.declineThreshold ?? DEFAULT_DECLINE_THRESHOLD;
+
+    console.log("[Change API] Request parameters:", {
+      coordinatesCount: coordinates?.length,
+      indexType,
+      beforeSceneId,
+      afterSceneId,
+      cloudMask,
+      declineThreshold,
+    });
+
+    // Validate input
+    if (!coordinates || coordinates.length < 3) {
+      return NextResponse.json(
+        { error: "Invalid coordinates. At least 3 points required for a polygon." },
+        { status: 400 }
+      );
+    }
+
+    if (!isIndexType(indexType)) {
+      return NextResponse.json(
+        { error: `Invalid index type. Must be one of ${INDEX_TYPES.join(", ")}.` },
+        { status: 400 }
+      );
+    }
+
+    if (!CLOUD_MASK_MODES.includes(cloudMask)) {
+      return NextResponse.json(
+        { error: "Invalid cloudMask. Must be qa60, scl, or s2cloudless." },
+        { status: 400 }
+      );
+    }
+
+    if (typeof declineThreshold !== "number" || !(declineThreshold > 0) || declineThreshold > 2) {
+      return NextResponse.json(
+        { error: "declineThreshold must be a number greater than 0 and up to 2." },
+        { status: 400 }
+      );
+    }
+
+    // Both scenes are looked up in the Sentinel-2 collection, so Landsat ids are refused here
+    const beforeRange = beforeSceneId && isSentinel2SceneId(beforeSceneId) ? getSceneDateRange(beforeSceneId) : null;
+    const afterRange = afterSceneId && isSentinel2SceneId(afterSceneId) ? getSceneDateRange(afterSceneId) : null;
+    if (!beforeRange || !afterRange) {
+      return NextResponse.json(
+        { error: "beforeSceneId and afterSceneId must be Sentinel-2 scene ids." },
+        { status: 400 }
+      );
+    }
+    if (beforeSceneId === afterSceneId || beforeRange.startDate > afterRange.startDate) {
+      return NextResponse.json(
+        { error: "beforeSceneId must be an earlier scene than afterSceneId." },
+        { status: 400 }
+      );
+    }
+
+    const params = indexParams?.[indexType];
+    try {
+      resolveIndexParameters(indexType, params);
+    } catch (paramsError: any) {
+      return NextResponse.json({ error: paramsError.message }, { status: 400 });
+    }
+
+    await initializeEarthEngine();
+    const ee = getEarthEngine();
+
+    const polygon = ee.Geometry.Polygon(
+      [coordinates.map((coord) => [coord.lng, coord.lat])],
+      "EPSG:4326"
+    );
+
+    const before = getSceneImage(beforeSceneId, cloudMask);
+    const after = getSceneImage(afterSceneId, cloudMask);
+
+    // Metadata lookup fails when a scene id doesn't exist in the collection
+    let beforeMetadata: SatelliteImageMetadata;
+    let afterMetadata: SatelliteImageMetadata;
+    try {
+      [beforeMetadata, afterMetadata] = await Promise.all([getImageMetadata(before), getImageMetadata(after)]);
+    } catch (metadataError: any) {
+      console.error("[Change API] Scene lookup failed:", metadataError.message);
+      return NextResponse.json({ error: "One of the scenes was not found." }, { status: 404 });
+    }
+
+    // Clip to the buffered bounding box before computing both indices (cost optimization)
+    const bufferedBbox = polygon.bounds().buffer(1000);
+    const change = buildChangeImage(before.clip(bufferedBbox), after.clip(bufferedBbox), indexType, params);
+    const clipped = change.clip(polygon);
+
+    const areaKm2 = squareMetersToKm(calculatePolygonArea(coordinates));
+    const scale = getAdaptiveScale(areaKm2);
+
+    console.log(`[Change API] Computing change statistics (scale: ${scale}m, area: ${areaKm2.toFixed(2)} km²)...`);
+    let changeStats;
+    try {
+      changeStats = await getChangeStatistics(clipped, polygon, scale, declineThreshold);
+    } catch (statsError: any) {
+      if (statsError.message?.startsWith("No cloud-free pixels")) {
+        return NextResponse.json({ error: statsError.message }, { status: 404 });
+      }
+      throw statsError;
+    }
+    const stretch = getChangeStretch(changeStats.stats);
+
+    console.log("[Change API] Generating tile URL...");
+    const mapId = await new Promise<any>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error("Tile URL generation timed out"));
+      }, 60000); // 60 second timeout
+
+      clipped.getMapId(
+        { min: stretch.min, max: stretch.max, palette: CHANGE_PALETTE },
+        (result: any, error?: Error) => {
+          clearTimeout(timeout);
+          if (error) reject(error);
+          else resolve(result);
+        }
+      );
+    });
+
+    const tileUrl = mapId?.urlFormat || mapId?.tile_fetcher?.url_format || mapId?.url_format;
+    if (!tileUrl) {
+      throw new Error("Failed to generate tile URL from Earth Engine.");
+    }
+
+    // Static image is a convenience for sharing; the map overlay works without it
+    let imageUrl: string | undefined;
+    try {
+      const imageBuffer = await renderChangeImage(after, change, coordinates, stretch, 800);
+      imageUrl = `data:image/png;base64,${imageBuffer.toString("base64")}`;
+    } catch (imageError: any) {
+      console.error("[Change API] Static image generation failed (non-critical):", imageError.message);
+    }
+
+    const response: ChangeDetectionResponse = {
+      indexType,
+      beforeDate: beforeMetadata.date,
+      afterDate: afterMetadata.date,
+      tileUrl,
+      imageUrl,
+      palette: CHANGE_PALETTE,
+      stretch,
+      stats: changeStats.stats,
+      declineThreshold,
+      declinedHectares: changeStats.declinedHectares,
+      declinedPercentage: changeStats.declinedPercentage,
+    };
+
+    console.log("[Change API] Change detection completed:", {
+      meanChange: changeStats.stats.mean,
+      declinedHectares: changeStats.declinedHectares,
+    });
+    return NextResponse.json(response);
+  } catch (error: any) {
+    console.error("[Change API] Error computing change:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to compute change",
+        details: process.env.NODE_ENV === "development" ? error.stack : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
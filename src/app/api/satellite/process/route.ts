@@ -1,12 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getAuth } from "firebase-admin/auth";
+import { getAdminApp } from "@/lib/firebase-admin";
 import { initializeEarthEngine, getEarthEngine } from "@/lib/earthEngine";
 import { 
-  calculateIndex, 
-  getSentinel2Collection, 
-  getMostRecentImage 
+  getOpticalCollection,
+  getMostRecentImage,
+  getImageMetadata,
+  CLOUD_MASK_MODES,
+  OPTICAL_SOURCES,
 } from "@/lib/indices/calculations";
+import { buildComposite, getContributingDates, COMPOSITE_MODES } from "@/lib/indices/composite";
+import { getManagementZones, getZoneScale, ZONE_METHODS, MIN_ZONES, MAX_ZONES } from "@/lib/indices/zones";
+import { getSceneDateRange, isLandsatSceneId } from "@/lib/indices/change";
+import { getSentinel1Collection, getRadarImageMetadata } from "@/lib/indices/radar";
+import { analyzeArea, getAnalysisScale } from "@/lib/indices/analysis";
 import { SatelliteImageRequest, SatelliteImageResponse } from "@/types/satellite";
-import { IndexType } from "@/types/report";
+import { IndexType, OpticalSource } from "@/types/report";
+import { CustomIndex } from "@/types/customIndex";
+import {
+  INDEX_TYPES,
+  RADAR_INDEX_TYPES,
+  THERMAL_LAYER_TYPES,
+  isIndexSupported,
+  isIndexType,
+  isRadarIndexType,
+  isThermalLayerType,
+  isCustomIndexId,
+  getCustomIndexDocumentId,
+  resolveIndexParameters,
+} from "@/lib/indices/registry";
+import { isExpressionSupported, validateIndexExpression } from "@/lib/indices/expression";
+import { getCustomIndexAdmin, getUserPlanAdmin } from "@/lib/firestore/admin";
 import { 
   generateCacheHash, 
   getCachedResult, 
@@ -14,10 +38,13 @@ import {
   type CacheKey 
 } from "@/lib/firestore/cache";
 import { calculatePolygonArea, squareMetersToKm } from "@/lib/utils/geometry";
+import { validateDateRange, toExclusiveEndDate } from "@/lib/utils/dates";
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60; // Allow up to 60 seconds for processing
 
+const MAX_RANGE_DAYS = 366; // Longest user-selectable date window
+
 /**
  * Process satellite image with caching and optimizations to reduce GEE usage
  */
@@ -27,12 +54,21 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body: SatelliteImageRequest = await request.json();
-    const { coordinates, indexType, cloudCoverage } = body;
+    const { coordinates, indexType, cloudCoverage, startDate, endDate, sceneId, compositeMode, indexParams, zones } = body;
+    const cloudMask = body.cloudMask ?? "qa60";
+    const sourceSelection = body.source ?? "auto";
 
     console.log("[Satellite API] Request parameters:", {
       coordinatesCount: coordinates?.length,
       indexType,
       cloudCoverage,
+      startDate,
+      endDate,
+      sceneId,
+      cloudMask,
+      compositeMode,
+      zones,
+      source: sourceSelection,
     });
 
     // Validate input
@@ -44,17 +80,144 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!["NDVI", "NDRE", "EVI", "NDWI", "MSAVI", "PSRI"].includes(indexType)) {
+    if (!isIndexType(indexType) && !isRadarIndexType(indexType) && !isThermalLayerType(indexType) && !isCustomIndexId(indexType)) {
       console.error("[Satellite API] Invalid index type:", indexType);
       return NextResponse.json(
-        { error: "Invalid index type. Must be NDVI, NDRE, EVI, NDWI, MSAVI, or PSRI." },
+        { error: `Invalid index type. Must be one of ${[...INDEX_TYPES, ...RADAR_INDEX_TYPES, ...THERMAL_LAYER_TYPES].join(", ")}, or a custom index (custom:<id>).` },
+        { status: 400 }
+      );
+    }
+
+    // Radar indices come from Sentinel-1, which has no optical bands to mosaic by greenness
+    const radar = isRadarIndexType(indexType);
+    if (radar && compositeMode) {
+      return NextResponse.json(
+        { error: "compositeMode is only available for Sentinel-2 indices." },
+        { status: 400 }
+      );
+    }
+
+    // Thermal layers need the Landsat thermal band; ET references are per scene, so no composites
+    const thermal = isThermalLayerType(indexType);
+    if (thermal && (compositeMode || sourceSelection === "sentinel2")) {
+      return NextResponse.json(
+        { error: `${indexType} is computed from single Landsat scenes: source must be landsat or auto, without compositeMode.` },
         { status: 400 }
       );
     }
 
+    if (!CLOUD_MASK_MODES.includes(cloudMask)) {
+      console.error("[Satellite API] Invalid cloud mask:", cloudMask);
+      return NextResponse.json(
+        { error: "Invalid cloudMask. Must be qa60, scl, or s2cloudless." },
+        { status: 400 }
+      );
+    }
+
+    if (sourceSelection !== "auto" && !OPTICAL_SOURCES.includes(sourceSelection)) {
+      console.error("[Satellite API] Invalid source:", sourceSelection);
+      return NextResponse.json(
+        { error: "Invalid source. Must be sentinel2, landsat, or auto." },
+        { status: 400 }
+      );
+    }
+
+    if (compositeMode && !COMPOSITE_MODES.includes(compositeMode)) {
+      console.error("[Satellite API] Invalid composite mode:", compositeMode);
+      return NextResponse.json(
+        { error: "Invalid compositeMode. Must be median or greenest." },
+        { status: 400 }
+      );
+    }
+
+    if (compositeMode && sceneId) {
+      return NextResponse.json(
+        { error: "sceneId and compositeMode cannot be combined." },
+        { status: 400 }
+      );
+    }
+
+    if (zones) {
+      if (!Number.isInteger(zones.count) || zones.count < MIN_ZONES || zones.count > MAX_ZONES) {
+        return NextResponse.json(
+          { error: `Invalid zones.count. Must be an integer between ${MIN_ZONES} and ${MAX_ZONES}.` },
+          { status: 400 }
+        );
+      }
+      if (!ZONE_METHODS.includes(zones.method)) {
+        return NextResponse.json(
+          { error: "Invalid zones.method. Must be kmeans or quantile." },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Date window is optional, but both ends must be provided together
+    const hasDateRange = !!(startDate || endDate);
+    if (hasDateRange) {
+      const dateRangeError = validateDateRange(startDate, endDate, MAX_RANGE_DAYS);
+      if (dateRangeError) {
+        console.error("[Satellite API] Invalid date range:", dateRangeError);
+        return NextResponse.json({ error: dateRangeError }, { status: 400 });
+      }
+    }
+
+    // Custom indices are stored band-math definitions; re-validate before sending them to GEE
+    // They are private to their (enterprise) owner, so the caller must be signed in as that owner
+    let customIndex: CustomIndex | null = null;
+    let customIndexUserId: string | undefined;
+    if (isCustomIndexId(indexType)) {
+      const authHeader = request.headers.get("authorization");
+      if (!authHeader || !authHeader.startsWith("Bearer ")) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+      const decodedToken = await getAuth(getAdminApp()).verifyIdToken(authHeader.split("Bearer ")[1]);
+
+      customIndex = await getCustomIndexAdmin(getCustomIndexDocumentId(indexType));
+      if (!customIndex) {
+        return NextResponse.json({ error: "Custom index not found." }, { status: 404 });
+      }
+      if (customIndex.userId !== decodedToken.uid) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      const plan = await getUserPlanAdmin(decodedToken.uid);
+      if (decodedToken.stripeRole !== "empresarial" && plan?.planType !== "enterprise") {
+        return NextResponse.json({ error: "Custom indices require an enterprise plan." }, { status: 403 });
+      }
+      customIndexUserId = decodedToken.uid;
+      const expressionError = validateIndexExpression(customIndex.expression);
+      if (expressionError) {
+        console.error("[Satellite API] Invalid custom index expression:", expressionError);
+        return NextResponse.json({ error: `Invalid custom index formula: ${expressionError}` }, { status: 400 });
+      }
+    }
+
+    // Landsat has no red-edge bands, so only some indices can fall back to it
+    const landsatSupported = !radar && (thermal || (customIndex
+      ? isExpressionSupported(customIndex.expression, "landsat")
+      : isIndexSupported(indexType as IndexType, "landsat")));
+    // Landsat scenes picked on the trend chart are looked up in the Landsat collection
+    const landsatScene = !radar && !!sceneId && isLandsatSceneId(sceneId);
+    if ((sourceSelection === "landsat" || landsatScene) && !landsatSupported) {
+      return NextResponse.json(
+        { error: `${customIndex ? customIndex.name : indexType} uses Sentinel-2 red-edge bands, which Landsat doesn't have.` },
+        { status: 400 }
+      );
+    }
+
+    // Tunable constants (e.g. SAVI L) only apply to the requested built-in index
+    const params = isIndexType(indexType) ? indexParams?.[indexType] : undefined;
+    if (isIndexType(indexType)) {
+      try {
+        resolveIndexParameters(indexType, params);
+      } catch (paramsError: any) {
+        return NextResponse.json({ error: paramsError.message }, { status: 400 });
+      }
+    }
+
     // Step 1: We'll check cache after getting the image date
-    // For now, proceed to get the most recent image first
-    console.log("[Satellite API] Fetching most recent image...");
+    // For now, proceed to get the selected (or most recent) image first
+    console.log("[Satellite API] Fetching", sceneId ? `scene ${sceneId}` : "most recent image", "...");
 
     // Step 2: Initialize Earth Engine
     console.log("[Satellite API] Initializing Earth Engine...");
@@ -69,44 +232,126 @@ export async function POST(request: NextRequest) {
       "EPSG:4326"
     );
 
-    // Step 4: Get Sentinel-2 collection (automatically fetches last 90 days)
-    console.log("[Satellite API] Getting Sentinel-2 collection (last 90 days)...");
-    const collection = getSentinel2Collection(cloudCoverage)
-      .filterBounds(polygon); // Filter by polygon early to reduce processing
+    // Step 4: Get Sentinel-2 (Sentinel-1 for radar indices, Landsat for thermal layers) collection (requested window, or the last 60 days)
+    console.log("[Satellite API] Getting", radar ? "Sentinel-1" : thermal || sourceSelection === "landsat" || landsatScene ? "Landsat 8/9" : "Sentinel-2", "collection", hasDateRange ? `(${startDate} to ${endDate})` : "(last 60 days)", "...");
+    const dateRange = hasDateRange
+      ? { startDate: startDate!, endDate: toExclusiveEndDate(endDate!) }
+      : undefined;
+    // Optical collection of a source, narrowed to the user-selected scene if any
+    const getSourceCollection = (opticalSource: OpticalSource) => {
+      let sourceCollection = getOpticalCollection(opticalSource, cloudCoverage, dateRange, cloudMask)
+        .filterBounds(polygon); // Filter by polygon early to reduce processing
+
+      if (sceneId) {
+        // Narrow to the user-selected scene; it then becomes the "most recent" image
+        // Scenes picked on the trend chart can fall outside the date window, so the
+        // scene's own acquisition day is searched, without a scene-level cloud filter
+        const sceneDateRange = getSceneDateRange(sceneId);
+        if (sceneDateRange) {
+          sourceCollection = getOpticalCollection(opticalSource, 100, sceneDateRange, cloudMask).filterBounds(polygon);
+        }
+        sourceCollection = sourceCollection.filter(ee.Filter.eq("system:index", sceneId));
+      }
+      return sourceCollection;
+    };
+
+    let source: OpticalSource = sourceSelection === "landsat" || thermal || landsatScene ? "landsat" : "sentinel2";
+    let collection = radar ? getSentinel1Collection(dateRange).filterBounds(polygon) : getSourceCollection(source);
+    if (sceneId && radar) {
+      collection = collection.filter(ee.Filter.eq("system:index", sceneId));
+    }
 
     // Step 5: Check if there are any images
     console.log("[Satellite API] Checking for available images...");
-    const imageCount = await new Promise<number>((resolve, reject) => {
+    const countImages = (candidates: typeof collection) => new Promise<number>((resolve, reject) => {
       const timeout = setTimeout(() => {
         reject(new Error("Image count check timed out"));
       }, 30000); // 30 second timeout
 
-      collection.size().getInfo((count: number, error?: Error) => {
+      candidates.size().getInfo((count: number, error?: Error) => {
         clearTimeout(timeout);
         if (error) reject(error);
         else resolve(count);
       });
     });
+    let imageCount = await countImages(collection);
 
     console.log("[Satellite API] Found", imageCount, "images");
 
+    // No Sentinel-2 scene (weeks of clouds, or dates before 2017): try Landsat 8/9
+    if (imageCount === 0 && source === "sentinel2" && sourceSelection === "auto" && !sceneId && landsatSupported) {
+      console.log("[Satellite API] No Sentinel-2 images, falling back to Landsat 8/9...");
+      source = "landsat";
+      collection = getSourceCollection(source);
+      imageCount = await countImages(collection);
+      console.log("[Satellite API] Found", imageCount, "Landsat images");
+    }
+
     if (imageCount === 0) {
       console.warn("[Satellite API] No images found");
+      if (sceneId) {
+        return NextResponse.json(
+          { error: `Scene ${sceneId} not found for the specified area and date range.` },
+          { status: 404 }
+        );
+      }
       return NextResponse.json(
         { 
-          error: "No satellite images found for the specified area. Try:\n1. Increasing cloud coverage tolerance\n2. Verifying the area is on land (not ocean)" 
+          error: "No satellite images found for the specified area. Try:\n1. Increasing cloud coverage tolerance\n2. Widening the date range\n3. Verifying the area is on land (not ocean)" 
         },
         { status: 404 }
       );
     }
 
-    // Step 6: Check cache BEFORE processing (using "latest" since we always fetch most recent)
-    console.log("[Satellite API] Checking cache for most recent image...");
+    // Adaptive resolution based on area size (larger areas = lower resolution = lower cost)
+    // Use client-side calculation to avoid GEE API call
+    const areaKm2 = squareMetersToKm(calculatePolygonArea(coordinates));
+    // Landsat pixels are 30 m, so finer scales only resample them
+    const scale = getAnalysisScale(areaKm2, source);
+
+    // Step 6: Select the requested (or most recent) image, or mosaic every clear scene in the window
+    let image;
+    let metadata;
+    let compositeDates: string[] | undefined;
+
+    if (compositeMode) {
+      console.log("[Satellite API] Building", compositeMode, "composite...");
+      compositeDates = await getContributingDates(collection, polygon, scale);
+      if (compositeDates.length === 0) {
+        console.warn("[Satellite API] No clear pixels over the area in the window");
+        return NextResponse.json(
+          { error: "No cloud-free pixels found over the area in the selected period. Try widening the date range." },
+          { status: 404 }
+        );
+      }
+      image = buildComposite(collection, compositeMode);
+      console.log("[Satellite API] Composite dates:", compositeDates);
+    } else {
+      console.log("[Satellite API] Selecting image...");
+      image = getMostRecentImage(collection);
+      metadata = radar ? await getRadarImageMetadata(image) : await getImageMetadata(image);
+      console.log("[Satellite API] Selected image:", metadata);
+    }
+
+    // A composite is dated by its most recent contributing scene
+    const imageDate = metadata ? metadata.date : compositeDates![compositeDates!.length - 1];
+
+    // Step 7: Check cache BEFORE processing, keyed on the actual acquisition date(s)
+    // A newer satellite pass produces a different key, so stale results are never served
+    console.log("[Satellite API] Checking cache for image from", imageDate, "...");
     const cacheKey: CacheKey = {
       coordinates,
       indexType,
       cloudCoverage,
-      imageDate: "latest", // Always fetch most recent, so use "latest" for cache key
+      imageDate,
+      sceneId: metadata?.sceneId,
+      cloudMask,
+      compositeMode,
+      compositeDates,
+      indexParams: params,
+      zones,
+      source: radar ? "sentinel1" : source,
+      userId: customIndexUserId,
     };
     
     const cacheHash = generateCacheHash(cacheKey);
@@ -119,163 +364,85 @@ export async function POST(request: NextRequest) {
         minValue: cachedResult.minValue,
         maxValue: cachedResult.maxValue,
         meanValue: cachedResult.meanValue,
+        stdDev: cachedResult.stdDev,
+        percentiles: cachedResult.percentiles,
+        histogram: cachedResult.histogram,
+        stretch: cachedResult.stretch,
         date: cachedResult.date,
         indexType: cachedResult.indexType,
+        indexName: cachedResult.indexName,
+        palette: cachedResult.palette,
+        sceneId: cachedResult.sceneId,
+        acquisitionTime: cachedResult.acquisitionTime,
+        tileId: cachedResult.tileId,
+        cloudPercentage: cachedResult.cloudPercentage,
+        sensor: cachedResult.sensor,
+        source: cachedResult.source,
+        cloudMask: cachedResult.cloudMask,
+        maskedPercentage: cachedResult.maskedPercentage,
+        composite: cachedResult.composite,
+        zones: cachedResult.zones,
         cached: true, // Indicate this is from cache
       } as SatelliteImageResponse & { cached?: boolean });
     }
     
     console.log("[Satellite API] Cache miss. Processing with GEE...");
 
-    // Step 7: Select the most recent image
-    console.log("[Satellite API] Selecting most recent image...");
-    const image = getMostRecentImage(collection);
-
-    // Step 8: Clip image to polygon bounding box BEFORE index calculation
-    // This is the MOST cost-efficient optimization - we only process pixels within the bounding box
-    // Instead of processing the entire 109x109 km Sentinel-2 tile, we only process the AOI's bounding box
-    console.log("[Satellite API] Clipping image to polygon bounding box (cost optimization)...");
-    
-    // Get bounding box of the polygon and add small buffer for edge pixels
-    // Using polygon bounds reduces processing area from full tile (~12,000 km²) to just the AOI area
-    const bbox = polygon.bounds();
-    const bufferMeters = 1000; // 1km buffer to ensure we capture edge pixels
-    const bufferedBbox = bbox.buffer(bufferMeters);
-    
-    // Clip the raw image to bounding box BEFORE calculating index
-    // This dramatically reduces the number of pixels processed (often 10-100x reduction)
-    const clippedImage = image.clip(bufferedBbox);
-    
-    console.log("[Satellite API] Image clipped to bounding box - processing area minimized");
-
-    // Step 9: Calculate the requested index on the clipped image (much smaller area)
-    console.log("[Satellite API] Calculating index:", indexType, "on clipped area...");
-    const indexImage = calculateIndex(clippedImage, indexType as IndexType);
-
-    // Step 10: Clip to exact polygon (for display and statistics)
-    console.log("[Satellite API] Clipping to exact polygon...");
-    const clipped = indexImage.clip(polygon);
-
-    // Step 11: Get statistics with optimized parameters to reduce GEE costs
-    // Calculate optimal scale based on polygon area (larger areas = lower resolution = lower cost)
-    // Use client-side calculation to avoid GEE API call
-    const polygonAreaM2 = calculatePolygonArea(coordinates);
-    const areaKm2 = squareMetersToKm(polygonAreaM2);
-    let scale = 100; // Default 100m resolution
-    
-    if (areaKm2 > 100) {
-      scale = 250; // 250m for areas > 100 km²
-    } else if (areaKm2 > 50) {
-      scale = 200; // 200m for areas > 50 km²
-    } else if (areaKm2 > 10) {
-      scale = 150; // 150m for areas > 10 km²
-    }
-    
-    console.log("[Satellite API] Computing statistics (optimized scale:", scale, "m, area:", areaKm2.toFixed(2), "km²)...");
-    const stats = clipped.reduceRegion({
-      reducer: ee.Reducer.minMax().combine({
-        reducer2: ee.Reducer.mean(),
-        sharedInputs: true, // Share inputs to reduce computation
-      }),
-      geometry: polygon,
-      scale: scale, // Adaptive resolution based on area size
-      maxPixels: 1e9,
-      bestEffort: true, // Use best effort mode to avoid timeouts
-      tileScale: 4, // Increase tile scale for better performance
+    // Step 8: Compute the index on the image clipped to the polygon bounds: statistics,
+    // cloud-masked share and a tile URL stretched between percentiles
+    console.log("[Satellite API] Analyzing", indexType, "(scale:", scale, "m, area:", areaKm2.toFixed(2), "km²)...");
+    const analysis = await analyzeArea(coordinates, [indexType], {
+      image,
+      source,
+      indexParams,
+      customIndex,
+      scale,
     });
-
-    console.log("[Satellite API] Fetching statistics (with 90s timeout)...");
-    const statsValue = await new Promise<any>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        console.error("[Satellite API] Statistics computation timed out");
-        reject(new Error("Statistics computation timed out. Try reducing the area size."));
-      }, 90000); // 90 second timeout
-
-      stats.getInfo((value: any, error?: Error) => {
-        clearTimeout(timeout);
-        if (error) {
-          console.error("[Satellite API] Statistics error:", error);
-          reject(error);
-        } else {
-          console.log("[Satellite API] Statistics received:", value);
-          resolve(value);
-        }
-      });
-    });
-
-    console.log("[Satellite API] Statistics computed successfully");
-
-    // Step 12: Validate statistics
-    const minKey = `${indexType}_min`;
-    const maxKey = `${indexType}_max`;
-    const meanKey = `${indexType}_mean`;
-
-    if (statsValue[minKey] === undefined || statsValue[maxKey] === undefined) {
-      console.error("[Satellite API] Invalid statistics keys:", Object.keys(statsValue));
-      throw new Error(`Statistics missing expected keys. Received: ${Object.keys(statsValue).join(", ")}`);
+    if (analysis.layers.length === 0) {
+      throw analysis.errors[0].error;
     }
-
-    // Step 13: Generate tile URL for map overlay
-    console.log("[Satellite API] Generating tile URL...");
-    const minValue = statsValue[minKey];
-    const maxValue = statsValue[maxKey];
-
-    // getMapId returns a Promise in Node.js Earth Engine client
-    const mapId = await new Promise<any>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        console.error("[Satellite API] getMapId timed out");
-        reject(new Error("Tile URL generation timed out"));
-      }, 60000); // 60 second timeout
-
-      clipped.getMapId(
-        {
-          min: minValue,
-          max: maxValue,
-          palette: indexType === "NDVI" || indexType === "NDRE" || indexType === "MSAVI"
-            ? ["red", "yellow", "green"] // Red to green for NDVI/NDRE/MSAVI
-            : indexType === "NDWI"
-            ? ["brown", "yellow", "cyan", "blue"] // Brown to blue for water content
-            : indexType === "PSRI"
-            ? ["green", "yellow", "orange", "red"] // Green to red for senescence
-            : ["blue", "cyan", "yellow", "orange", "red"], // Blue to red for EVI
-        },
-        (result: any, error?: Error) => {
-          clearTimeout(timeout);
-          if (error) {
-            console.error("[Satellite API] getMapId error:", error);
-            reject(error);
-          } else {
-            console.log("[Satellite API] getMapId result received");
-            resolve(result);
-          }
-        }
-      );
-    });
-
-    // Extract tile URL
-    const tileUrl = mapId?.urlFormat || mapId?.tile_fetcher?.url_format || mapId?.url_format;
-    
-    if (!tileUrl) {
-      console.error("[Satellite API] Invalid mapId structure:", mapId);
-      throw new Error(`Failed to generate tile URL from Earth Engine. MapId structure: ${JSON.stringify(Object.keys(mapId || {}))}`);
+    const { stats: indexStats, stretch, palette, maskedPercentage, tileUrl, indexImage, bandName } = analysis.layers[0];
+    const minValue = indexStats.min;
+    const maxValue = indexStats.max;
+    console.log("[Satellite API] Statistics and tile URL computed successfully");
+
+    // Step 9: Delineate management zones from the same index image, if requested
+    let managementZones;
+    if (zones) {
+      const zoneScale = getZoneScale(areaKm2);
+      console.log("[Satellite API] Delineating", zones.count, zones.method, "zones (scale:", zoneScale, "m)...");
+      managementZones = await getManagementZones(indexImage, bandName, polygon, zoneScale, zones.count, zones.method);
+      console.log("[Satellite API] Zones delineated:", managementZones.length);
     }
 
-    // Step 14: Prepare response
-    // Use current date since we always fetch the most recent image
-    const imageDate = new Date().toISOString().split("T")[0];
-    
+    // Step 10: Prepare response with the real acquisition metadata of the image
     const response: SatelliteImageResponse = {
       tileUrl: tileUrl,
       minValue,
       maxValue,
-      meanValue: statsValue[meanKey] || (minValue + maxValue) / 2,
-      date: imageDate, // Use current date (we always fetch most recent)
-      indexType: indexType as IndexType,
+      meanValue: indexStats.mean,
+      stdDev: indexStats.stdDev,
+      percentiles: indexStats.percentiles,
+      histogram: indexStats.histogram,
+      stretch,
+      date: imageDate,
+      indexType,
+      indexName: customIndex?.name,
+      palette,
+      sceneId: metadata?.sceneId,
+      acquisitionTime: metadata?.acquisitionTime,
+      tileId: metadata?.tileId,
+      cloudPercentage: metadata?.cloudPercentage,
+      sensor: metadata?.sensor,
+      source: radar ? "sentinel1" : source,
+      cloudMask,
+      maskedPercentage,
+      composite: compositeMode ? { mode: compositeMode, dates: compositeDates! } : undefined,
+      zones: managementZones,
     };
 
-    // Step 15: Store result in cache (async, don't wait)
-    // Store with "latest" as date since that's what we used in the cache key
-    setCachedResult(cacheHash, cacheKey, response, "latest").catch((error) => {
+    // Step 11: Store result in cache (async, don't wait)
+    setCachedResult(cacheHash, cacheKey, response, imageDate).catch((error) => {
       console.error("[Satellite API] Failed to cache result (non-critical):", error);
     });
 
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { initializeEarthEngine, getEarthEngine } from "@/lib/earthEngine";
+import { listScenes } from "@/lib/indices/scenes";
+import { CLOUD_MASK_MODES } from "@/lib/indices/calculations";
+import { SceneListRequest, SceneListResponse } from "@/types/satellite";
+import { calculatePolygonArea, squareMetersToKm, getAdaptiveScale } from "@/lib/utils/geometry";
+import { validateDateRange, toExclusiveEndDate } from "@/lib/utils/dates";
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const MAX_RANGE_DAYS = 366; // One year of scenes is plenty to pick from
+
+/**
+ * POST /api/satellite/scenes
+ * List available Sentinel-2 scenes for an area (date, cloud %, polygon coverage)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: SceneListRequest = await request.json();
+    const { coordinates, cloudCoverage, startDate, endDate } = body;
+    const cloudMask = body.cloudMask ?? "qa60";
+
+    console.log("[Scenes API] Request parameters:", {
+      coordinatesCount: coordinates?.length,
+      cloudCoverage,
+      startDate,
+      endDate,
+      cloudMask,
+    });
+
+    if (!coordinates || coordinates.length < 3) {
+      return NextResponse.json(
+        { error: "Invalid coordinates. At least 3 points required for a polygon." },
+        { status: 400 }
+      );
+    }
+
+    if (typeof cloudCoverage !== "number" || cloudCoverage < 0 || cloudCoverage > 100) {
+      return NextResponse.json(
+        { error: "cloudCoverage must be a number between 0 and 100." },
+        { status: 400 }
+      );
+    }
+
+    if (!CLOUD_MASK_MODES.includes(cloudMask)) {
+      return NextResponse.json(
+        { error: "Invalid cloudMask. Must be qa60, scl, or s2cloudless." },
+        { status: 400 }
+      );
+    }
+
+    const dateRangeError = validateDateRange(startDate, endDate, MAX_RANGE_DAYS);
+    if (dateRangeError) {
+      return NextResponse.json({ error: dateRangeError }, { status: 400 });
+    }
+
+    await initializeEarthEngine();
+    const ee = getEarthEngine();
+
+    const polygon = ee.Geometry.Polygon(
+      [coordinates.map((coord) => [coord.lng, coord.lat])],
+      "EPSG:4326"
+    );
+
+    const areaKm2 = squareMetersToKm(calculatePolygonArea(coordinates));
+    const scenes = await listScenes(
+      polygon,
+      cloudCoverage,
+      { startDate, endDate: toExclusiveEndDate(endDate) },
+      getAdaptiveScale(areaKm2),
+      cloudMask
+    );
+
+    console.log(`[Scenes API] ✅ Found ${scenes.length} scene(s)`);
+
+    const response: SceneListResponse = {
+      startDate,
+      endDate,
+      scenes,
+    };
+
+    return NextResponse.json(response);
+  } catch (error: any) {
+    console.error("[Scenes API] Error listing scenes:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to list scenes" },
+      { status: 500 }
+    );
+  }
+}
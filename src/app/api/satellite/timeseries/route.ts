@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { initializeEarthEngine, getEarthEngine } from "@/lib/earthEngine";
+import { getIndexTimeSeries } from "@/lib/indices/timeSeries";
+import { TimeSeriesRequest, TimeSeriesResponse } from "@/types/satellite";
+import { IndexType } from "@/types/report";
+import { INDEX_TYPES, isIndexSupported, isIndexType, resolveIndexParameters } from "@/lib/indices/registry";
+import { CLOUD_MASK_MODES, OPTICAL_SOURCES } from "@/lib/indices/calculations";
+import { calculatePolygonArea, squareMetersToKm, getAdaptiveScale } from "@/lib/utils/geometry";
+import { validateDateRange, toExclusiveEndDate } from "@/lib/utils/dates";
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120; // Time series reduce every scene in the range
+
+const MAX_RANGE_DAYS = 730; // Cap at 2 years to bound GEE processing costs
+const MAX_LANDSAT_RANGE_DAYS = 1826; // Landsat revisits less often, so 5-year baselines stay affordable
+
+/**
+ * POST /api/satellite/timeseries
+ * Return min/max/mean and valid-pixel fraction of an index for every Sentinel-2
+ * (or Landsat 8/9) acquisition over an area within a date range
+ */
+export async function POST(request: NextRequest) {
+  try {
+    console.log("[Time Series API] Starting request processing...");
+
+    const body: TimeSeriesRequest = await request.json();
+    const { coordinates, indexType, startDate, endDate, indexParams } = body;
+    const cloudCoverage = body.cloudCoverage ?? 100;
+    const cloudMask = body.cloudMask ?? "qa60";
+    const source = body.source ?? "sentinel2";
+
+    console.log("[Time Series API] Request parameters:", {
+      coordinatesCount: coordinates?.length,
+      indexType,
+      startDate,
+      endDate,
+      cloudCoverage,
+      cloudMask,
+      source,
+    });
+
+    // Validate input
+    if (!coordinates || coordinates.length < 3) {
+      return NextResponse.json(
+        { error: "Invalid coordinates. At least 3 points required for a polygon." },
+        { status: 400 }
+      );
+    }
+
+    if (!isIndexType(indexType)) {
+      return NextResponse.json(
+        { error: `Invalid index type. Must be one of ${INDEX_TYPES.join(", ")}.` },
+        { status: 400 }
+      );
+    }
+
+    if (!OPTICAL_SOURCES.includes(source)) {
+      return NextResponse.json(
+        { error: "Invalid source. Must be sentinel2 or landsat." },
+        { status: 400 }
+      );
+    }
+
+    if (!isIndexSupported(indexType as IndexType, source)) {
+      return NextResponse.json(
+        { error: `${indexType} uses Sentinel-2 red-edge bands, which Landsat doesn't have.` },
+        { status: 400 }
+      );
+    }
+
+    const dateRangeError = validateDateRange(
+      startDate,
+      endDate,
+      source === "landsat" ? MAX_LANDSAT_RANGE_DAYS : MAX_RANGE_DAYS
+    );
+    if (dateRangeError) {
+      return NextResponse.json({ error: dateRangeError }, { status: 400 });
+    }
+
+    if (typeof cloudCoverage !== "number" || cloudCoverage < 0 || cloudCoverage > 100) {
+      return NextResponse.json(
+        { error: "cloudCoverage must be a number between 0 and 100." },
+        { status: 400 }
+      );
+    }
+
+    if (!CLOUD_MASK_MODES.includes(cloudMask)) {
+      return NextResponse.json(
+        { error: "Invalid cloudMask. Must be qa60, scl, or s2cloudless." },
+        { status: 400 }
+      );
+    }
+
+    const params = indexParams?.[indexType as IndexType];
+    try {
+      resolveIndexParameters(indexType as IndexType, params);
+    } catch (paramsError: any) {
+      return NextResponse.json({ error: paramsError.message }, { status: 400 });
+    }
+
+    await initializeEarthEngine();
+    const ee = getEarthEngine();
+
+    const polygon = ee.Geometry.Polygon(
+      [coordinates.map((coord) => [coord.lng, coord.lat])],
+      "EPSG:4326"
+    );
+
+    const areaKm2 = squareMetersToKm(calculatePolygonArea(coordinates));
+    // Landsat pixels are 30 m, so finer scales only resample them
+    const scale = source === "landsat" ? Math.max(getAdaptiveScale(areaKm2), 30) : getAdaptiveScale(areaKm2);
+
+    console.log(`[Time Series API] Reducing scenes (scale: ${scale}m, area: ${areaKm2.toFixed(2)} km²)...`);
+    const points = await getIndexTimeSeries(
+      polygon,
+      indexType as IndexType,
+      { startDate, endDate: toExclusiveEndDate(endDate) },
+      cloudCoverage,
+      scale,
+      cloudMask,
+      params,
+      source
+    );
+
+    console.log(`[Time Series API] ✅ Computed ${points.length} acquisition(s)`);
+
+    const response: TimeSeriesResponse = {
+      indexType: indexType as IndexType,
+      startDate,
+      endDate,
+      source,
+      points,
+    };
+
+    return NextResponse.json(response);
+  } catch (error: any) {
+    console.error("[Time Series API] Error computing time series:", error);
+    return NextResponse.json(
+      {
+        error: error.message || "Failed to compute time series",
+        details: process.env.NODE_ENV === "development" ? error.stack : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
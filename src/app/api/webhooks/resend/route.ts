@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getResend } from "@/lib/email/resend";
+import { applyReportDeliveryEventAdmin } from "@/lib/firestore/admin";
+import { ReportDeliveryEvent } from "@/types/reportRun";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/webhooks/resend
+ * Handle Resend email events to track the delivery of reports
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const webhookSecret = process.env.RESEND_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      console.error("[Resend Webhook] RESEND_WEBHOOK_SECRET not configured");
+      return NextResponse.json(
+        { error: "Webhook secret not configured" },
+        { status: 500 }
+      );
+    }
+
+    // Read as raw text: the signature covers the exact body
+    const body = await request.text();
+    let event: any;
+
+    try {
+      // Resend signs webhooks with Svix (svix-id, svix-timestamp, svix-signature headers)
+      event = getResend().webhooks.verify({
+        payload: body,
+        headers: {
+          id: request.headers.get("svix-id") || "",
+          timestamp: request.headers.get("svix-timestamp") || "",
+          signature: request.headers.get("svix-signature") || "",
+        },
+        webhookSecret,
+      });
+    } catch (err: any) {
+      console.error("[Resend Webhook] Signature verification failed:", err.message);
+      return NextResponse.json(
+        { error: `Webhook signature verification failed: ${err.message}` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Resend Webhook] Received event: ${event.type} for email ${event.data?.email_id}`);
+
+    const deliveryEvent = toDeliveryEvent(event);
+    if (deliveryEvent) {
+      const tracked = await applyReportDeliveryEventAdmin(deliveryEvent);
+      if (!tracked) {
+        console.log(`[Resend Webhook] Email ${deliveryEvent.messageId} is not a report delivery`);
+      }
+    }
+
+    // Always return 200 to acknowledge receipt
+    return NextResponse.json({ received: true }, { status: 200 });
+  } catch (error: any) {
+    console.error("[Resend Webhook] Error:", error);
+    return NextResponse.json(
+      { error: error.message || "Webhook handler failed" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Map a Resend email event to a delivery status (null for events that don't change it)
+ */
+function toDeliveryEvent(event: any): ReportDeliveryEvent | null {
+  const messageId = event.data?.email_id;
+  if (!messageId) {
+    return null;
+  }
+  const timestamp = new Date(event.created_at || Date.now());
+
+  switch (event.type) {
+    case "email.delivered":
+      return { messageId, status: "delivered", timestamp };
+    case "email.opened":
+      return { messageId, status: "read", timestamp };
+    case "email.bounced": {
+      // Transient bounces (full mailbox, greylisting) may succeed next time
+      const bounce = event.data.bounce;
+      return {
+        messageId,
+        status: "failed",
+        timestamp,
+        error: bounce?.message || "Bounced",
+        hardFailure: bounce?.type !== "Transient",
+      };
+    }
+    case "email.failed":
+      // Resend refused the address (suppressed, invalid...): as final as a permanent bounce
+      return { messageId, status: "failed", timestamp, error: event.data.failed?.reason || "Failed to send", hardFailure: true };
+    default:
+      return null;
+  }
+}
@@ -128,6 +128,12 @@ export async function POST(request: NextRequest) {
                   await handleIncomingMessage(message, change.value.contacts?.[0]);
                 }
               }
+              // Delivery statuses of messages we sent (sent, delivered, read, failed)
+              if (change.value.statuses && change.value.statuses.length > 0) {
+                for (const status of change.value.statuses) {
+                  await handleMessageStatus(status);
+                }
+              }
             }
           }
         }
@@ -142,6 +148,38 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Failure codes that don't mean the number can't receive reports (rate limits, outages)
+// https://developers.facebook.com/docs/whatsapp/cloud-api/support/error-codes
+const TRANSIENT_ERROR_CODES = [130429, 131000, 131016, 131048, 131049];
+
+/**
+ * Apply a WhatsApp message status to the report run that sent the message
+ */
+async function handleMessageStatus(status: any) {
+  // "sent" is already recorded when the Graph API accepts the message
+  if (!["delivered", "read", "failed"].includes(status.status)) {
+    return;
+  }
+
+  const error = status.errors?.[0];
+  try {
+    const { applyReportDeliveryEventAdmin } = await import("@/lib/firestore/admin");
+    const tracked = await applyReportDeliveryEventAdmin({
+      messageId: status.id,
+      status: status.status,
+      timestamp: new Date(Number(status.timestamp) * 1000),
+      error: error ? `${error.code}: ${error.error_data?.details || error.title || error.message}` : undefined,
+      hardFailure: status.status === "failed" && !TRANSIENT_ERROR_CODES.includes(error?.code),
+    });
+    if (!tracked) {
+      console.log(`[Webhook] Status ${status.status} for untracked message ${status.id}`);
+    }
+  } catch (error: any) {
+    // Acknowledge anyway: a failed status update must not make Meta retry the whole batch
+    console.error(`[Webhook] ❌ Failed to apply status ${status.status} for message ${status.id}:`, error.message);
+  }
+}
+
 /**
  * Handle incoming WhatsApp message
  */
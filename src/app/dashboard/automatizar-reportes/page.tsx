@@ -5,6 +5,7 @@ import { useAuth } from "@/context/AuthContext";
 import { getUserReports } from "@/lib/firestore/reports";
 import ReportStepper from "@/components/reports/ReportStepper";
 import ReportList from "@/components/reports/ReportList";
+import AlertManager from "@/components/alerts/AlertManager";
 import PlanRequired from "@/components/PlanRequired";
 import Card from "@/components/ui/Card";
 import { Report } from "@/types/report";
@@ -108,12 +109,17 @@ export default function AutomatizarReportesPage() {
             <ReportStepper onSave={handleSave} initialData={editingReport || undefined} />
         </div>
       ) : (
+          <>
           <Card>
             <div className="space-y-4">
               <h2 className="text-lg font-semibold text-[#242424]">Reportes configurados</h2>
           <ReportList reports={reports} onUpdate={loadReports} onEdit={handleEdit} />
         </div>
           </Card>
+          <Card>
+            <AlertManager />
+          </Card>
+          </>
       )}
       </div>
     </PlanRequired>
@@ -7,23 +7,71 @@ import InteractiveMap from "@/components/map/InteractiveMap";
 import AreaForm from "@/components/areas/AreaForm";
 import PlanRequired from "@/components/PlanRequired";
 import Card from "@/components/ui/Card";
+import CustomIndexManager from "@/components/indices/CustomIndexManager";
+import PrescriptionExport from "@/components/zones/PrescriptionExport";
+import ChangeComparison from "@/components/indices/ChangeComparison";
+import TrendChart from "@/components/indices/TrendChart";
+import YieldPotentialTable from "@/components/indices/YieldPotentialTable";
 import { Area } from "@/types/area";
-import { IndexType } from "@/types/report";
-import { SatelliteImageResponse } from "@/types/satellite";
+import { AnalysisIndex, CloudMaskMode, CompositeMode, IndexType, OpticalSource } from "@/types/report";
+import { SatelliteImageResponse, SatelliteScene, ZoneMethod, ZoneRequest } from "@/types/satellite";
 import { formatArea } from "@/lib/utils/geometry";
+import {
+  INDEX_REGISTRY,
+  INDEX_TYPES,
+  RADAR_INDEX_REGISTRY,
+  RADAR_INDEX_TYPES,
+  THERMAL_LAYER_REGISTRY,
+  THERMAL_LAYER_TYPES,
+  isIndexType,
+  getIndexInterpretation,
+  getIndexExplanation,
+  formatIndexValue,
+} from "@/lib/indices/registry";
+import { getCloudMaskLabel, getCompositeModeLabel, formatCompositeDates } from "@/lib/utils/reports";
+import { getZoneMethodLabel, getZoneColor } from "@/lib/utils/zones";
+
+/**
+ * Format a Date as YYYY-MM-DD in local time (value format of date inputs)
+ */
+const toDateInputValue = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const getDefaultStartDate = (): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - 60); // Same default window as the satellite API
+  return toDateInputValue(date);
+};
 
 export default function ImagenesPage() {
   const { user } = useAuth();
   const [areas, setAreas] = useState<Area[]>([]);
   const [selectedAreaId, setSelectedAreaId] = useState<string | null>(null);
   const [selectedImageData, setSelectedImageData] = useState<SatelliteImageResponse | null>(null);
-  const [selectedIndexType, setSelectedIndexType] = useState<IndexType>("NDVI");
+  const [selectedIndexType, setSelectedIndexType] = useState<AnalysisIndex>("NDVI");
   const [loading, setLoading] = useState(false);
   const [loadingAreas, setLoadingAreas] = useState(true);
   const [showMap, setShowMap] = useState(false);
   const [showIndexPanel, setShowIndexPanel] = useState(false);
   const [showCreateArea, setShowCreateArea] = useState(false);
   const [drawnCoordinates, setDrawnCoordinates] = useState<{ lat: number; lng: number }[] | null>(null);
+  const [startDate, setStartDate] = useState<string>(getDefaultStartDate);
+  const [endDate, setEndDate] = useState<string>(() => toDateInputValue(new Date()));
+  const [scenes, setScenes] = useState<SatelliteScene[]>([]);
+  const [selectedSceneId, setSelectedSceneId] = useState<string | null>(null);
+  const [loadingScenes, setLoadingScenes] = useState(false);
+  const [showScenePanel, setShowScenePanel] = useState(false);
+  const [cloudMask, setCloudMask] = useState<CloudMaskMode>("qa60");
+  const [compositeMode, setCompositeMode] = useState<CompositeMode | null>(null);
+  const [saviL, setSaviL] = useState<number>(0.5);
+  const [showZonePanel, setShowZonePanel] = useState(false);
+  const [zoneCount, setZoneCount] = useState<number>(3);
+  const [zoneMethod, setZoneMethod] = useState<ZoneMethod>("kmeans");
+  const [showChangePanel, setShowChangePanel] = useState(false);
+  const [showTrendPanel, setShowTrendPanel] = useState(false);
 
   const loadAreas = useCallback(async () => {
     if (!user) {
@@ -54,6 +102,9 @@ export default function ImagenesPage() {
     setSelectedAreaId(areaId);
     setShowMap(false);
     setSelectedImageData(null);
+    setScenes([]);
+    setSelectedSceneId(null);
+    setCompositeMode(null);
     
     // Auto-load NDVI analysis when viewing
     const area = areas.find(a => a.id === areaId);
@@ -64,21 +115,41 @@ export default function ImagenesPage() {
       lng: coord.longitude || coord.lng,
     }));
 
-    await loadAnalysis(areaId, coordinates, "NDVI");
+    await loadAnalysis(areaId, coordinates, "NDVI", null, null);
   };
 
-  const loadAnalysis = async (areaId: string, coordinates: { lat: number; lng: number }[], indexType: IndexType) => {
+  const loadAnalysis = async (
+    areaId: string,
+    coordinates: { lat: number; lng: number }[],
+    indexType: AnalysisIndex,
+    sceneId: string | null = selectedSceneId,
+    composite: CompositeMode | null = compositeMode,
+    zones: ZoneRequest | null = null,
+    source: OpticalSource | "auto" = "auto"
+  ) => {
     setLoading(true);
     try {
+      // Custom indices are private: the route checks the caller owns the index
+      const token = await user?.getIdToken();
       const response = await fetch("/api/satellite/process", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
         body: JSON.stringify({
           coordinates,
           indexType,
-          cloudCoverage: 20,
+          // Composites mask clouds pixel by pixel, so partly cloudy scenes are kept
+          cloudCoverage: composite ? 100 : 20,
+          startDate,
+          endDate,
+          sceneId: sceneId || undefined,
+          cloudMask,
+          compositeMode: composite || undefined,
+          indexParams: indexType === "SAVI" ? { SAVI: { L: saviL } } : undefined,
+          zones: zones || undefined,
+          source,
         }),
       });
 
@@ -98,11 +169,75 @@ export default function ImagenesPage() {
     }
   };
 
+  const loadScenes = async (coordinates: { lat: number; lng: number }[]) => {
+    setLoadingScenes(true);
+    try {
+      const response = await fetch("/api/satellite/scenes", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          coordinates,
+          cloudCoverage: 20,
+          startDate,
+          endDate,
+          cloudMask,
+        }),
+      });
+
+      const responseData = await response.json();
+
+      if (!response.ok) {
+        throw new Error(responseData.error || `Error al buscar imágenes (${response.status})`);
+      }
+
+      setScenes(responseData.scenes || []);
+    } catch (error: any) {
+      console.error("Error loading scenes:", error);
+      alert(error.message || "Error al buscar imágenes disponibles.");
+    } finally {
+      setLoadingScenes(false);
+    }
+  };
+
+  const handleSelectScene = (sceneId: string | null, coordinates: { lat: number; lng: number }[]) => {
+    setSelectedSceneId(sceneId);
+    setCompositeMode(null);
+    loadAnalysis(selectedAreaId!, coordinates, selectedIndexType, sceneId, null);
+  };
+
+  const handleSelectComposite = (mode: CompositeMode, coordinates: { lat: number; lng: number }[]) => {
+    setSelectedSceneId(null);
+    setCompositeMode(mode);
+    loadAnalysis(selectedAreaId!, coordinates, selectedIndexType, null, mode);
+  };
+
+  // Acquisitions clicked on the trend chart may lie outside the date window; the API looks them up by id
+  const handleSelectTrendScene = (
+    sceneId: string,
+    indexType: IndexType,
+    source: OpticalSource,
+    coordinates: { lat: number; lng: number }[]
+  ) => {
+    setSelectedSceneId(sceneId);
+    setCompositeMode(null);
+    setShowMap(true);
+    loadAnalysis(selectedAreaId!, coordinates, indexType, sceneId, null, null, source);
+  };
+
   const handleBackToList = () => {
     setSelectedAreaId(null);
     setSelectedImageData(null);
     setShowMap(false);
     setShowIndexPanel(false);
+    setShowScenePanel(false);
+    setShowZonePanel(false);
+    setShowChangePanel(false);
+    setShowTrendPanel(false);
+    setScenes([]);
+    setSelectedSceneId(null);
+    setCompositeMode(null);
   };
 
   const handleDeleteArea = async (areaId: string, areaName: string) => {
@@ -139,62 +274,6 @@ export default function ImagenesPage() {
     setDrawnCoordinates(null);
   };
 
-  const getIndexInterpretation = (indexType: IndexType, meanValue: number): string => {
-    if (indexType === "NDVI") {
-      if (meanValue > 0.6) return "Vegetación muy saludable";
-      if (meanValue > 0.3) return "Vegetación moderadamente saludable";
-      return "Vegetación con estrés o baja cobertura";
-    }
-    if (indexType === "NDRE") {
-      if (meanValue > 0.3) return "Contenido de clorofila alto";
-      if (meanValue > 0.15) return "Contenido de clorofila moderado";
-      return "Contenido de clorofila bajo";
-    }
-    if (indexType === "EVI") {
-      if (meanValue > 0.5) return "Biomasa y productividad altas";
-      if (meanValue > 0.2) return "Biomasa y productividad moderadas";
-      return "Biomasa y productividad bajas";
-    }
-    if (indexType === "NDWI") {
-      if (meanValue > 0.3) return "Contenido de agua adecuado";
-      if (meanValue > 0.0) return "Contenido de agua moderado";
-      return "Estrés hídrico - requiere atención";
-    }
-    if (indexType === "MSAVI") {
-      if (meanValue > 0.5) return "Emergencia y establecimiento buenos";
-      if (meanValue > 0.2) return "Emergencia y establecimiento moderados";
-      return "Emergencia pobre o falla temprana";
-    }
-    if (indexType === "PSRI") {
-      if (meanValue < 0.1) return "Vegetación saludable y joven";
-      if (meanValue < 0.3) return "Senescencia moderada o madurez";
-      return "Senescencia avanzada o estrés severo";
-    }
-    return "";
-  };
-
-  const getIndexExplanation = (indexType: IndexType): string => {
-    if (indexType === "NDVI") {
-      return "NDVI es ideal para evaluar la salud general y cobertura vegetal.";
-    }
-    if (indexType === "NDRE") {
-      return "NDRE es mejor para evaluar el contenido de clorofila y nutrición.";
-    }
-    if (indexType === "EVI") {
-      return "EVI es más sensible a variaciones en áreas con alta biomasa.";
-    }
-    if (indexType === "NDWI") {
-      return "NDWI detecta estrés hídrico e problemas de riego antes que otros índices. Detecta contenido de agua que cae antes del declive de clorofila o biomasa.";
-    }
-    if (indexType === "MSAVI") {
-      return "MSAVI elimina el ruido del suelo y es crítico en etapas tempranas. Detecta problemas de emergencia, densidad de siembra y zonas de compactación.";
-    }
-    if (indexType === "PSRI") {
-      return "PSRI distingue senescencia natural de declive inducido por estrés. Útil para detectar enfermedades, optimizar cosecha y evitar insumos innecesarios.";
-    }
-    return "";
-  };
-
   // Default view: Area list
   if (!selectedAreaId) {
     return (
@@ -336,6 +415,11 @@ export default function ImagenesPage() {
                       </Card>
                     );
                   })}
+                  {areas.length >= 2 && (
+                    <Card>
+                      <YieldPotentialTable areas={areas} />
+                    </Card>
+                  )}
                 </div>
               )}
             </>
@@ -377,10 +461,10 @@ export default function ImagenesPage() {
                   <div className="mt-4">
                     <div className="flex items-baseline space-x-3 mb-3">
                       <span className="text-3xl font-bold text-[#5db815]">
-                        {selectedImageData.meanValue.toFixed(3)}
+                        {formatIndexValue(selectedImageData.indexType, selectedImageData.meanValue)}
                       </span>
                       <span className="text-lg text-[#898989]">
-                        {selectedImageData.indexType}
+                        {selectedImageData.indexName || selectedImageData.indexType}
                       </span>
                     </div>
                     <p className="text-lg font-medium text-[#242424] mb-2">
@@ -391,13 +475,73 @@ export default function ImagenesPage() {
                     </p>
                   </div>
                   <div className="mt-4 pt-4 border-t border-gray-200 text-sm text-[#898989]">
+                    {selectedImageData.composite ? (
+                      <p>
+                        Imagen: {formatCompositeDates(selectedImageData.composite.mode, selectedImageData.composite.dates)}
+                      </p>
+                    ) : (
+                      <p>
+                        Fecha de imagen: {new Date(`${selectedImageData.date}T00:00:00`).toLocaleDateString("es-MX")}
+                      </p>
+                    )}
+                    {selectedImageData.sensor && (
+                      <p>
+                        Satélite: {selectedImageData.sensor}
+                        {selectedImageData.tileId ? ` (mosaico ${selectedImageData.tileId})` : ""}
+                      </p>
+                    )}
+                    {selectedImageData.source === "landsat" && (
+                      <p>Imagen de Landsat 8/9 (resolución de 30 m), armonizada con Sentinel-2</p>
+                    )}
+                    {selectedImageData.cloudPercentage !== undefined && (
+                      <p>
+                        Nubosidad de la escena: {selectedImageData.cloudPercentage.toFixed(1)}%
+                      </p>
+                    )}
+                    {selectedImageData.maskedPercentage !== undefined && (
+                      <p>
+                        Píxeles enmascarados en la parcela: {selectedImageData.maskedPercentage.toFixed(1)}%
+                        {selectedImageData.cloudMask ? ` (máscara ${getCloudMaskLabel(selectedImageData.cloudMask)})` : ""}
+                      </p>
+                    )}
                     <p>
-                      Fecha de imagen: {new Date(selectedImageData.date).toLocaleDateString("es-MX")}
-                    </p>
-                    <p>
-                      Rango: {selectedImageData.minValue.toFixed(3)} - {selectedImageData.maxValue.toFixed(3)}
+                      Rango: {formatIndexValue(selectedImageData.indexType, selectedImageData.minValue)} -{" "}
+                      {formatIndexValue(selectedImageData.indexType, selectedImageData.maxValue)}
                     </p>
+                    {selectedImageData.stdDev !== undefined && (
+                      <p>Desviación estándar: {formatIndexValue(selectedImageData.indexType, selectedImageData.stdDev)}</p>
+                    )}
+                    {selectedImageData.percentiles && (
+                      <p>
+                        Percentiles: P5 {formatIndexValue(selectedImageData.indexType, selectedImageData.percentiles.p5)} · P25{" "}
+                        {formatIndexValue(selectedImageData.indexType, selectedImageData.percentiles.p25)} · Mediana{" "}
+                        {formatIndexValue(selectedImageData.indexType, selectedImageData.percentiles.p50)} · P75{" "}
+                        {formatIndexValue(selectedImageData.indexType, selectedImageData.percentiles.p75)} · P95{" "}
+                        {formatIndexValue(selectedImageData.indexType, selectedImageData.percentiles.p95)}
+                      </p>
+                    )}
                   </div>
+                  {selectedImageData.histogram && selectedImageData.histogram.length > 0 && (
+                    <div className="mt-4">
+                      <p className="text-sm font-medium text-[#242424] mb-2">Distribución de valores</p>
+                      <div className="flex items-end gap-px h-24 border-b border-gray-300">
+                        {selectedImageData.histogram.map((bin, index) => (
+                          <div
+                            key={index}
+                            className="flex-1 bg-[#5db815] rounded-t-sm"
+                            style={{
+                              height: `${(bin.count / Math.max(...selectedImageData.histogram!.map((b) => b.count), 1)) * 100}%`,
+                            }}
+                            title={`${bin.min.toFixed(2)} a ${bin.max.toFixed(2)}: ${bin.count} píxeles`}
+                          />
+                        ))}
+                      </div>
+                      <div className="flex justify-between text-xs text-[#898989] mt-1">
+                        <span>{selectedImageData.histogram[0].min.toFixed(2)}</span>
+                        <span>{selectedImageData.histogram[selectedImageData.histogram.length - 1].max.toFixed(2)}</span>
+                      </div>
+                    </div>
+                  )}
                 </>
               ) : loading ? (
                 <div className="py-8 text-center">
@@ -440,12 +584,135 @@ export default function ImagenesPage() {
                 areas={areas}
                 selectedAreaId={selectedAreaId || undefined}
                 imageDataList={selectedImageData ? [selectedImageData] : []}
+                zones={selectedImageData?.zones}
                 disableDrawing={true}
               />
             </div>
           )}
         </Card>
 
+        {/* Scene selection: date window and available images */}
+        <Card>
+          <button
+            onClick={() => setShowScenePanel(!showScenePanel)}
+            className="w-full flex items-center justify-between text-left"
+          >
+            <span className="font-medium text-[#242424]">Elegir fecha de imagen</span>
+            <svg
+              className={`w-5 h-5 text-[#898989] transition-transform ${showScenePanel ? "rotate-180" : ""}`}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          {showScenePanel && coordinates.length >= 3 && (
+            <div className="mt-4 space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                <div>
+                  <label className="block text-sm font-medium text-[#242424] mb-1">Desde</label>
+                  <input
+                    type="date"
+                    value={startDate}
+                    max={endDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-[#242424] mb-1">Hasta</label>
+                  <input
+                    type="date"
+                    value={endDate}
+                    min={startDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                    className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+                  />
+                </div>
+                <button
+                  onClick={() => loadScenes(coordinates)}
+                  disabled={loadingScenes || !startDate || !endDate}
+                  className="bg-[#5db815] text-white px-6 py-2.5 rounded-lg font-medium hover:bg-[#4a9a11] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loadingScenes ? "Buscando..." : "Buscar imágenes"}
+                </button>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-[#242424] mb-1">Máscara de nubes</label>
+                <select
+                  value={cloudMask}
+                  onChange={(e) => setCloudMask(e.target.value as CloudMaskMode)}
+                  className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+                >
+                  {(["qa60", "scl", "s2cloudless"] as CloudMaskMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {getCloudMaskLabel(mode)}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-[#898989] mt-1">
+                  SCL y s2cloudless también eliminan sombras de nubes y cirros. Se aplica al buscar imágenes o al elegir una fecha.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <button
+                  onClick={() => handleSelectScene(null, coordinates)}
+                  className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
+                    selectedSceneId === null && !compositeMode
+                      ? "border-[#5db815] bg-[#5db815]/10 text-[#5db815] font-medium"
+                      : "border-gray-200 hover:border-gray-300 text-[#242424]"
+                  }`}
+                >
+                  Imagen más reciente del periodo
+                </button>
+                {(["median", "greenest"] as CompositeMode[]).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => handleSelectComposite(mode, coordinates)}
+                    className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
+                      compositeMode === mode
+                        ? "border-[#5db815] bg-[#5db815]/10 text-[#5db815] font-medium"
+                        : "border-gray-200 hover:border-gray-300 text-[#242424]"
+                    }`}
+                  >
+                    <div className="font-medium">{getCompositeModeLabel(mode)} del periodo</div>
+                    <div className="text-sm text-[#898989] mt-1">
+                      {mode === "median"
+                        ? "Combina las partes despejadas de todas las fechas"
+                        : "Toma de cada píxel la fecha con mayor vigor (NDVI)"}
+                    </div>
+                  </button>
+                ))}
+                {scenes.map((scene) => (
+                  <button
+                    key={scene.sceneId}
+                    onClick={() => handleSelectScene(scene.sceneId, coordinates)}
+                    className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
+                      selectedSceneId === scene.sceneId
+                        ? "border-[#5db815] bg-[#5db815]/10 text-[#5db815] font-medium"
+                        : "border-gray-200 hover:border-gray-300 text-[#242424]"
+                    }`}
+                  >
+                    <div className="font-medium">
+                      {new Date(`${scene.date}T00:00:00`).toLocaleDateString("es-MX")}
+                      <span className="text-sm text-[#898989] font-normal"> · {scene.sensor} · {scene.tileId}</span>
+                    </div>
+                    <div className="text-sm text-[#898989] mt-1">
+                      Nubosidad: {scene.cloudPercentage.toFixed(1)}% · Cobertura de la parcela: {(scene.coverage * 100).toFixed(0)}%
+                    </div>
+                  </button>
+                ))}
+                {!loadingScenes && scenes.length === 0 && (
+                  <p className="text-sm text-[#898989]">
+                    Elige un periodo y busca las imágenes disponibles para comparar fechas.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </Card>
+
         {/* Index Switch: Side panel (shown as button to open panel) */}
         {selectedImageData && (
           <Card>
@@ -465,7 +732,7 @@ export default function ImagenesPage() {
             </button>
             {showIndexPanel && coordinates.length >= 3 && (
               <div className="space-y-2">
-                {(["NDVI", "NDRE", "EVI", "NDWI", "MSAVI", "PSRI"] as IndexType[]).map((indexType) => (
+                {INDEX_TYPES.map((indexType) => (
                   <button
                     key={indexType}
                     onClick={() => {
@@ -481,15 +748,240 @@ export default function ImagenesPage() {
                   >
                     <div className="font-medium">{indexType}</div>
                     <div className="text-sm text-[#898989] mt-1">
-                      {indexType === "NDVI" && "Ideal para salud general y cobertura vegetal"}
-                      {indexType === "NDRE" && "Mejor para contenido de clorofila y nutrición"}
-                      {indexType === "EVI" && "Más sensible en áreas con alta biomasa"}
-                      {indexType === "NDWI" && "Estrés hídrico y problemas de riego"}
-                      {indexType === "MSAVI" && "Emergencia y establecimiento temprano"}
-                      {indexType === "PSRI" && "Senescencia y presión de enfermedades"}
+                      {INDEX_REGISTRY[indexType].description}
                     </div>
                   </button>
                 ))}
+                <div className="flex items-center justify-between gap-3 pt-2">
+                  <label htmlFor="savi-l" className="text-sm text-[#898989]">
+                    Factor de suelo (L) para SAVI
+                  </label>
+                  <select
+                    id="savi-l"
+                    value={saviL}
+                    onChange={(e) => setSaviL(Number(e.target.value))}
+                    className="px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+                  >
+                    <option value={0.25}>0.25 - Cobertura densa</option>
+                    <option value={0.5}>0.5 - Intermedia</option>
+                    <option value={1}>1 - Suelo expuesto</option>
+                  </select>
+                </div>
+                <p className="text-sm font-medium text-[#242424] pt-2">Radar (funciona con nubes)</p>
+                {RADAR_INDEX_TYPES.map((indexType) => (
+                  <button
+                    key={indexType}
+                    onClick={() => {
+                      // Radar has its own scenes and no composites
+                      setSelectedIndexType(indexType);
+                      setSelectedSceneId(null);
+                      setCompositeMode(null);
+                      loadAnalysis(selectedAreaId!, coordinates, indexType, null, null);
+                      setShowIndexPanel(false);
+                    }}
+                    className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
+                      selectedIndexType === indexType
+                        ? "border-[#5db815] bg-[#5db815]/10 text-[#5db815] font-medium"
+                        : "border-gray-200 hover:border-gray-300 text-[#242424]"
+                    }`}
+                  >
+                    <div className="font-medium">{indexType}</div>
+                    <div className="text-sm text-[#898989] mt-1">
+                      {RADAR_INDEX_REGISTRY[indexType].description}
+                    </div>
+                  </button>
+                ))}
+                <p className="text-sm font-medium text-[#242424] pt-2">Temperatura y agua (Landsat, 30 m)</p>
+                {THERMAL_LAYER_TYPES.map((layerType) => (
+                  <button
+                    key={layerType}
+                    onClick={() => {
+                      // Thermal layers come from single Landsat scenes, without composites
+                      setSelectedIndexType(layerType);
+                      setSelectedSceneId(null);
+                      setCompositeMode(null);
+                      loadAnalysis(selectedAreaId!, coordinates, layerType, null, null);
+                      setShowIndexPanel(false);
+                    }}
+                    className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
+                      selectedIndexType === layerType
+                        ? "border-[#5db815] bg-[#5db815]/10 text-[#5db815] font-medium"
+                        : "border-gray-200 hover:border-gray-300 text-[#242424]"
+                    }`}
+                  >
+                    <div className="font-medium">
+                      {layerType} ({THERMAL_LAYER_REGISTRY[layerType].unit})
+                    </div>
+                    <div className="text-sm text-[#898989] mt-1">
+                      {THERMAL_LAYER_REGISTRY[layerType].description}
+                    </div>
+                  </button>
+                ))}
+                <CustomIndexManager
+                  selectedIndex={selectedIndexType}
+                  onSelect={(indexId) => {
+                    setSelectedIndexType(indexId);
+                    loadAnalysis(selectedAreaId!, coordinates, indexId);
+                    setShowIndexPanel(false);
+                  }}
+                />
+              </div>
+            )}
+          </Card>
+        )}
+
+        {/* Trend: index time series per acquisition, with last season overlaid */}
+        {selectedImageData && (
+          <Card>
+            <button
+              onClick={() => setShowTrendPanel(!showTrendPanel)}
+              className="w-full flex items-center justify-between text-left"
+            >
+              <span className="font-medium text-[#242424]">Tendencia</span>
+              <svg
+                className={`w-5 h-5 text-[#898989] transition-transform ${showTrendPanel ? "rotate-180" : ""}`}
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+            {showTrendPanel && user && coordinates.length >= 3 && (
+              <div className="mt-4">
+                <TrendChart
+                  userId={user.uid}
+                  areaId={selectedAreaId!}
+                  coordinates={coordinates}
+                  initialIndexType={isIndexType(selectedIndexType) ? selectedIndexType : "NDVI"}
+                  cloudMask={cloudMask}
+                  indexParams={{ SAVI: { L: saviL } }}
+                  selectedSceneId={selectedImageData.sceneId}
+                  onSelectScene={(sceneId, indexType, source) => handleSelectTrendScene(sceneId, indexType, source, coordinates)}
+                />
+              </div>
+            )}
+          </Card>
+        )}
+
+        {/* Change detection: difference map between two dates (built-in indices only) */}
+        {selectedImageData && isIndexType(selectedIndexType) && (
+          <Card>
+            <button
+              onClick={() => setShowChangePanel(!showChangePanel)}
+              className="w-full flex items-center justify-between text-left"
+            >
+              <span className="font-medium text-[#242424]">Comparar fechas</span>
+              <svg
+                className={`w-5 h-5 text-[#898989] transition-transform ${showChangePanel ? "rotate-180" : ""}`}
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+            {showChangePanel && coordinates.length >= 3 && (
+              <div className="mt-4">
+                <ChangeComparison
+                  key={`${scenes[0]?.sceneId}-${scenes.length}`}
+                  coordinates={coordinates}
+                  scenes={scenes}
+                  indexType={selectedIndexType}
+                  cloudMask={cloudMask}
+                  indexParams={selectedIndexType === "SAVI" ? { SAVI: { L: saviL } } : undefined}
+                />
+              </div>
+            )}
+          </Card>
+        )}
+
+        {/* Management zones: split the field by productivity for variable-rate application */}
+        {selectedImageData && (
+          <Card>
+            <button
+              onClick={() => setShowZonePanel(!showZonePanel)}
+              className="w-full flex items-center justify-between text-left"
+            >
+              <span className="font-medium text-[#242424]">Zonas de manejo</span>
+              <svg
+                className={`w-5 h-5 text-[#898989] transition-transform ${showZonePanel ? "rotate-180" : ""}`}
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+            {showZonePanel && coordinates.length >= 3 && (
+              <div className="mt-4 space-y-4">
+                <p className="text-sm text-[#898989]">
+                  Divide la parcela en zonas según {selectedImageData.indexName || selectedImageData.indexType}. Usa un mosaico del periodo para zonas basadas en varias fechas.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                  <div>
+                    <label className="block text-sm font-medium text-[#242424] mb-1">Número de zonas</label>
+                    <select
+                      value={zoneCount}
+                      onChange={(e) => setZoneCount(Number(e.target.value))}
+                      className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+                    >
+                      {[2, 3, 4, 5, 6, 7].map((count) => (
+                        <option key={count} value={count}>
+                          {count}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-[#242424] mb-1">Método</label>
+                    <select
+                      value={zoneMethod}
+                      onChange={(e) => setZoneMethod(e.target.value as ZoneMethod)}
+                      className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+                    >
+                      {(["kmeans", "quantile"] as ZoneMethod[]).map((method) => (
+                        <option key={method} value={method}>
+                          {getZoneMethodLabel(method)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    onClick={() =>
+                      loadAnalysis(selectedAreaId!, coordinates, selectedIndexType, selectedSceneId, compositeMode, {
+                        count: zoneCount,
+                        method: zoneMethod,
+                      })
+                    }
+                    disabled={loading}
+                    className="bg-[#5db815] text-white px-6 py-2.5 rounded-lg font-medium hover:bg-[#4a9a11] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {loading ? "Generando..." : "Generar zonas"}
+                  </button>
+                </div>
+                {selectedImageData.zones && selectedImageData.zones.length > 0 && (
+                  <div className="space-y-2">
+                    {selectedImageData.zones.map((zone) => (
+                      <div key={zone.zone} className="flex items-center justify-between px-4 py-3 rounded-lg border border-gray-200">
+                        <div className="flex items-center gap-3">
+                          <span
+                            className="w-4 h-4 rounded"
+                            style={{ backgroundColor: getZoneColor(zone.zone, selectedImageData.zones!.length) }}
+                          />
+                          <span className="font-medium text-[#242424]">Zona {zone.zone}</span>
+                        </div>
+                        <div className="text-sm text-[#898989]">
+                          {zone.areaHectares.toFixed(2)} ha · Promedio {zone.meanValue.toFixed(3)}
+                        </div>
+                      </div>
+                    ))}
+                    <p className="text-xs text-[#898989]">
+                      La zona 1 tiene el valor más bajo del índice. Abre el mapa para ver su ubicación.
+                    </p>
+                    <PrescriptionExport areaId={selectedAreaId!} zones={selectedImageData.zones} />
+                  </div>
+                )}
               </div>
             )}
           </Card>
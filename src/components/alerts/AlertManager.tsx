@@ -0,0 +1,292 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { getUserAreas } from "@/lib/firestore/areas";
+import {
+  getUserAlertRules,
+  getUserAlertEvents,
+  createAlertRule,
+  setAlertRuleEnabled,
+  deleteAlertRule,
+} from "@/lib/firestore/alerts";
+import { INDEX_TYPES } from "@/lib/indices/registry";
+import { Area } from "@/types/area";
+import { AlertCondition, AlertEvent, AlertRule } from "@/types/alert";
+import { DeliveryMethod, IndexType } from "@/types/report";
+
+const inputClassName =
+  "w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]";
+
+/**
+ * Describe an alert rule's condition in plain language
+ */
+function describeRule(rule: AlertRule): string {
+  return rule.condition === "mean_drop"
+    ? `${rule.indexType} promedio baja más de ${rule.dropPercentage}% respecto a la imagen anterior`
+    : `Más de ${rule.minHectares} ha con ${rule.indexType} menor a ${rule.valueThreshold}`;
+}
+
+/**
+ * Alert rules per area (sharp index drops) and the history of triggered alerts
+ */
+export default function AlertManager() {
+  const { user } = useAuth();
+  const [areas, setAreas] = useState<Area[]>([]);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [areaId, setAreaId] = useState("");
+  const [indexType, setIndexType] = useState<IndexType>("NDVI");
+  const [condition, setCondition] = useState<AlertCondition>("mean_drop");
+  const [dropPercentage, setDropPercentage] = useState<number>(15);
+  const [valueThreshold, setValueThreshold] = useState<number>(0.3);
+  const [minHectares, setMinHectares] = useState<number>(1);
+  const [deliveryMethod, setDeliveryMethod] = useState<DeliveryMethod>("email");
+  const [email, setEmail] = useState(user?.email || "");
+  const [phoneNumber, setPhoneNumber] = useState("");
+
+  const loadAlerts = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [userAreas, userRules, userEvents] = await Promise.all([
+        getUserAreas(user.uid),
+        getUserAlertRules(user.uid),
+        getUserAlertEvents(user.uid),
+      ]);
+      setAreas(userAreas);
+      setRules(userRules);
+      setEvents(userEvents);
+    } catch (error) {
+      console.error("Error loading alerts:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  const getAreaName = (id: string) => areas.find((area) => area.id === id)?.name || "Parcela eliminada";
+
+  const handleCreate = async () => {
+    if (!user) return;
+    if (!areaId) {
+      alert("Selecciona una parcela.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createAlertRule(user.uid, {
+        areaId,
+        indexType,
+        condition,
+        dropPercentage: condition === "mean_drop" ? dropPercentage : undefined,
+        valueThreshold: condition === "area_below" ? valueThreshold : undefined,
+        minHectares: condition === "area_below" ? minHectares : undefined,
+        deliveryMethod,
+        email: deliveryMethod === "email" ? email : undefined,
+        phoneNumber: deliveryMethod === "whatsapp" ? phoneNumber : undefined,
+      });
+      setShowForm(false);
+      await loadAlerts();
+    } catch (error: any) {
+      console.error("Error creating alert rule:", error);
+      alert(error.message || "Error al crear la alerta.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    if (!rule.id) return;
+    await setAlertRuleEnabled(rule.id, !rule.enabled);
+    await loadAlerts();
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    if (confirm("¿Estás seguro de eliminar esta alerta?")) {
+      await deleteAlertRule(ruleId);
+      await loadAlerts();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-[#242424]">Alertas</h2>
+          <p className="text-sm text-[#898989]">
+            Te avisamos cuando llega una imagen nueva y el índice de una parcela cae bruscamente
+          </p>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="text-[#5db815] font-medium hover:text-[#4a9a11] transition-colors"
+          >
+            Nueva alerta
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="space-y-3 p-4 border border-gray-200 rounded-lg">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-[#242424] mb-1">Parcela</label>
+              <select value={areaId} onChange={(e) => setAreaId(e.target.value)} className={inputClassName}>
+                <option value="">Selecciona una parcela</option>
+                {areas.map((area) => (
+                  <option key={area.id} value={area.id}>
+                    {area.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-[#242424] mb-1">Índice</label>
+              <select value={indexType} onChange={(e) => setIndexType(e.target.value as IndexType)} className={inputClassName}>
+                {INDEX_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-[#242424] mb-1">Condición</label>
+            <select value={condition} onChange={(e) => setCondition(e.target.value as AlertCondition)} className={inputClassName}>
+              <option value="mean_drop">El promedio baja respecto a la imagen anterior</option>
+              <option value="area_below">Superficie por debajo de un valor crítico</option>
+            </select>
+          </div>
+          {condition === "mean_drop" ? (
+            <div>
+              <label className="block text-sm font-medium text-[#242424] mb-1">Caída mínima (%)</label>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={dropPercentage}
+                onChange={(e) => setDropPercentage(Number(e.target.value))}
+                className={inputClassName}
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-[#242424] mb-1">Valor crítico del índice</label>
+                <input
+                  type="number"
+                  step="0.05"
+                  value={valueThreshold}
+                  onChange={(e) => setValueThreshold(Number(e.target.value))}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-[#242424] mb-1">Hectáreas mínimas</label>
+                <input
+                  type="number"
+                  min={0.1}
+                  step="0.1"
+                  value={minHectares}
+                  onChange={(e) => setMinHectares(Number(e.target.value))}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-[#242424] mb-1">Enviar por</label>
+              <select
+                value={deliveryMethod}
+                onChange={(e) => setDeliveryMethod(e.target.value as DeliveryMethod)}
+                className={inputClassName}
+              >
+                <option value="email">Correo</option>
+                <option value="whatsapp">WhatsApp</option>
+              </select>
+            </div>
+            {deliveryMethod === "email" ? (
+              <div>
+                <label className="block text-sm font-medium text-[#242424] mb-1">Correo</label>
+                <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClassName} />
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-[#242424] mb-1">WhatsApp</label>
+                <input
+                  type="tel"
+                  value={phoneNumber}
+                  onChange={(e) => setPhoneNumber(e.target.value)}
+                  placeholder="52 33 1234 5678"
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end gap-3">
+            <button onClick={() => setShowForm(false)} className="text-[#898989] hover:text-[#242424] px-4 py-2">
+              Cancelar
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={saving}
+              className="bg-[#5db815] text-white px-6 py-2 rounded-lg font-medium hover:bg-[#4a9a11] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Guardando..." : "Crear alerta"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        !showForm && <p className="text-sm text-[#898989]">No tienes alertas configuradas.</p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between gap-3 px-4 py-3 rounded-lg border border-gray-200">
+              <div>
+                <div className="font-medium text-[#242424]">{getAreaName(rule.areaId)}</div>
+                <div className="text-sm text-[#898989]">{describeRule(rule)}</div>
+                {rule.lastTriggeredAt && (
+                  <div className="text-xs text-[#898989]">
+                    Última alerta: {rule.lastTriggeredAt.toLocaleDateString("es-MX")}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-3 text-sm">
+                <button onClick={() => handleToggle(rule)} className="text-[#898989] hover:text-[#242424]">
+                  {rule.enabled ? "Pausar" : "Activar"}
+                </button>
+                <button onClick={() => rule.id && handleDelete(rule.id)} className="text-red-600 hover:text-red-700">
+                  Eliminar
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {events.length > 0 && (
+        <div className="space-y-2 pt-2">
+          <p className="text-sm font-medium text-[#242424]">Historial de alertas</p>
+          {events.map((event) => (
+            <div key={event.id} className="px-4 py-3 rounded-lg bg-gray-50 text-sm">
+              <div className="text-[#242424]">{event.message}</div>
+              <div className="text-xs text-[#898989] mt-1">
+                {event.createdAt?.toLocaleDateString("es-MX")} · {event.deliveryMethod === "email" ? "Correo" : "WhatsApp"}
+                {event.delivered ? "" : " · No se pudo enviar"}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
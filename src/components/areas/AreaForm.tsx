@@ -8,6 +8,7 @@ interface AreaFormProps {
   onCancel: () => void;
   initialData?: Area;
   coordinates?: { lat: number; lng: number }[];
+  defaultCropType?: string; // Crop declared in the user's plan, suggested for new areas
 }
 
 export default function AreaForm({
@@ -15,8 +16,12 @@ export default function AreaForm({
   onCancel,
   initialData,
   coordinates,
+  defaultCropType,
 }: AreaFormProps) {
   const [name, setName] = useState(initialData?.name || "");
+  const [cropType, setCropType] = useState(initialData ? initialData.cropType || "" : defaultCropType || "");
+  const [sowingDate, setSowingDate] = useState(initialData?.sowingDate || "");
+  const [expectedHarvestDate, setExpectedHarvestDate] = useState(initialData?.expectedHarvestDate || "");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
 
@@ -34,6 +39,11 @@ export default function AreaForm({
       return;
     }
 
+    if (sowingDate && expectedHarvestDate && expectedHarvestDate <= sowingDate) {
+      setError("La cosecha esperada debe ser posterior a la fecha de siembra");
+      return;
+    }
+
     const areaCoordinates = coordinates || initialData?.coordinates || [];
 
     if (areaCoordinates.length < 3) {
@@ -69,6 +79,9 @@ export default function AreaForm({
       await onSubmit({
         name: name.trim(),
         coordinates: normalizedCoordinates,
+        cropType: cropType.trim() || undefined,
+        sowingDate: sowingDate || undefined,
+        expectedHarvestDate: expectedHarvestDate || undefined,
       });
       
       // Reset form and close after successful save
@@ -106,6 +119,51 @@ export default function AreaForm({
         />
       </div>
 
+      <div>
+        <label htmlFor="cropType" className="block text-sm font-medium text-[#242424] mb-1">
+          Cultivo
+        </label>
+        <input
+          id="cropType"
+          type="text"
+          value={cropType}
+          onChange={(e) => setCropType(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-[#5db815] focus:border-[#5db815] bg-gray-50 text-[#242424] placeholder-gray-400"
+          placeholder="Ej: Maíz"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="sowingDate" className="block text-sm font-medium text-[#242424] mb-1">
+            Fecha de siembra
+          </label>
+          <input
+            id="sowingDate"
+            type="date"
+            value={sowingDate}
+            onChange={(e) => setSowingDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-[#5db815] focus:border-[#5db815] bg-gray-50 text-[#242424]"
+          />
+        </div>
+        <div>
+          <label htmlFor="expectedHarvestDate" className="block text-sm font-medium text-[#242424] mb-1">
+            Cosecha esperada
+          </label>
+          <input
+            id="expectedHarvestDate"
+            type="date"
+            value={expectedHarvestDate}
+            min={sowingDate || undefined}
+            onChange={(e) => setExpectedHarvestDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-[#5db815] focus:border-[#5db815] bg-gray-50 text-[#242424]"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-[#898989]">
+        Con la fecha de siembra, los reportes indican la etapa del cultivo y cuándo alcanzó su pico vegetativo.
+      </p>
+
       <div className="flex space-x-2">
         <button
           type="submit"
@@ -45,6 +45,12 @@ export default function AreaList({
               <p className="text-sm text-[#898989]">
                 {area.coordinates?.length || 0} puntos
               </p>
+              {(area.cropType || area.sowingDate) && (
+                <p className="text-xs text-[#898989]">
+                  {area.cropType || "Cultivo"}
+                  {area.sowingDate && ` · siembra ${new Date(`${area.sowingDate}T00:00:00`).toLocaleDateString("es-MX")}`}
+                </p>
+              )}
               {area.coordinates && area.coordinates.length >= 3 && (() => {
                 // Normalize coordinates to handle both GeoPoint and plain object formats
                 const normalizedCoords = area.coordinates.map((coord: any) => ({
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { getUserAreas, createArea, updateArea, deleteArea } from "@/lib/firestore/areas";
+import { getUserPlan } from "@/lib/firestore/plans";
 import { Area } from "@/types/area";
 import AreaForm from "./AreaForm";
 import AreaList from "./AreaList";
@@ -30,6 +31,7 @@ export default function AreaManager({
   const [formCoordinates, setFormCoordinates] = useState<{ lat: number; lng: number }[] | undefined>(
     drawnCoordinates
   );
+  const [planCropType, setPlanCropType] = useState<string | undefined>();
 
   const loadAreas = useCallback(async () => {
     if (!user) {
@@ -68,6 +70,14 @@ export default function AreaManager({
     loadAreas();
   }, [loadAreas]);
 
+  // The crop declared when signing up for a plan is the default crop of new areas
+  useEffect(() => {
+    if (!user) return;
+    getUserPlan(user.uid)
+      .then((plan) => setPlanCropType(plan?.cropType))
+      .catch((error) => console.error("Error loading plan:", error));
+  }, [user]);
+
   useEffect(() => {
     if (drawnCoordinates) {
       setFormCoordinates(drawnCoordinates);
@@ -180,6 +190,7 @@ export default function AreaManager({
           }}
           initialData={editingArea || undefined}
           coordinates={formCoordinates}
+          defaultCropType={planCropType}
         />
       ) : (
         <AreaList
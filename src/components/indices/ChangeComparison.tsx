@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { CloudMaskMode, IndexType } from "@/types/report";
+import { ChangeDetectionResponse, SatelliteScene } from "@/types/satellite";
+
+interface ChangeComparisonProps {
+  coordinates: { lat: number; lng: number }[];
+  scenes: SatelliteScene[];
+  indexType: IndexType;
+  cloudMask: CloudMaskMode;
+  indexParams?: Partial<Record<IndexType, Record<string, number>>>;
+}
+
+const formatSceneDate = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("es-MX");
+
+/**
+ * Compare an index between two scenes: difference map, change statistics and declined area
+ */
+export default function ChangeComparison({ coordinates, scenes, indexType, cloudMask, indexParams }: ChangeComparisonProps) {
+  // Scenes come newest first, so default to comparing the latest against the oldest
+  const [beforeSceneId, setBeforeSceneId] = useState<string>(scenes[scenes.length - 1]?.sceneId || "");
+  const [afterSceneId, setAfterSceneId] = useState<string>(scenes[0]?.sceneId || "");
+  const [declineThreshold, setDeclineThreshold] = useState<number>(0.1);
+  const [result, setResult] = useState<ChangeDetectionResponse | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  if (scenes.length < 2) {
+    return (
+      <p className="text-sm text-[#898989]">
+        Busca las imágenes de un periodo en &quot;Elegir fecha de imagen&quot; para comparar dos fechas.
+      </p>
+    );
+  }
+
+  const handleCompare = async () => {
+    if (!beforeSceneId || !afterSceneId || beforeSceneId === afterSceneId) {
+      alert("Elige dos fechas distintas.");
+      return;
+    }
+
+    setComparing(true);
+    try {
+      const response = await fetch("/api/satellite/change", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          coordinates,
+          indexType,
+          indexParams,
+          beforeSceneId,
+          afterSceneId,
+          cloudMask,
+          declineThreshold,
+        }),
+      });
+
+      const responseData = await response.json();
+
+      if (!response.ok) {
+        throw new Error(responseData.error || `Error al comparar fechas (${response.status})`);
+      }
+
+      setResult(responseData);
+    } catch (error: any) {
+      console.error("Error comparing scenes:", error);
+      alert(error.message || "Error al comparar las fechas.");
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  // Scene ids start with the acquisition date, so they sort chronologically
+  const sortedScenes = [...scenes].sort((a, b) => a.sceneId.localeCompare(b.sceneId));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+        <div>
+          <label className="block text-sm font-medium text-[#242424] mb-1">Antes</label>
+          <select
+            value={beforeSceneId}
+            onChange={(e) => setBeforeSceneId(e.target.value)}
+            className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+          >
+            {sortedScenes.map((scene) => (
+              <option key={scene.sceneId} value={scene.sceneId}>
+                {formatSceneDate(scene.date)} · {scene.tileId}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#242424] mb-1">Después</label>
+          <select
+            value={afterSceneId}
+            onChange={(e) => setAfterSceneId(e.target.value)}
+            className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+          >
+            {sortedScenes.map((scene) => (
+              <option key={scene.sceneId} value={scene.sceneId}>
+                {formatSceneDate(scene.date)} · {scene.tileId}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#242424] mb-1">Umbral de caída</label>
+          <select
+            value={declineThreshold}
+            onChange={(e) => setDeclineThreshold(Number(e.target.value))}
+            className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+          >
+            {[0.05, 0.1, 0.15, 0.2].map((threshold) => (
+              <option key={threshold} value={threshold}>
+                {threshold}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <button
+        onClick={handleCompare}
+        disabled={comparing}
+        className="w-full bg-[#5db815] text-white px-6 py-2.5 rounded-lg font-medium hover:bg-[#4a9a11] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {comparing ? "Comparando..." : "Comparar fechas"}
+      </button>
+
+      {result && (
+        <div className="space-y-3">
+          <div className="text-sm text-[#898989] space-y-1">
+            <p>
+              {result.indexType} del {formatSceneDate(result.beforeDate)} al {formatSceneDate(result.afterDate)}
+            </p>
+            <p>
+              Cambio promedio:{" "}
+              <span className={`font-medium ${result.stats.mean < 0 ? "text-red-600" : "text-[#5db815]"}`}>
+                {result.stats.mean > 0 ? "+" : ""}
+                {result.stats.mean.toFixed(3)}
+              </span>
+            </p>
+            <p>
+              Superficie con caída mayor a {result.declineThreshold}: {result.declinedHectares.toFixed(2)} ha (
+              {result.declinedPercentage.toFixed(1)}% de la parcela)
+            </p>
+            {result.stats.percentiles && (
+              <p>
+                Percentiles del cambio: P5 {result.stats.percentiles.p5.toFixed(3)} · Mediana{" "}
+                {result.stats.percentiles.p50.toFixed(3)} · P95 {result.stats.percentiles.p95.toFixed(3)}
+              </p>
+            )}
+          </div>
+          {result.imageUrl && (
+            // Earth Engine thumbnail (1200 px on its longest side), served as is
+            <Image
+              src={result.imageUrl}
+              alt="Mapa de cambios"
+              width={1200}
+              height={1200}
+              unoptimized
+              className="w-full h-auto rounded-lg border border-gray-200"
+            />
+          )}
+          <div>
+            <div
+              className="h-3 rounded"
+              style={{ background: `linear-gradient(to right, ${result.palette.join(", ")})` }}
+            />
+            <div className="flex justify-between text-xs text-[#898989] mt-1">
+              <span>Caída ({result.stretch.min.toFixed(2)})</span>
+              <span>Sin cambio</span>
+              <span>Mejora (+{result.stretch.max.toFixed(2)})</span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
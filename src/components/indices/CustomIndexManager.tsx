@@ -0,0 +1,175 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { getUserPlan } from "@/lib/firestore/plans";
+import { getUserCustomIndices, createCustomIndex, deleteCustomIndex } from "@/lib/firestore/customIndices";
+import { validateIndexExpression } from "@/lib/indices/expression";
+import { toCustomIndexId } from "@/lib/indices/registry";
+import { CustomIndex } from "@/types/customIndex";
+import { AnalysisIndex, CustomIndexId } from "@/types/report";
+
+interface CustomIndexManagerProps {
+  selectedIndex: AnalysisIndex;
+  onSelect: (indexId: CustomIndexId) => void;
+}
+
+/**
+ * Lists the user's custom band-math indices and lets enterprise users create new ones
+ */
+export default function CustomIndexManager({ selectedIndex, onSelect }: CustomIndexManagerProps) {
+  const { user } = useAuth();
+  const [customIndices, setCustomIndices] = useState<CustomIndex[]>([]);
+  const [isEnterprise, setIsEnterprise] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState("");
+  const [expression, setExpression] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadCustomIndices = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [plan, indices] = await Promise.all([
+        getUserPlan(user.uid),
+        getUserCustomIndices(user.uid),
+      ]);
+      setIsEnterprise(plan?.planType === "enterprise");
+      setCustomIndices(indices);
+    } catch (error) {
+      console.error("Error loading custom indices:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadCustomIndices();
+  }, [loadCustomIndices]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const expressionError = validateIndexExpression(expression);
+    if (expressionError) {
+      setError(expressionError);
+      return;
+    }
+
+    setSaving(true);
+    setError("");
+    try {
+      await createCustomIndex(user.uid, { name, expression });
+      setName("");
+      setExpression("");
+      setShowForm(false);
+      await loadCustomIndices();
+    } catch (error: any) {
+      setError(error.message || "Error al guardar el índice");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (customIndex: CustomIndex) => {
+    if (!customIndex.id || !confirm(`¿Eliminar el índice "${customIndex.name}"?`)) return;
+    try {
+      await deleteCustomIndex(customIndex.id);
+      await loadCustomIndices();
+    } catch (error: any) {
+      alert(error.message || "Error al eliminar el índice");
+    }
+  };
+
+  if (!isEnterprise && customIndices.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="pt-4 mt-2 border-t border-gray-200 space-y-2">
+      <p className="text-sm font-medium text-[#242424]">Índices personalizados</p>
+      {customIndices.map((customIndex) => {
+        const indexId = toCustomIndexId(customIndex.id!);
+        return (
+          <div key={customIndex.id} className="flex items-stretch gap-2">
+            <button
+              onClick={() => onSelect(indexId)}
+              className={`flex-1 text-left px-4 py-3 rounded-lg border transition-colors ${
+                selectedIndex === indexId
+                  ? "border-[#5db815] bg-[#5db815]/10 text-[#5db815] font-medium"
+                  : "border-gray-200 hover:border-gray-300 text-[#242424]"
+              }`}
+            >
+              <div className="font-medium">{customIndex.name}</div>
+              <div className="text-sm text-[#898989] mt-1 font-mono">{customIndex.expression}</div>
+            </button>
+            <button
+              onClick={() => handleDelete(customIndex)}
+              className="px-3 text-sm text-[#898989] hover:text-red-600"
+              aria-label={`Eliminar ${customIndex.name}`}
+            >
+              Eliminar
+            </button>
+          </div>
+        );
+      })}
+
+      {isEnterprise && !showForm && (
+        <button
+          onClick={() => setShowForm(true)}
+          className="text-sm font-medium text-[#5db815] hover:text-[#4a9a11]"
+        >
+          + Crear índice personalizado
+        </button>
+      )}
+
+      {isEnterprise && showForm && (
+        <form onSubmit={handleCreate} className="space-y-3 bg-gray-50 rounded-lg p-4">
+          <div>
+            <label className="block text-sm font-medium text-[#242424] mb-1">Nombre</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-[#242424] mb-1">Fórmula</label>
+            <input
+              type="text"
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              placeholder="(B8 - B11) / (B8 + B11)"
+              required
+              className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg font-mono focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+            />
+            <p className="text-xs text-[#898989] mt-1">
+              Usa bandas de Sentinel-2 (B1-B12, B8A), números, + - * / ** y sqrt, abs, log, exp.
+            </p>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false);
+                setError("");
+              }}
+              className="text-[#898989] hover:text-[#242424] px-4 py-2"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-[#5db815] text-white px-4 py-2 rounded-lg font-medium hover:bg-[#4a9a11] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Guardando..." : "Guardar"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
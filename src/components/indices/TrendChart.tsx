@@ -0,0 +1,392 @@
+"use client";
+
+import { useState } from "react";
+import { INDEX_TYPES, isIndexSupported } from "@/lib/indices/registry";
+import { getAreaObservations } from "@/lib/firestore/observations";
+import { CloudMaskMode, IndexParams, IndexType, OpticalSource } from "@/types/report";
+import { TimeSeriesPoint, TimeSeriesResponse } from "@/types/satellite";
+import { Observation } from "@/types/observation";
+
+interface TrendChartProps {
+  userId: string;
+  areaId: string;
+  coordinates: { lat: number; lng: number }[];
+  initialIndexType: IndexType;
+  cloudMask: CloudMaskMode;
+  indexParams?: IndexParams;
+  selectedSceneId?: string | null;
+  onSelectScene: (sceneId: string, indexType: IndexType, source: OpticalSource) => void;
+}
+
+interface TrendSeries {
+  indexType: IndexType;
+  points: TimeSeriesPoint[]; // Current season
+  lastSeason: TimeSeriesPoint[]; // Same window one year earlier
+}
+
+const SERIES_COLORS = ["#5db815", "#2563eb", "#f59e0b", "#dc2626", "#7c3aed", "#0891b2"];
+const MIN_VALID_FRACTION = 0.5; // Acquisitions mostly covered by clouds skew the mean
+const PERIOD_OPTIONS = [3, 6, 12]; // Months
+const LANDSAT_PERIOD_OPTIONS = [12, 24, 60]; // Landsat 8/9 archive reaches back to 2013
+const MAX_HISTORY_OBSERVATIONS = 200; // Per index; reports run at most daily
+
+// Chart geometry (SVG user units)
+const WIDTH = 720;
+const HEIGHT = 280;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 48 };
+
+/**
+ * Format a Date as YYYY-MM-DD in local time
+ */
+const toDateValue = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const formatPointDate = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("es-MX");
+
+/**
+ * Time of an acquisition on the chart axis; last-season points move one year
+ * forward so both seasons line up at the same day of the year
+ */
+const getChartTime = (date: string, yearOffset: number): number => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setFullYear(day.getFullYear() + yearOffset);
+  return day.getTime();
+};
+
+/**
+ * Stored report observation as a chart point; composites have no single scene to load
+ */
+const toHistoryPoint = (observation: Observation): TimeSeriesPoint => ({
+  sceneId: "",
+  date: observation.imageDate,
+  timestamp: new Date(`${observation.imageDate}T00:00:00Z`).getTime(),
+  minValue: observation.stats.min,
+  maxValue: observation.stats.max,
+  meanValue: observation.stats.mean,
+  validPixelFraction: 1, // Reports only keep results with clear pixels
+});
+
+const usablePoints = (points: TimeSeriesPoint[]): TimeSeriesPoint[] =>
+  points.filter((point) => point.meanValue !== null && point.validPixelFraction >= MIN_VALID_FRACTION);
+
+/**
+ * Interactive index time series of an area: one line per index, a dashed
+ * last-season overlay, and clicking an acquisition loads its map
+ * By default it plots the observations stored by reports, read from Firestore; every
+ * acquisition of the period is only computed in Earth Engine when asked for
+ */
+export default function TrendChart({
+  userId,
+  areaId,
+  coordinates,
+  initialIndexType,
+  cloudMask,
+  indexParams,
+  selectedSceneId,
+  onSelectScene,
+}: TrendChartProps) {
+  const [indexTypes, setIndexTypes] = useState<IndexType[]>([initialIndexType]);
+  const [source, setSource] = useState<OpticalSource>("sentinel2");
+  const [fromHistory, setFromHistory] = useState(true);
+  const [months, setMonths] = useState<number>(6);
+  const [showLastSeason, setShowLastSeason] = useState(true);
+  const [series, setSeries] = useState<TrendSeries[]>([]);
+  const [range, setRange] = useState<{ start: number; end: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const periodOptions = source === "landsat" ? LANDSAT_PERIOD_OPTIONS : PERIOD_OPTIONS;
+
+  const handleSourceChange = (nextSource: OpticalSource) => {
+    setSource(nextSource);
+    setMonths(nextSource === "landsat" ? 24 : 6);
+    // Red-edge indices have no Landsat equivalent
+    setIndexTypes((current) => current.filter((type) => isIndexSupported(type, nextSource)));
+    setSeries([]);
+    setRange(null);
+  };
+
+  const toggleIndex = (indexType: IndexType) => {
+    setIndexTypes((current) =>
+      current.includes(indexType) ? current.filter((type) => type !== indexType) : [...current, indexType]
+    );
+  };
+
+  const fetchHistory = async (indexType: IndexType, startDate: string, endDate: string): Promise<TimeSeriesPoint[]> => {
+    const observations = await getAreaObservations(userId, areaId, indexType, MAX_HISTORY_OBSERVATIONS);
+    return observations
+      .filter(
+        (observation) =>
+          (observation.source || "sentinel2") === source &&
+          observation.imageDate >= startDate &&
+          observation.imageDate <= endDate
+      )
+      .map(toHistoryPoint)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  };
+
+  const fetchSeries = async (indexType: IndexType, startDate: string, endDate: string): Promise<TimeSeriesPoint[]> => {
+    if (fromHistory) {
+      return fetchHistory(indexType, startDate, endDate);
+    }
+
+    const response = await fetch("/api/satellite/timeseries", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        coordinates,
+        indexType,
+        startDate,
+        endDate,
+        cloudMask,
+        indexParams,
+        source,
+      }),
+    });
+
+    const responseData = await response.json();
+
+    if (!response.ok) {
+      throw new Error(responseData.error || `Error al calcular la tendencia (${response.status})`);
+    }
+
+    return (responseData as TimeSeriesResponse).points;
+  };
+
+  const handleLoad = async () => {
+    if (indexTypes.length === 0) {
+      alert("Elige al menos un índice.");
+      return;
+    }
+
+    const end = new Date();
+    const start = new Date(end);
+    start.setMonth(start.getMonth() - months);
+    const lastEnd = new Date(end);
+    lastEnd.setFullYear(lastEnd.getFullYear() - 1);
+    const lastStart = new Date(start);
+    lastStart.setFullYear(lastStart.getFullYear() - 1);
+
+    setLoading(true);
+    try {
+      const loaded = await Promise.all(
+        indexTypes.map(async (indexType) => {
+          const [points, lastSeason] = await Promise.all([
+            fetchSeries(indexType, toDateValue(start), toDateValue(end)),
+            showLastSeason ? fetchSeries(indexType, toDateValue(lastStart), toDateValue(lastEnd)) : Promise.resolve([]),
+          ]);
+          return { indexType, points: usablePoints(points), lastSeason: usablePoints(lastSeason) };
+        })
+      );
+      setSeries(loaded);
+      setRange({ start: start.getTime(), end: end.getTime() });
+    } catch (error: any) {
+      console.error("Error loading time series:", error);
+      alert(error.message || "Error al calcular la tendencia.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Shared value axis across every plotted index and season
+  const values = series.flatMap((entry) =>
+    [...entry.points, ...entry.lastSeason].map((point) => point.meanValue as number)
+  );
+  const hasData = !!range && values.length > 0;
+  const rawMin = hasData ? Math.min(...values) : 0;
+  const rawMax = hasData ? Math.max(...values) : 1;
+  const margin = (rawMax - rawMin) * 0.1 || 0.1;
+  const yMin = rawMin - margin;
+  const yMax = rawMax + margin;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (time: number) =>
+    PADDING.left + (range ? ((time - range.start) / (range.end - range.start)) * plotWidth : 0);
+  const y = (value: number) => PADDING.top + (1 - (value - yMin) / (yMax - yMin)) * plotHeight;
+
+  const yTicks = Array.from({ length: 5 }, (_, i) => yMin + ((yMax - yMin) * i) / 4);
+  const monthTicks: Date[] = [];
+  if (range) {
+    const tick = new Date(range.start);
+    tick.setDate(1);
+    tick.setMonth(tick.getMonth() + 1);
+    while (tick.getTime() <= range.end) {
+      monthTicks.push(new Date(tick));
+      tick.setMonth(tick.getMonth() + 1);
+    }
+  }
+
+  const toPath = (points: TimeSeriesPoint[], yearOffset: number) =>
+    points
+      .map((point, i) => `${i === 0 ? "M" : "L"}${x(getChartTime(point.date, yearOffset)).toFixed(1)},${y(point.meanValue as number).toFixed(1)}`)
+      .join(" ");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {INDEX_TYPES.map((indexType) => (
+          <button
+            key={indexType}
+            onClick={() => toggleIndex(indexType)}
+            disabled={!isIndexSupported(indexType, source)}
+            className={`px-3 py-1 rounded-full text-sm border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+              indexTypes.includes(indexType)
+                ? "bg-[#5db815] text-white border-[#5db815]"
+                : "bg-white text-[#242424] border-gray-300 hover:border-[#5db815]"
+            }`}
+          >
+            {indexType}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+        <div>
+          <label className="block text-sm font-medium text-[#242424] mb-1">Datos</label>
+          <select
+            value={fromHistory ? "history" : "earthEngine"}
+            onChange={(e) => {
+              setFromHistory(e.target.value === "history");
+              setSeries([]);
+              setRange(null);
+            }}
+            className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+          >
+            <option value="history">Historial de reportes</option>
+            <option value="earthEngine">Todas las imágenes</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#242424] mb-1">Satélite</label>
+          <select
+            value={source}
+            onChange={(e) => handleSourceChange(e.target.value as OpticalSource)}
+            className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+          >
+            <option value="sentinel2">Sentinel-2 (10 m)</option>
+            <option value="landsat">Landsat 8/9 (histórico desde 2013)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#242424] mb-1">Periodo</label>
+          <select
+            value={months}
+            onChange={(e) => setMonths(Number(e.target.value))}
+            className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+          >
+            {periodOptions.map((option) => (
+              <option key={option} value={option}>
+                Últimos {option} meses
+              </option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-[#242424] py-2">
+          <input
+            type="checkbox"
+            checked={showLastSeason}
+            onChange={(e) => setShowLastSeason(e.target.checked)}
+            className="accent-[#5db815]"
+          />
+          Comparar con el año anterior
+        </label>
+      </div>
+      <button
+        onClick={handleLoad}
+        disabled={loading}
+        className="w-full bg-[#5db815] text-white px-6 py-2.5 rounded-lg font-medium hover:bg-[#4a9a11] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {loading ? (fromHistory ? "Cargando..." : "Calculando...") : "Ver tendencia"}
+      </button>
+
+      {range && !hasData && (
+        <p className="text-sm text-[#898989]">
+          {fromHistory
+            ? "Los reportes aún no guardan resultados de este periodo. Elige \"Todas las imágenes\" para calcularlos."
+            : "No hay imágenes despejadas en el periodo elegido."}
+        </p>
+      )}
+
+      {hasData && (
+        <div className="space-y-2">
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            {yTicks.map((tick) => (
+              <g key={tick}>
+                <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+                <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize={11} fill="#898989">
+                  {tick.toFixed(2)}
+                </text>
+              </g>
+            ))}
+            {monthTicks.map((tick) => (
+              <text
+                key={tick.getTime()}
+                x={x(tick.getTime())}
+                y={HEIGHT - 10}
+                textAnchor="middle"
+                fontSize={11}
+                fill="#898989"
+              >
+                {tick.toLocaleDateString("es-MX", { month: "short" })}
+              </text>
+            ))}
+            {series.map((entry) => {
+              const color = SERIES_COLORS[INDEX_TYPES.indexOf(entry.indexType) % SERIES_COLORS.length];
+              return (
+                <g key={entry.indexType}>
+                  {entry.lastSeason.length > 1 && (
+                    <path d={toPath(entry.lastSeason, 1)} fill="none" stroke={color} strokeWidth={1.5} strokeDasharray="4 4" opacity={0.6} />
+                  )}
+                  {entry.points.length > 1 && (
+                    <path d={toPath(entry.points, 0)} fill="none" stroke={color} strokeWidth={2} />
+                  )}
+                  {entry.points.map((point) => {
+                    const selected = !!point.sceneId && point.sceneId === selectedSceneId;
+                    return (
+                      <circle
+                        key={point.sceneId || point.date}
+                        cx={x(getChartTime(point.date, 0))}
+                        cy={y(point.meanValue as number)}
+                        r={selected ? 6 : 4}
+                        fill={selected ? "#242424" : color}
+                        className={point.sceneId ? "cursor-pointer" : undefined}
+                        onClick={() => point.sceneId && onSelectScene(point.sceneId, entry.indexType, source)}
+                      >
+                        <title>
+                          {entry.indexType} {formatPointDate(point.date)}: {(point.meanValue as number).toFixed(3)} (
+                          {Math.round(point.validPixelFraction * 100)}% despejado)
+                        </title>
+                      </circle>
+                    );
+                  })}
+                </g>
+              );
+            })}
+          </svg>
+          <div className="flex flex-wrap gap-4 text-xs text-[#898989]">
+            {series.map((entry) => (
+              <span key={entry.indexType} className="flex items-center gap-1">
+                <span
+                  className="inline-block w-3 h-3 rounded-full"
+                  style={{ backgroundColor: SERIES_COLORS[INDEX_TYPES.indexOf(entry.indexType) % SERIES_COLORS.length] }}
+                />
+                {entry.indexType}
+              </span>
+            ))}
+            {series.some((entry) => entry.lastSeason.length > 0) && <span>Línea punteada: mismo periodo del año anterior</span>}
+          </div>
+          <p className="text-xs text-[#898989]">
+            {fromHistory
+              ? "Valores guardados por tus reportes programados."
+              : `Haz clic en un punto para ver el mapa de esa fecha. Se omiten las imágenes con menos del ${MIN_VALID_FRACTION * 100}% de la parcela despejada.`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { getAuth } from "firebase/auth";
+import { MAX_YIELD_AREAS, YIELD_INDEX_TYPES } from "@/lib/indices/registry";
+import { Area } from "@/types/area";
+import { AreaYieldPotential, YieldIndexType, YieldPotentialResponse } from "@/types/yield";
+
+interface YieldPotentialTableProps {
+  areas: Area[];
+}
+
+/**
+ * Relative yield potential ranking of the user's areas, computed on demand
+ * Each area is scored against the best area of the same crop (100); with more than
+ * MAX_YIELD_AREAS areas, the user picks which ones to compare
+ */
+export default function YieldPotentialTable({ areas }: YieldPotentialTableProps) {
+  const [indexType, setIndexType] = useState<YieldIndexType>("NDVI");
+  const [selectedIds, setSelectedIds] = useState<string[]>(() =>
+    areas.slice(0, MAX_YIELD_AREAS).map((area) => area.id!)
+  );
+  const [results, setResults] = useState<AreaYieldPotential[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const selectable = areas.length > MAX_YIELD_AREAS;
+
+  const toggleArea = (areaId: string) => {
+    setSelectedIds((current) =>
+      current.includes(areaId)
+        ? current.filter((id) => id !== areaId)
+        : current.length < MAX_YIELD_AREAS
+          ? [...current, areaId]
+          : current
+    );
+  };
+
+  const handleCalculate = async () => {
+    if (selectable && selectedIds.length === 0) {
+      setError("Elige al menos una parcela.");
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    try {
+      const token = await getAuth().currentUser?.getIdToken();
+      const areaQuery = selectable ? `&areaIds=${selectedIds.map(encodeURIComponent).join(",")}` : "";
+      const response = await fetch(`/api/areas/yield-potential?indexType=${indexType}${areaQuery}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Error al calcular el potencial (${response.status})`);
+      }
+      setResults((data as YieldPotentialResponse).areas);
+    } catch (err: any) {
+      console.error("Error calculating yield potential:", err);
+      setError(err.message || "Error al calcular el potencial de rendimiento.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString("es-MX");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-[#242424]">Potencial de rendimiento</h2>
+          <p className="text-sm text-[#898989]">
+            Compara tus parcelas del mismo cultivo según el verdor acumulado en la temporada
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={indexType}
+            onChange={(e) => setIndexType(e.target.value as YieldIndexType)}
+            className="px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+          >
+            {YIELD_INDEX_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleCalculate}
+            disabled={loading}
+            className="bg-[#5db815] text-white px-4 py-2 rounded-lg font-medium hover:bg-[#4a9a11] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? "Calculando..." : results ? "Recalcular" : "Calcular"}
+          </button>
+        </div>
+      </div>
+
+      {selectable && (
+        <div>
+          <p className="text-sm text-[#898989] mb-2">
+            Elige hasta {MAX_YIELD_AREAS} parcelas para comparar ({selectedIds.length} seleccionadas)
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {areas.map((area) => (
+              <label key={area.id} className="flex items-center gap-1 text-sm text-[#242424]">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(area.id!)}
+                  disabled={!selectedIds.includes(area.id!) && selectedIds.length >= MAX_YIELD_AREAS}
+                  onChange={() => toggleArea(area.id!)}
+                  className="accent-[#5db815]"
+                />
+                {area.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {results && results.length === 0 && <p className="text-sm text-[#898989]">No tienes parcelas para comparar.</p>}
+
+      {results && results.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="border-b border-gray-200 text-[#898989]">
+                <th className="py-2 pr-3 font-medium">Cultivo</th>
+                <th className="py-2 pr-3 font-medium">#</th>
+                <th className="py-2 pr-3 font-medium">Parcela</th>
+                <th className="py-2 pr-3 font-medium">Potencial</th>
+                <th className="py-2 pr-3 font-medium">Temporada</th>
+                <th className="py-2 font-medium">Imágenes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((result) => (
+                <tr key={result.areaId} className="border-b border-gray-100 text-[#242424]">
+                  <td className="py-2 pr-3">{result.cropType}</td>
+                  <td className="py-2 pr-3">{result.rank ?? "—"}</td>
+                  <td className="py-2 pr-3">{result.areaName}</td>
+                  <td className="py-2 pr-3">
+                    {result.score !== null ? (
+                      <div className="flex items-center gap-2">
+                        <div className="w-20 h-2 bg-gray-100 rounded">
+                          <div className="h-2 bg-[#5db815] rounded" style={{ width: `${result.score}%` }} />
+                        </div>
+                        <span>{result.score}</span>
+                      </div>
+                    ) : (
+                      <span className="text-[#898989]">Sin imágenes suficientes</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3 text-[#898989]">
+                    {formatDate(result.startDate)} – {formatDate(result.endDate)}
+                  </td>
+                  <td className="py-2 text-[#898989]">{result.observations}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-[#898989] mt-2">
+            100 = la parcela con más {indexType} acumulado de su cultivo. Es una estimación relativa, no un rendimiento en t/ha.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,9 @@
 import { useCallback, useRef, useEffect, useState } from "react";
 import { GoogleMap, useJsApiLoader, DrawingManager, Polygon } from "@react-google-maps/api";
 import { Area } from "@/types/area";
-import { SatelliteImageResponse } from "@/types/satellite";
+import { SatelliteImageResponse, ManagementZone } from "@/types/satellite";
+import { DEFAULT_CUSTOM_PALETTE, formatIndexValue, getIndexPalette, isIndexType } from "@/lib/indices/registry";
+import { getZoneColor, getZonePaths } from "@/lib/utils/zones";
 
 const libraries: ("drawing" | "places")[] = ["drawing"];
 
@@ -23,6 +25,7 @@ interface InteractiveMapProps {
   selectedAreaId?: string;
   onAreaSelect?: (areaId: string) => void;
   imageDataList?: SatelliteImageResponse[];
+  zones?: ManagementZone[];
   disableDrawing?: boolean;
 }
 
@@ -32,6 +35,7 @@ export default function InteractiveMap({
   selectedAreaId,
   onAreaSelect,
   imageDataList = [],
+  zones = [],
   disableDrawing = false,
 }: InteractiveMapProps) {
   const [map, setMap] = useState<google.maps.Map | null>(null);
@@ -688,6 +692,26 @@ export default function InteractiveMap({
           );
         })}
 
+        {/* Render management zones */}
+        {zones.map((zone) => {
+          const color = getZoneColor(zone.zone, zones.length);
+          return (
+            <Polygon
+              key={`zone-${zone.zone}`}
+              paths={getZonePaths(zone)}
+              options={{
+                fillColor: color,
+                fillOpacity: 0.6,
+                strokeWeight: 1,
+                strokeColor: color,
+                clickable: false,
+                editable: false,
+                zIndex: 3,
+              }}
+            />
+          );
+        })}
+
         {/* Render drawn polygon */}
         {drawnPolygon && (
           <Polygon
@@ -743,23 +767,21 @@ export default function InteractiveMap({
               .filter((imageData) => visibleIndices.has(imageData.indexType))
               .map((imageData) => (
                 <div key={imageData.indexType} className="border-b border-gray-200 last:border-b-0 pb-2 last:pb-0">
-                  <p className="text-xs font-semibold text-[#242424] mb-1">{imageData.indexType}</p>
+                  <p className="text-xs font-semibold text-[#242424] mb-1">{imageData.indexName || imageData.indexType}</p>
                   <div className="flex items-center space-x-2">
                     <div
-                      className={`h-3 rounded flex-1 ${
-                        imageData.indexType === "NDVI" || imageData.indexType === "NDRE" || imageData.indexType === "MSAVI"
-                          ? "bg-gradient-to-r from-red-500 via-yellow-500 to-green-500"
-                          : imageData.indexType === "NDWI"
-                          ? "bg-gradient-to-r from-amber-800 via-yellow-400 via-cyan-400 to-blue-500"
-                          : imageData.indexType === "PSRI"
-                          ? "bg-gradient-to-r from-green-500 via-yellow-400 via-orange-500 to-red-500"
-                          : "bg-gradient-to-r from-blue-500 via-cyan-500 via-yellow-500 via-orange-500 to-red-500"
-                      }`}
+                      className="h-3 rounded flex-1"
+                      style={{
+                        background: `linear-gradient(to right, ${(
+                          imageData.palette ||
+                          (isIndexType(imageData.indexType) ? getIndexPalette(imageData.indexType) : DEFAULT_CUSTOM_PALETTE)
+                        ).join(", ")})`,
+                      }}
                     ></div>
                   </div>
                   <div className="flex justify-between text-xs text-[#898989] mt-1">
-                    <span>{imageData.minValue.toFixed(3)}</span>
-                    <span>{imageData.maxValue.toFixed(3)}</span>
+                    <span>{formatIndexValue(imageData.indexType, imageData.stretch?.min ?? imageData.minValue)}</span>
+                    <span>{formatIndexValue(imageData.indexType, imageData.stretch?.max ?? imageData.maxValue)}</span>
                   </div>
                 </div>
               ))}
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { IndexType } from "@/types/report";
+import { INDEX_TYPES } from "@/lib/indices/registry";
 import { Area } from "@/types/area";
 
 interface MapControlsProps {
@@ -87,12 +88,11 @@ export default function MapControls({
           onChange={(e) => setIndexType(e.target.value as IndexType)}
           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-[#5db815] focus:border-[#5db815] bg-gray-50 text-[#242424]"
         >
-          <option value="NDVI">NDVI</option>
-          <option value="NDRE">NDRE</option>
-          <option value="EVI">EVI</option>
-          <option value="NDWI">NDWI</option>
-          <option value="MSAVI">MSAVI</option>
-          <option value="PSRI">PSRI</option>
+          {INDEX_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
         </select>
       </div>
 
@@ -6,6 +6,7 @@ import { getUserAreas } from "@/lib/firestore/areas";
 import { createReport, updateReport } from "@/lib/firestore/reports";
 import { Report, ReportFormData, IndexType, ReportFrequency, DeliveryMethod } from "@/types/report";
 import { Area } from "@/types/area";
+import { INDEX_TYPES } from "@/lib/indices/registry";
 
 interface ReportConfigProps {
   onSave: (reportId?: string) => void;
@@ -259,7 +260,7 @@ export default function ReportConfig({ onSave, initialData }: ReportConfigProps)
           Índices *
         </label>
         <div className="space-y-2">
-          {(["NDVI", "NDRE", "EVI", "NDWI", "MSAVI", "PSRI"] as IndexType[]).map((index) => (
+          {INDEX_TYPES.map((index) => (
             <label key={index} className="flex items-center space-x-2 cursor-pointer">
               <input
                 type="checkbox"
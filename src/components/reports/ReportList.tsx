@@ -4,6 +4,7 @@ import { useState } from "react";
 import { Report } from "@/types/report";
 import { updateReport, deleteReport } from "@/lib/firestore/reports";
 import { getFrequencyLabel } from "@/lib/utils/reports";
+import ReportRunHistory from "@/components/reports/ReportRunHistory";
 
 interface ReportListProps {
   reports: Report[];
@@ -13,6 +14,7 @@ interface ReportListProps {
 
 export default function ReportList({ reports, onUpdate, onEdit }: ReportListProps) {
   const [sendingReports, setSendingReports] = useState<Set<string>>(new Set());
+  const [historyReportId, setHistoryReportId] = useState<string | null>(null);
 
   const handleToggleStatus = async (report: Report) => {
     if (!report.id) return;
@@ -95,6 +97,13 @@ export default function ReportList({ reports, onUpdate, onEdit }: ReportListProp
             </span>
           </div>
 
+          {report.status === "paused" && report.pausedReason === "delivery_failures" && (
+            <p className="text-sm text-red-600 mb-2">
+              Pausado automáticamente: los últimos {report.deliveryFailures} envíos no se pudieron entregar. Revisa el{" "}
+              {report.deliveryMethod === "whatsapp" ? "número de WhatsApp" : "correo"} y vuelve a activarlo.
+            </p>
+          )}
+
           <div className="text-sm text-[#898989] space-y-1 mb-3">
             <p>
               <strong className="text-[#242424]">Áreas:</strong> {report.areaIds.length}
@@ -184,6 +193,13 @@ export default function ReportList({ reports, onUpdate, onEdit }: ReportListProp
                 Eliminar
               </button>
             </div>
+            <button
+              onClick={() => setHistoryReportId(historyReportId === report.id ? null : report.id || null)}
+              className="w-full px-3 py-2 text-sm bg-gray-100 text-[#242424] rounded hover:bg-gray-200"
+            >
+              {historyReportId === report.id ? "Ocultar historial" : "Historial"}
+            </button>
+            {report.id && historyReportId === report.id && <ReportRunHistory reportId={report.id} />}
           </div>
         </div>
       ))}
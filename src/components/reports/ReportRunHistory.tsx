@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ReportRun } from "@/types/reportRun";
+import { getReportRuns } from "@/lib/firestore/reports";
+import { getDeliveryStatusLabel, getReportRunStatusLabel } from "@/lib/utils/reports";
+
+interface ReportRunHistoryProps {
+  reportId: string;
+}
+
+/**
+ * Last runs of a report with their status, scenes, errors and the PDF of each run
+ */
+export default function ReportRunHistory({ reportId }: ReportRunHistoryProps) {
+  const [runs, setRuns] = useState<ReportRun[] | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    getReportRuns(reportId)
+      .then(setRuns)
+      .catch((err) => {
+        console.error("Error loading report runs:", err);
+        setError("Error al cargar el historial.");
+      });
+  }, [reportId]);
+
+  const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString("es-MX");
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (!runs) {
+    return <p className="text-sm text-[#898989]">Cargando historial...</p>;
+  }
+
+  if (runs.length === 0) {
+    return <p className="text-sm text-[#898989]">Este reporte aún no se ha ejecutado.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100 text-sm">
+      {runs.map((run) => (
+        <li key={run.id} className="py-2 space-y-1">
+          <div className="flex justify-between items-center">
+            <span className="text-[#242424]">
+              {new Date(run.startedAt).toLocaleString("es-MX")}
+              <span className="text-[#898989]"> · {run.trigger === "scheduled" ? "Programado" : "Manual"}</span>
+            </span>
+            <span
+              className={`px-2 py-0.5 text-xs rounded ${
+                run.status === "succeeded"
+                  ? "bg-[#5db815]/20 text-[#5db815]"
+                  : run.status === "failed"
+                    ? "bg-red-100 text-red-800"
+                    : "bg-gray-100 text-[#898989]"
+              }`}
+            >
+              {getReportRunStatusLabel(run.status)}
+            </span>
+          </div>
+          {run.delivery && (
+            <p className={run.delivery.status === "failed" ? "text-red-600" : "text-[#898989]"}>
+              {run.delivery.method === "whatsapp" ? "WhatsApp" : "Email"}: {getDeliveryStatusLabel(run.delivery.status)}
+              {run.delivery.error ? ` (${run.delivery.error})` : ""}
+            </p>
+          )}
+          {run.sceneDates.length > 0 && (
+            <p className="text-[#898989]">
+              Imágenes: {run.sceneDates.map(formatDate).join(", ")}
+            </p>
+          )}
+          {run.errors.length > 0 && (
+            <ul className="text-red-600">
+              {run.errors.map((runError, index) => (
+                <li key={index}>
+                  {[runError.areaName, runError.indexType].filter(Boolean).join(" · ")}
+                  {runError.areaName || runError.indexType ? ": " : ""}
+                  {runError.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          {run.pdfUrl && (
+            <a
+              href={run.pdfUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:underline"
+            >
+              Descargar PDF
+            </a>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -4,10 +4,11 @@ import { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { getUserAreas } from "@/lib/firestore/areas";
 import { createReport, updateReport } from "@/lib/firestore/reports";
-import { Report, IndexType, ReportFrequency, DeliveryMethod } from "@/types/report";
+import { Report, IndexType, ReportFrequency, DeliveryMethod, CloudMaskMode, CompositeMode, ThermalLayerType } from "@/types/report";
 import { Area } from "@/types/area";
-import { getFrequencyLabel } from "@/lib/utils/reports";
+import { getFrequencyLabel, getCloudMaskLabel, getCompositeModeLabel } from "@/lib/utils/reports";
 import Card from "@/components/ui/Card";
+import { INDEX_REGISTRY, INDEX_TYPES, THERMAL_LAYER_REGISTRY, THERMAL_LAYER_TYPES } from "@/lib/indices/registry";
 
 interface ReportStepperProps {
   onSave: (reportId?: string) => void;
@@ -32,6 +33,13 @@ export default function ReportStepper({ onSave, initialData }: ReportStepperProp
   const [reportName, setReportName] = useState(initialData?.name || "");
   // Indices: default to NDVI but allow modification
   const [indices, setIndices] = useState<IndexType[]>(initialData?.indices || ["NDVI"]);
+  const [cloudMask, setCloudMask] = useState<CloudMaskMode>(initialData?.cloudMask || "qa60");
+  const [compositeMode, setCompositeMode] = useState<CompositeMode | null>(initialData?.compositeMode || null);
+  const [compositeDays, setCompositeDays] = useState<number>(initialData?.compositeDays || 30);
+  const [saviL, setSaviL] = useState<number>(initialData?.indexParams?.SAVI?.L ?? 0.5);
+  const [includeChange, setIncludeChange] = useState<boolean>(initialData?.includeChange || false);
+  const [includeYieldPotential, setIncludeYieldPotential] = useState<boolean>(initialData?.includeYieldPotential || false);
+  const [thermalLayers, setThermalLayers] = useState<ThermalLayerType[]>(initialData?.thermalLayers || []);
 
   const loadAreas = useCallback(async () => {
     if (!user) return;
@@ -55,6 +63,14 @@ export default function ReportStepper({ onSave, initialData }: ReportStepperProp
     );
   };
 
+  const toggleThermalLayer = (layerType: ThermalLayerType) => {
+    setThermalLayers((prev) =>
+      prev.includes(layerType)
+        ? prev.filter((type) => type !== layerType)
+        : [...prev, layerType]
+    );
+  };
+
   const handleNext = () => {
     if (currentStep === "areas") {
       if (selectedAreaIds.length === 0) {
@@ -114,7 +130,15 @@ export default function ReportStepper({ onSave, initialData }: ReportStepperProp
         await updateReport(initialData.id, {
           areaIds: selectedAreaIds,
           indices,
-          cloudCoverage: 20, // Default
+          // Composites mask clouds pixel by pixel, so partly cloudy scenes are kept
+          cloudCoverage: compositeMode ? 100 : 20, // Default
+          cloudMask,
+          compositeMode: compositeMode || undefined,
+          compositeDays: compositeMode ? compositeDays : undefined,
+          indexParams: indices.includes("SAVI") ? { SAVI: { L: saviL } } : undefined,
+          includeChange,
+          thermalLayers,
+          includeYieldPotential: frequency === "monthly" && includeYieldPotential,
           frequency,
           deliveryMethod,
           email: deliveryMethod === "email" ? email : undefined,
@@ -127,7 +151,14 @@ export default function ReportStepper({ onSave, initialData }: ReportStepperProp
         reportId = await createReport({
           areaIds: selectedAreaIds,
           indices,
-          cloudCoverage: 20,
+          cloudCoverage: compositeMode ? 100 : 20,
+          cloudMask,
+          compositeMode: compositeMode || undefined,
+          compositeDays: compositeMode ? compositeDays : undefined,
+          indexParams: indices.includes("SAVI") ? { SAVI: { L: saviL } } : undefined,
+          includeChange,
+          thermalLayers,
+          includeYieldPotential: frequency === "monthly" && includeYieldPotential,
           frequency,
           deliveryMethod,
           email: deliveryMethod === "email" ? email : undefined,
@@ -348,6 +379,22 @@ export default function ReportStepper({ onSave, initialData }: ReportStepperProp
                 </button>
               ))}
             </div>
+            {frequency === "monthly" && (
+              <label className="flex items-center space-x-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:border-gray-300 transition-colors">
+                <input
+                  type="checkbox"
+                  checked={includeYieldPotential}
+                  onChange={(e) => setIncludeYieldPotential(e.target.checked)}
+                  className="rounded border-gray-300 text-[#5db815] focus:ring-[#5db815]"
+                />
+                <div className="flex-1">
+                  <div className="font-medium text-[#242424]">Incluir potencial de rendimiento</div>
+                  <div className="text-xs text-[#898989] mt-0.5">
+                    Ranking de las parcelas del reporte según el NDVI acumulado en la temporada, por cultivo
+                  </div>
+                </div>
+              </label>
+            )}
             <div>
               <label className="block text-sm font-medium text-[#242424] mb-2">
                 Índices a incluir (opcional)
@@ -356,7 +403,7 @@ export default function ReportStepper({ onSave, initialData }: ReportStepperProp
                 NDVI está seleccionado por defecto. Puedes agregar más índices si lo deseas.
               </p>
               <div className="space-y-2">
-                {(["NDVI", "NDRE", "EVI", "NDWI", "MSAVI", "PSRI"] as IndexType[]).map((indexType) => (
+                {INDEX_TYPES.map((indexType) => (
                   <label
                     key={indexType}
                     className="flex items-center space-x-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:border-gray-300 transition-colors"
@@ -379,13 +426,118 @@ export default function ReportStepper({ onSave, initialData }: ReportStepperProp
                     <div className="flex-1">
                       <div className="font-medium text-[#242424]">{indexType}</div>
                       <div className="text-xs text-[#898989] mt-0.5">
-                        {indexType === "NDVI" && "Salud general y cobertura vegetal"}
-                        {indexType === "NDRE" && "Contenido de clorofila y nutrición"}
-                        {indexType === "EVI" && "Biomasa y productividad"}
-                        {indexType === "NDWI" && "Estrés hídrico y problemas de riego"}
-                        {indexType === "MSAVI" && "Emergencia y establecimiento temprano"}
-                        {indexType === "PSRI" && "Senescencia y presión de enfermedades"}
+                        {INDEX_REGISTRY[indexType].description}
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+              {indices.includes("SAVI") && (
+                <div className="mt-3">
+                  <label className="block text-sm font-medium text-[#242424] mb-2">
+                    Factor de suelo (L) para SAVI
+                  </label>
+                  <select
+                    value={saviL}
+                    onChange={(e) => setSaviL(Number(e.target.value))}
+                    className="w-full px-4 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+                  >
+                    <option value={0.25}>0.25 - Cobertura densa</option>
+                    <option value={0.5}>0.5 - Cobertura intermedia</option>
+                    <option value={1}>1 - Poca cobertura / suelo expuesto</option>
+                  </select>
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-[#242424] mb-2">
+                Máscara de nubes
+              </label>
+              <p className="text-xs text-[#898989] mb-3">
+                SCL y s2cloudless eliminan también sombras de nubes y cirros, a costa de más procesamiento.
+              </p>
+              <select
+                value={cloudMask}
+                onChange={(e) => setCloudMask(e.target.value as CloudMaskMode)}
+                className="w-full px-4 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+              >
+                {(["qa60", "scl", "s2cloudless"] as CloudMaskMode[]).map((mode) => (
+                  <option key={mode} value={mode}>
+                    {getCloudMaskLabel(mode)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-[#242424] mb-2">
+                Imagen a analizar
+              </label>
+              <p className="text-xs text-[#898989] mb-3">
+                En temporada de lluvias, un mosaico combina las partes despejadas de varias fechas.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <select
+                  value={compositeMode || "latest"}
+                  onChange={(e) => setCompositeMode(e.target.value === "latest" ? null : e.target.value as CompositeMode)}
+                  className="w-full px-4 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+                >
+                  <option value="latest">Imagen más reciente</option>
+                  {(["median", "greenest"] as CompositeMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {getCompositeModeLabel(mode)}
+                    </option>
+                  ))}
+                </select>
+                {compositeMode && (
+                  <select
+                    value={compositeDays}
+                    onChange={(e) => setCompositeDays(Number(e.target.value))}
+                    className="w-full px-4 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+                  >
+                    {[15, 30, 60, 90].map((days) => (
+                      <option key={days} value={days}>
+                        Últimos {days} días
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+            <label className="flex items-center space-x-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:border-gray-300 transition-colors">
+              <input
+                type="checkbox"
+                checked={includeChange}
+                onChange={(e) => setIncludeChange(e.target.checked)}
+                className="rounded border-gray-300 text-[#5db815] focus:ring-[#5db815]"
+              />
+              <div className="flex-1">
+                <div className="font-medium text-[#242424]">Incluir cambios desde el último reporte</div>
+                <div className="text-xs text-[#898989] mt-0.5">
+                  Mapa de diferencias y hectáreas donde el índice bajó desde el envío anterior
+                </div>
+              </div>
+            </label>
+            <div>
+              <label className="block text-sm font-medium text-[#242424] mb-2">
+                Temperatura y agua (Landsat, opcional)
+              </label>
+              <div className="space-y-2">
+                {THERMAL_LAYER_TYPES.map((layerType) => (
+                  <label
+                    key={layerType}
+                    className="flex items-center space-x-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:border-gray-300 transition-colors"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={thermalLayers.includes(layerType)}
+                      onChange={() => toggleThermalLayer(layerType)}
+                      className="rounded border-gray-300 text-[#5db815] focus:ring-[#5db815]"
+                    />
+                    <div className="flex-1">
+                      <div className="font-medium text-[#242424]">
+                        {layerType} ({THERMAL_LAYER_REGISTRY[layerType].unit})
                       </div>
+                      <div className="text-xs text-[#898989] mt-0.5">{THERMAL_LAYER_REGISTRY[layerType].description}</div>
                     </div>
                   </label>
                 ))}
@@ -454,6 +606,44 @@ export default function ReportStepper({ onSave, initialData }: ReportStepperProp
                   {indices.join(", ")}
                 </p>
               </div>
+              <div>
+                <span className="text-sm font-medium text-[#898989]">Máscara de nubes:</span>
+                <p className="text-[#242424] font-medium mt-1">
+                  {getCloudMaskLabel(cloudMask)}
+                </p>
+              </div>
+              <div>
+                <span className="text-sm font-medium text-[#898989]">Imagen:</span>
+                <p className="text-[#242424] font-medium mt-1">
+                  {compositeMode
+                    ? `${getCompositeModeLabel(compositeMode)} (últimos ${compositeDays} días)`
+                    : "Imagen más reciente"}
+                </p>
+              </div>
+              {includeChange && (
+                <div>
+                  <span className="text-sm font-medium text-[#898989]">Cambios:</span>
+                  <p className="text-[#242424] font-medium mt-1">
+                    Desde el último reporte
+                  </p>
+                </div>
+              )}
+              {frequency === "monthly" && includeYieldPotential && (
+                <div>
+                  <span className="text-sm font-medium text-[#898989]">Potencial de rendimiento:</span>
+                  <p className="text-[#242424] font-medium mt-1">
+                    Ranking por cultivo (NDVI de la temporada)
+                  </p>
+                </div>
+              )}
+              {thermalLayers.length > 0 && (
+                <div>
+                  <span className="text-sm font-medium text-[#898989]">Temperatura y agua:</span>
+                  <p className="text-[#242424] font-medium mt-1">
+                    {thermalLayers.join(", ")} (Landsat 8/9)
+                  </p>
+                </div>
+              )}
             </div>
             <div className="flex justify-between">
               <button
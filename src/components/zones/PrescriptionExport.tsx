@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { getAuth } from "firebase/auth";
+import { ManagementZone } from "@/types/satellite";
+import { PrescriptionFormat, RateUnit } from "@/types/prescription";
+
+interface PrescriptionExportProps {
+  areaId: string;
+  zones: ManagementZone[];
+}
+
+/**
+ * Rate per zone form that downloads a variable-rate prescription for tractor terminals
+ */
+export default function PrescriptionExport({ areaId, zones }: PrescriptionExportProps) {
+  const [rates, setRates] = useState<Record<number, string>>({});
+  const [unit, setUnit] = useState<RateUnit>("kg/ha");
+  const [productName, setProductName] = useState("");
+  const [downloading, setDownloading] = useState<PrescriptionFormat | null>(null);
+
+  const handleDownload = async (format: PrescriptionFormat) => {
+    const zoneRates = zones.map((zone) => ({ zone: zone.zone, rate: Number(rates[zone.zone]) }));
+    if (zoneRates.some((zoneRate) => rates[zoneRate.zone] === undefined || rates[zoneRate.zone] === "" || zoneRate.rate < 0)) {
+      alert("Ingresa una dosis válida para cada zona.");
+      return;
+    }
+
+    setDownloading(format);
+    try {
+      const token = await getAuth().currentUser?.getIdToken();
+      const response = await fetch(`/api/areas/${areaId}/prescription`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ format, zones, rates: zoneRates, unit, productName: productName || undefined }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Error al generar la prescripción (${response.status})`);
+      }
+
+      const blob = await response.blob();
+      const fileName = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || "prescripcion.zip";
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error("Error downloading prescription:", error);
+      alert(error.message || "Error al descargar la prescripción.");
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="pt-4 mt-2 border-t border-gray-200 space-y-3">
+      <p className="text-sm font-medium text-[#242424]">Prescripción de dosis variable</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-[#242424] mb-1">Producto</label>
+          <input
+            type="text"
+            value={productName}
+            onChange={(e) => setProductName(e.target.value)}
+            placeholder="Ej. Urea"
+            className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[#242424] mb-1">Unidad</label>
+          <select
+            value={unit}
+            onChange={(e) => setUnit(e.target.value as RateUnit)}
+            className="w-full px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+          >
+            <option value="kg/ha">kg/ha</option>
+            <option value="L/ha">L/ha</option>
+          </select>
+        </div>
+      </div>
+      <div className="space-y-2">
+        {zones.map((zone) => (
+          <div key={zone.zone} className="flex items-center justify-between gap-3">
+            <label htmlFor={`rate-${zone.zone}`} className="text-sm text-[#242424]">
+              Dosis zona {zone.zone}
+            </label>
+            <input
+              id={`rate-${zone.zone}`}
+              type="number"
+              min={0}
+              step="any"
+              value={rates[zone.zone] ?? ""}
+              onChange={(e) => setRates({ ...rates, [zone.zone]: e.target.value })}
+              className="w-32 px-3 py-2 bg-white text-[#242424] border border-gray-300 rounded-lg focus:outline-none focus:ring-[#5db815] focus:border-[#5db815]"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <button
+          onClick={() => handleDownload("shapefile")}
+          disabled={downloading !== null}
+          className="flex-1 bg-[#5db815] text-white px-4 py-2 rounded-lg font-medium hover:bg-[#4a9a11] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {downloading === "shapefile" ? "Generando..." : "Descargar Shapefile"}
+        </button>
+        <button
+          onClick={() => handleDownload("isoxml")}
+          disabled={downloading !== null}
+          className="flex-1 bg-[#5db815] text-white px-4 py-2 rounded-lg font-medium hover:bg-[#4a9a11] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {downloading === "isoxml" ? "Generando..." : "Descargar ISOXML"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import * as ee from "@google/earthengine";
+import { AlertRule } from "@/types/alert";
+import { SatelliteImageMetadata } from "@/types/satellite";
+import {
+  calculateIndex,
+  getSentinel2Collection,
+  getMostRecentImage,
+  getImageMetadata,
+} from "@/lib/indices/calculations";
+
+// Scene-level filter only; cloudy pixels over the area are masked anyway
+export const ALERT_CLOUD_COVERAGE = 40;
+
+export interface AlertMeasurement {
+  meanValue: number | null; // null when every pixel over the area is masked
+  hectaresBelow?: number; // area_below rules only
+}
+
+export interface AlertCheck {
+  triggered: boolean;
+  dropPercentage?: number; // Measured drop vs the previous pass, in %
+  message: string;
+}
+
+/**
+ * Most recent scene over the area, or null when the last 60 days have none
+ */
+export async function getLatestScene(
+  rule: AlertRule,
+  polygon: ee.Geometry
+): Promise<{ image: ee.Image; metadata: SatelliteImageMetadata } | null> {
+  const collection = getSentinel2Collection(ALERT_CLOUD_COVERAGE, undefined, rule.cloudMask)
+    .filterBounds(polygon);
+  const image = getMostRecentImage(collection);
+
+  try {
+    return { image, metadata: await getImageMetadata(image) };
+  } catch (error: any) {
+    // first() of an empty collection has no acquisition time
+    if (error.message === "Image is missing system:time_start") return null;
+    throw error;
+  }
+}
+
+/**
+ * Mean index over the area and, for area_below rules, the hectares below the critical value
+ */
+export async function measureScene(
+  image: ee.Image,
+  rule: AlertRule,
+  polygon: ee.Geometry,
+  scale: number
+): Promise<AlertMeasurement> {
+  const bufferedBbox = polygon.bounds().buffer(1000);
+  const indexImage = calculateIndex(image.clip(bufferedBbox), rule.indexType).clip(polygon);
+
+  // One pass: mean of the index band, and summed pixel areas below the critical value
+  const belowThreshold = rule.valueThreshold ?? 0;
+  const measurement = indexImage
+    .addBands(ee.Image.pixelArea().updateMask(indexImage.lt(belowThreshold)).rename("belowArea"))
+    .reduceRegion({
+      reducer: ee.Reducer.mean().combine({ reducer2: ee.Reducer.sum(), sharedInputs: true }),
+      geometry: polygon,
+      scale,
+      maxPixels: 1e9,
+      bestEffort: true,
+      tileScale: 4,
+    });
+
+  const value = await new Promise<Record<string, number | null>>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error("Alert statistics timed out. Try reducing the area size."));
+    }, 90000); // 90 second timeout
+
+    measurement.getInfo((result: any, error?: Error) => {
+      clearTimeout(timeout);
+      if (error) reject(error);
+      else resolve(result);
+    });
+  });
+
+  const meanValue = value?.[`${rule.indexType}_mean`];
+  return {
+    meanValue: typeof meanValue === "number" ? meanValue : null,
+    hectaresBelow: rule.condition === "area_below" ? (value?.belowArea_sum || 0) / 10_000 : undefined,
+  };
+}
+
+/**
+ * Decide whether a pass triggers the rule and build the notification text
+ */
+export function checkAlertCondition(
+  rule: AlertRule,
+  areaName: string,
+  sceneDate: string,
+  measurement: AlertMeasurement,
+  previousMean?: number
+): AlertCheck {
+  const dateLabel = new Date(`${sceneDate}T00:00:00`).toLocaleDateString("es-MX");
+
+  if (rule.condition === "mean_drop") {
+    // The first pass only sets the baseline
+    if (measurement.meanValue === null || previousMean === undefined || previousMean === 0) {
+      return { triggered: false, message: "" };
+    }
+    const dropPercentage = ((previousMean - measurement.meanValue) / Math.abs(previousMean)) * 100;
+    return {
+      triggered: dropPercentage > (rule.dropPercentage ?? 0),
+      dropPercentage,
+      message: `${rule.indexType} de "${areaName}" bajó ${dropPercentage.toFixed(1)}% (${previousMean.toFixed(3)} → ${measurement.meanValue.toFixed(3)}) en la imagen del ${dateLabel}.`,
+    };
+  }
+
+  const hectaresBelow = measurement.hectaresBelow ?? 0;
+  return {
+    triggered: hectaresBelow > (rule.minHectares ?? 0),
+    message: `${hectaresBelow.toFixed(2)} ha de "${areaName}" tienen ${rule.indexType} menor a ${rule.valueThreshold} en la imagen del ${dateLabel}.`,
+  };
+}
@@ -20,6 +20,7 @@ export function getResend(): Resend {
 
 /**
  * Send an email using Resend
+ * @returns The Resend email ID, matched by the delivery webhooks
  */
 export async function sendEmail(
   to: string,
@@ -32,7 +33,7 @@ export async function sendEmail(
     contentType?: string;
     cid?: string; // Content-ID for inline images
   }>
-): Promise<void> {
+): Promise<string | undefined> {
   const resend = getResendClient();
   // Use verified copernigeo.com domain
   const fromEmail = from || process.env.RESEND_FROM_EMAIL || "noreply@copernigeo.com";
@@ -98,6 +99,7 @@ export async function sendEmail(
     if (result.data) {
       console.log(`[Email] Email ID: ${result.data.id}`);
     }
+    return result.data?.id;
   } catch (error: any) {
     console.error(`[Email] ❌ Failed to send email:`, error);
     console.error(`[Email] Error details:`, {
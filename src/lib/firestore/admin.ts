@@ -1,8 +1,14 @@
-import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { getFirestore, Timestamp, DocumentData, FieldValue } from 'firebase-admin/firestore';
+import { randomUUID } from 'crypto';
 import { getAdminApp } from '@/lib/firebase-admin';
 import { Area } from '@/types/area';
-import { Report } from '@/types/report';
+import { Report, IndexType } from '@/types/report';
 import { UserPlan, PlanType } from '@/types/plan';
+import { CustomIndex } from '@/types/customIndex';
+import { AlertEvent, AlertRule } from '@/types/alert';
+import { Observation } from '@/types/observation';
+import { ReportJob } from '@/types/reportJob';
+import { ReportDeliveryEvent, ReportDeliveryStatus, ReportRun, ReportRunDelivery } from '@/types/reportRun';
 
 /**
  * Get Firestore instance using Admin SDK (server-side only)
@@ -70,6 +76,9 @@ export async function getAreaAdmin(areaId: string): Promise<Area | null> {
       name: data.name,
       userId: data.userId,
       coordinates,
+      cropType: data.cropType,
+      sowingDate: data.sowingDate,
+      expectedHarvestDate: data.expectedHarvestDate,
       createdAt: data.createdAt?.toDate(),
       updatedAt: data.updatedAt?.toDate(),
     } as Area;
@@ -79,6 +88,67 @@ export async function getAreaAdmin(areaId: string): Promise<Area | null> {
   }
 }
 
+/**
+ * Get all areas of a user using Admin SDK (bypasses security rules)
+ * For server-side use only (API routes, cron jobs, etc.)
+ */
+export async function getUserAreasAdmin(userId: string): Promise<Area[]> {
+  try {
+    const db = getAdminFirestore();
+    const querySnapshot = await db.collection('areas')
+      .where('userId', '==', userId)
+      .get();
+
+    return querySnapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        name: data.name,
+        userId: data.userId,
+        coordinates: (data.coordinates || []).map((coord: any) => ({
+          lat: coord.lat || coord.latitude || 0,
+          lng: coord.lng || coord.longitude || 0,
+        })),
+        cropType: data.cropType,
+        sowingDate: data.sowingDate,
+        expectedHarvestDate: data.expectedHarvestDate,
+        createdAt: data.createdAt?.toDate(),
+        updatedAt: data.updatedAt?.toDate(),
+      } as Area;
+    });
+  } catch (error: any) {
+    console.error(`[Admin Firestore] Error fetching areas of user ${userId}:`, error.message);
+    throw error;
+  }
+}
+
+/**
+ * Get a custom index definition by ID using Admin SDK (bypasses security rules)
+ * For server-side use only (API routes, cron jobs, etc.)
+ */
+export async function getCustomIndexAdmin(indexId: string): Promise<CustomIndex | null> {
+  try {
+    const db = getAdminFirestore();
+    const docSnap = await db.collection('custom_indices').doc(indexId).get();
+    
+    if (!docSnap.exists) {
+      return null;
+    }
+    
+    const data = docSnap.data();
+    if (!data) return null;
+    
+    return {
+      id: docSnap.id,
+      ...data,
+      createdAt: data.createdAt?.toDate(),
+    } as CustomIndex;
+  } catch (error: any) {
+    console.error(`[Admin Firestore] Error fetching custom index ${indexId}:`, error.message);
+    throw error;
+  }
+}
+
 /**
  * Mark a report as generated using Admin SDK
  * Updates lastGenerated and calculates next run date
@@ -417,6 +487,30 @@ export async function getRemainingBasicPlanSpotsAdmin(): Promise<number> {
   }
 }
 
+/**
+ * Get the active plan of a user using Admin SDK
+ */
+export async function getUserPlanAdmin(userId: string): Promise<UserPlan | null> {
+  try {
+    const db = getAdminFirestore();
+    const snapshot = await db.collection('userPlans')
+      .where('userId', '==', userId)
+      .where('status', '==', 'active')
+      .limit(1)
+      .get();
+
+    if (snapshot.empty) {
+      return null;
+    }
+
+    const planDoc = snapshot.docs[0];
+    return { id: planDoc.id, ...planDoc.data() } as UserPlan;
+  } catch (error: any) {
+    console.error(`[Admin Firestore] Error getting plan of user ${userId}:`, error.message);
+    throw error;
+  }
+}
+
 /**
  * Create a user plan using Admin SDK (bypasses security rules)
  * For server-side use only (API routes)
@@ -463,3 +557,526 @@ export async function createUserPlanAdmin(
   }
 }
 
+
+/**
+ * Get all enabled alert rules using Admin SDK (for the alert check cron)
+ */
+export async function getEnabledAlertRulesAdmin(): Promise<AlertRule[]> {
+  try {
+    const db = getAdminFirestore();
+    const querySnapshot = await db.collection('alert_rules')
+      .where('enabled', '==', true)
+      .get();
+    
+    return querySnapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        lastCheckedAt: data.lastCheckedAt?.toDate(),
+        lastTriggeredAt: data.lastTriggeredAt?.toDate(),
+        createdAt: data.createdAt?.toDate(),
+      } as AlertRule;
+    });
+  } catch (error: any) {
+    console.error('[Admin Firestore] Error fetching alert rules:', error.message);
+    throw error;
+  }
+}
+
+/**
+ * Update an alert rule using Admin SDK (evaluation state: last scene, last mean, timestamps)
+ */
+export async function updateAlertRuleAdmin(
+  ruleId: string,
+  updates: Partial<AlertRule>
+): Promise<void> {
+  try {
+    const db = getAdminFirestore();
+    
+    // Filter out undefined values (Firestore doesn't allow undefined)
+    const updateData: any = {};
+    Object.keys(updates).forEach((key) => {
+      const value = (updates as any)[key];
+      if (value !== undefined) {
+        updateData[key] = value;
+      }
+    });
+    
+    await db.collection('alert_rules').doc(ruleId).update(updateData);
+  } catch (error: any) {
+    console.error(`[Admin Firestore] Error updating alert rule ${ruleId}:`, error.message);
+    throw error;
+  }
+}
+
+/**
+ * Record a triggered alert in the alert history using Admin SDK
+ */
+export async function createAlertEventAdmin(event: Omit<AlertEvent, 'id' | 'createdAt'>): Promise<string> {
+  try {
+    const db = getAdminFirestore();
+    
+    // Remove any undefined values (Firestore doesn't allow undefined)
+    const eventData: any = { createdAt: new Date() };
+    Object.keys(event).forEach((key) => {
+      const value = (event as any)[key];
+      if (value !== undefined) {
+        eventData[key] = value;
+      }
+    });
+    
+    const docRef = await db.collection('alert_events').add(eventData);
+    console.log(`[Admin Firestore] ✅ Alert event recorded with ID: ${docRef.id}`);
+    return docRef.id;
+  } catch (error: any) {
+    console.error('[Admin Firestore] ❌ Error recording alert event:', error.message);
+    throw error;
+  }
+}
+
+/**
+ * Store computed index results as observations using Admin SDK (one batch per report run)
+ */
+export async function createObservationsAdmin(
+  observations: Array<Omit<Observation, 'id' | 'createdAt'>>
+): Promise<void> {
+  if (observations.length === 0) return;
+
+  try {
+    const db = getAdminFirestore();
+    const batch = db.batch();
+    const now = new Date();
+    
+    for (const observation of observations) {
+      // Remove any undefined values (Firestore doesn't allow undefined)
+      const observationData: any = { createdAt: now };
+      Object.keys(observation).forEach((key) => {
+        const value = (observation as any)[key];
+        if (value !== undefined) {
+          observationData[key] = value;
+        }
+      });
+      // Nested statistics can hold undefined too (stdDev, percentiles, histogram)
+      observationData.stats = JSON.parse(JSON.stringify(observation.stats));
+      batch.set(db.collection('observations').doc(), observationData);
+    }
+    
+    await batch.commit();
+    console.log(`[Admin Firestore] ✅ Stored ${observations.length} observation(s)`);
+  } catch (error: any) {
+    console.error('[Admin Firestore] ❌ Error storing observations:', error.message);
+    throw error;
+  }
+}
+
+/**
+ * Get the observation history of an area for one index using Admin SDK, most recent image first
+ */
+export async function getAreaObservationsAdmin(
+  areaId: string,
+  indexType: IndexType,
+  maxObservations: number = 50
+): Promise<Observation[]> {
+  try {
+    const db = getAdminFirestore();
+    const querySnapshot = await db.collection('observations')
+      .where('areaId', '==', areaId)
+      .where('indexType', '==', indexType)
+      .orderBy('imageDate', 'desc')
+      .limit(maxObservations)
+      .get();
+    
+    return querySnapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        createdAt: data.createdAt?.toDate(),
+      } as Observation;
+    });
+  } catch (error: any) {
+    console.error(`[Admin Firestore] Error fetching observations for area ${areaId}:`, error.message);
+    throw error;
+  }
+}
+
+// Report job queue: the cron enqueues one job per due run, workers claim them one at a time
+const REPORT_JOB_MAX_ATTEMPTS = 4;
+const REPORT_JOB_LEASE_MS = 6 * 60 * 1000; // Longer than a worker's 5 minute limit
+const REPORT_JOB_BACKOFF_MS = 5 * 60 * 1000; // Doubles per attempt: 5, 10, 20 minutes
+const REPORT_JOB_REQUEUE_MS = 24 * 60 * 60 * 1000; // Failed runs of a still-due report are retried a day later
+
+function toReportJob(id: string, data: DocumentData): ReportJob {
+  return {
+    id,
+    ...data,
+    scheduledFor: data.scheduledFor?.toDate(),
+    availableAt: data.availableAt?.toDate(),
+    leaseExpiresAt: data.leaseExpiresAt?.toDate(),
+    completedAt: data.completedAt?.toDate(),
+    createdAt: data.createdAt?.toDate(),
+    updatedAt: data.updatedAt?.toDate(),
+  } as ReportJob;
+}
+
+/**
+ * Enqueue a job for each due report using Admin SDK
+ * Job IDs are derived from the report's nextRun, so enqueueing the same due run again is a
+ * no-op; a run whose job failed a day ago is queued again, like the cron retried it before
+ * @returns Number of jobs queued
+ */
+export async function enqueueReportJobsAdmin(reports: Report[]): Promise<number> {
+  const db = getAdminFirestore();
+  let queued = 0;
+
+  for (const report of reports) {
+    if (!report.id || !report.nextRun) continue;
+    const jobRef = db.collection('report_jobs').doc(`${report.id}_${report.nextRun.getTime()}`);
+
+    try {
+      const enqueued = await db.runTransaction(async (transaction) => {
+        const jobSnap = await transaction.get(jobRef);
+        const now = new Date();
+
+        if (!jobSnap.exists) {
+          transaction.create(jobRef, {
+            reportId: report.id,
+            scheduledFor: report.nextRun,
+            status: 'queued',
+            attempts: 0,
+            maxAttempts: REPORT_JOB_MAX_ATTEMPTS,
+            availableAt: now,
+            createdAt: now,
+            updatedAt: now,
+          });
+          return true;
+        }
+
+        const job = toReportJob(jobSnap.id, jobSnap.data()!);
+        if (job.status === 'failed' && job.completedAt && now.getTime() - job.completedAt.getTime() >= REPORT_JOB_REQUEUE_MS) {
+          transaction.update(jobRef, {
+            status: 'queued',
+            attempts: 0,
+            availableAt: now,
+            updatedAt: now,
+          });
+          return true;
+        }
+        return false;
+      });
+      if (enqueued) queued++;
+    } catch (error: any) {
+      console.error(`[Admin Firestore] Error enqueueing job for report ${report.id}:`, error.message);
+      throw error;
+    }
+  }
+
+  console.log(`[Admin Firestore] ✅ Queued ${queued} report job(s) for ${reports.length} due report(s)`);
+  return queued;
+}
+
+/**
+ * Claim the next available report job using Admin SDK
+ * Candidates are queued jobs past their backoff and running jobs past their lease; each claim
+ * runs in a transaction that re-checks the job, so concurrent workers never claim the same one
+ * A running job whose lease expired on its last attempt is failed instead of claimed
+ * @returns The claimed job (status running), or null when nothing is available
+ */
+export async function claimReportJobAdmin(): Promise<ReportJob | null> {
+  try {
+    const db = getAdminFirestore();
+    const now = Timestamp.now();
+
+    const [queuedSnapshot, expiredSnapshot] = await Promise.all([
+      db.collection('report_jobs')
+        .where('status', '==', 'queued')
+        .where('availableAt', '<=', now)
+        .orderBy('availableAt', 'asc')
+        .limit(10)
+        .get(),
+      db.collection('report_jobs')
+        .where('status', '==', 'running')
+        .where('leaseExpiresAt', '<=', now)
+        .orderBy('leaseExpiresAt', 'asc')
+        .limit(10)
+        .get(),
+    ]);
+
+    for (const candidate of [...queuedSnapshot.docs, ...expiredSnapshot.docs]) {
+      const claimed = await db.runTransaction(async (transaction) => {
+        const jobSnap = await transaction.get(candidate.ref);
+        if (!jobSnap.exists) return null;
+
+        const job = toReportJob(jobSnap.id, jobSnap.data()!);
+        const claimTime = new Date();
+        const claimable = job.status === 'queued'
+          ? job.availableAt.getTime() <= claimTime.getTime()
+          : job.status === 'running' && !!job.leaseExpiresAt && job.leaseExpiresAt.getTime() <= claimTime.getTime();
+        if (!claimable) return null; // Claimed (or finished) by another worker in the meantime
+
+        if (job.attempts >= job.maxAttempts) {
+          transaction.update(candidate.ref, {
+            status: 'failed',
+            lastError: `Lease expired on attempt ${job.attempts}/${job.maxAttempts}`,
+            completedAt: claimTime,
+            updatedAt: claimTime,
+          });
+          return null;
+        }
+
+        const leaseExpiresAt = new Date(claimTime.getTime() + REPORT_JOB_LEASE_MS);
+        const leaseToken = randomUUID();
+        transaction.update(candidate.ref, {
+          status: 'running',
+          attempts: job.attempts + 1,
+          leaseExpiresAt,
+          leaseToken,
+          updatedAt: claimTime,
+        });
+        return { ...job, status: 'running', attempts: job.attempts + 1, leaseExpiresAt, leaseToken, updatedAt: claimTime } as ReportJob;
+      });
+
+      if (claimed) {
+        console.log(`[Admin Firestore] Claimed report job ${claimed.id} (attempt ${claimed.attempts}/${claimed.maxAttempts})`);
+        return claimed;
+      }
+    }
+
+    return null;
+  } catch (error: any) {
+    console.error('[Admin Firestore] Error claiming report job:', error.message);
+    throw error;
+  }
+}
+
+/**
+ * Apply an update to a claimed report job if the worker still holds its lease
+ * A worker whose lease expired may find the job reclaimed by another worker; its late
+ * outcome is then dropped instead of overwriting the new attempt
+ * @returns false if the lease was lost
+ */
+async function updateLeasedReportJob(job: ReportJob, updates: DocumentData): Promise<boolean> {
+  const db = getAdminFirestore();
+  const jobRef = db.collection('report_jobs').doc(job.id!);
+  return db.runTransaction(async (transaction) => {
+    const jobSnap = await transaction.get(jobRef);
+    const current = jobSnap.data();
+    if (!current || current.status !== 'running' || current.leaseToken !== job.leaseToken) {
+      return false;
+    }
+    transaction.update(jobRef, updates);
+    return true;
+  });
+}
+
+/**
+ * Mark a claimed report job as succeeded using Admin SDK
+ */
+export async function completeReportJobAdmin(job: ReportJob): Promise<void> {
+  try {
+    const now = new Date();
+    const updated = await updateLeasedReportJob(job, {
+      status: 'succeeded',
+      completedAt: now,
+      updatedAt: now,
+    });
+    if (!updated) {
+      console.log(`[Admin Firestore] Lease of report job ${job.id} was lost; not marking it succeeded`);
+    }
+  } catch (error: any) {
+    console.error(`[Admin Firestore] Error completing report job ${job.id}:`, error.message);
+    throw error;
+  }
+}
+
+/**
+ * Record a failed attempt of a claimed report job using Admin SDK
+ * The job is queued again after an exponential backoff, or failed once its attempts are used up
+ */
+export async function failReportJobAdmin(job: ReportJob, errorMessage: string): Promise<void> {
+  try {
+    const now = new Date();
+
+    if (job.attempts >= job.maxAttempts) {
+      const updated = await updateLeasedReportJob(job, {
+        status: 'failed',
+        lastError: errorMessage,
+        completedAt: now,
+        updatedAt: now,
+      });
+      console.log(updated
+        ? `[Admin Firestore] Report job ${job.id} failed after ${job.attempts} attempt(s)`
+        : `[Admin Firestore] Lease of report job ${job.id} was lost; not failing it`);
+      return;
+    }
+
+    const availableAt = new Date(now.getTime() + REPORT_JOB_BACKOFF_MS * 2 ** (job.attempts - 1));
+    const updated = await updateLeasedReportJob(job, {
+      status: 'queued',
+      lastError: errorMessage,
+      availableAt,
+      updatedAt: now,
+    });
+    console.log(updated
+      ? `[Admin Firestore] Report job ${job.id} will be retried after ${availableAt.toISOString()}`
+      : `[Admin Firestore] Lease of report job ${job.id} was lost; not requeueing it`);
+  } catch (error: any) {
+    console.error(`[Admin Firestore] Error recording failure of report job ${job.id}:`, error.message);
+    throw error;
+  }
+}
+
+// Firestore rejects undefined values, including nested ones (run results, delivery)
+function removeUndefined(value: any): any {
+  if (Array.isArray(value)) return value.map(removeUndefined);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, removeUndefined(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Start a run in the report's history using Admin SDK
+ * @returns The run ID, used to record its outcome with updateReportRunAdmin
+ */
+export async function createReportRunAdmin(
+  reportId: string,
+  run: Pick<ReportRun, 'userId' | 'trigger' | 'jobId' | 'startedAt'>
+): Promise<string> {
+  try {
+    const db = getAdminFirestore();
+    const docRef = await db.collection('reports').doc(reportId).collection('report_runs').add(removeUndefined({
+      ...run,
+      reportId,
+      status: 'running',
+      sceneDates: [],
+      results: [],
+      errors: [],
+    }));
+    console.log(`[Admin Firestore] ✅ Report run ${docRef.id} started for report ${reportId}`);
+    return docRef.id;
+  } catch (error: any) {
+    console.error(`[Admin Firestore] ❌ Error starting run for report ${reportId}:`, error.message);
+    throw error;
+  }
+}
+
+/**
+ * Record the outcome (or progress) of a report run using Admin SDK
+ */
+export async function updateReportRunAdmin(
+  reportId: string,
+  runId: string,
+  updates: Partial<Omit<ReportRun, 'id' | 'reportId' | 'userId'>>
+): Promise<void> {
+  try {
+    const db = getAdminFirestore();
+    await db.collection('reports').doc(reportId).collection('report_runs').doc(runId).update(removeUndefined(updates));
+  } catch (error: any) {
+    console.error(`[Admin Firestore] Error updating run ${runId} of report ${reportId}:`, error.message);
+    throw error;
+  }
+}
+
+const REPORT_MAX_DELIVERY_FAILURES = 3; // Consecutive hard delivery failures before a report is paused
+// Webhooks arrive out of order and more than once: a status never moves back (hard failures are final)
+const DELIVERY_STATUS_RANK: Record<ReportDeliveryStatus, number> = { sent: 0, delivered: 1, read: 2, failed: 3 };
+
+/**
+ * Record a report handed to Resend / Meta on its run using Admin SDK
+ * The message ID is indexed in report_deliveries so the webhooks can find the run
+ */
+export async function trackReportDeliveryAdmin(
+  reportId: string,
+  runId: string,
+  delivery: ReportRunDelivery & { messageId: string }
+): Promise<void> {
+  try {
+    const db = getAdminFirestore();
+    const batch = db.batch();
+    batch.set(db.collection('report_deliveries').doc(delivery.messageId), {
+      reportId,
+      runId,
+      method: delivery.method,
+      createdAt: new Date(),
+    });
+    batch.update(db.collection('reports').doc(reportId).collection('report_runs').doc(runId), {
+      delivery: removeUndefined(delivery),
+    });
+    await batch.commit();
+  } catch (error: any) {
+    console.error(`[Admin Firestore] Error tracking delivery ${delivery.messageId} of report ${reportId}:`, error.message);
+    throw error;
+  }
+}
+
+/**
+ * Apply a delivery status event from a webhook to its report run using Admin SDK
+ * Hard failures count towards pausing the report; a delivered or read report resets the count
+ * @returns false if the message is not a tracked report delivery (alerts, contact emails...)
+ */
+export async function applyReportDeliveryEventAdmin(event: ReportDeliveryEvent): Promise<boolean> {
+  try {
+    const db = getAdminFirestore();
+    const lookupDoc = await db.collection('report_deliveries').doc(event.messageId).get();
+    if (!lookupDoc.exists) {
+      return false;
+    }
+
+    const { reportId, runId } = lookupDoc.data()!;
+    const reportRef = db.collection('reports').doc(reportId);
+    const runRef = reportRef.collection('report_runs').doc(runId);
+
+    const paused = await db.runTransaction(async (transaction) => {
+      const [runDoc, reportDoc] = await Promise.all([transaction.get(runRef), transaction.get(reportRef)]);
+      const delivery = runDoc.data()?.delivery as ReportRunDelivery | undefined;
+      if (!delivery || !reportDoc.exists) return false;
+
+      // Transient failures (full mailbox, rate limits) may still be delivered on retry:
+      // the error is shown, but the status stays open for a later delivered/read event
+      if (event.status === 'failed' && !event.hardFailure) {
+        if (delivery.status === 'sent') {
+          transaction.update(runRef, removeUndefined({ 'delivery.updatedAt': event.timestamp, 'delivery.error': event.error }));
+        }
+        return false;
+      }
+      if (DELIVERY_STATUS_RANK[event.status] <= DELIVERY_STATUS_RANK[delivery.status]) return false;
+
+      transaction.update(runRef, {
+        'delivery.status': event.status,
+        'delivery.updatedAt': event.timestamp,
+        // Delivered after a transient failure: its error no longer applies
+        'delivery.error': event.error ?? FieldValue.delete(),
+      });
+
+      const report = reportDoc.data()!;
+      if (event.status === 'failed') {
+        const deliveryFailures = (report.deliveryFailures || 0) + 1;
+        const pause = deliveryFailures >= REPORT_MAX_DELIVERY_FAILURES && report.status === 'active';
+        transaction.update(reportRef, pause
+          ? { deliveryFailures, status: 'paused', pausedReason: 'delivery_failures' }
+          : { deliveryFailures });
+        return pause;
+      }
+      // Delivered or read: the recipient works again
+      if (report.deliveryFailures) {
+        transaction.update(reportRef, { deliveryFailures: 0 });
+      }
+      return false;
+    });
+
+    console.log(`[Admin Firestore] Delivery ${event.messageId} of report ${reportId}: ${event.status}`);
+    if (paused) {
+      console.log(`[Admin Firestore] ⚠️ Report ${reportId} paused after ${REPORT_MAX_DELIVERY_FAILURES} failed deliveries`);
+    }
+    return true;
+  } catch (error: any) {
+    console.error(`[Admin Firestore] Error applying delivery event for ${event.messageId}:`, error.message);
+    throw error;
+  }
+}
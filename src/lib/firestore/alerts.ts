@@ -0,0 +1,122 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  Timestamp,
+} from "firebase/firestore";
+import { getDb } from "@/lib/firebase";
+import { AlertEvent, AlertRule, AlertRuleFormData } from "@/types/alert";
+
+const ALERT_RULES_COLLECTION = "alert_rules";
+const ALERT_EVENTS_COLLECTION = "alert_events";
+
+/**
+ * Get all alert rules of a user
+ */
+export async function getUserAlertRules(userId: string): Promise<AlertRule[]> {
+  const db = getDb();
+  const q = query(collection(db, ALERT_RULES_COLLECTION), where("userId", "==", userId));
+  const querySnapshot = await getDocs(q);
+
+  return querySnapshot.docs.map((docSnap) => {
+    const data = docSnap.data();
+    return {
+      id: docSnap.id,
+      ...data,
+      lastCheckedAt: data.lastCheckedAt?.toDate(),
+      lastTriggeredAt: data.lastTriggeredAt?.toDate(),
+      createdAt: data.createdAt?.toDate(),
+    } as AlertRule;
+  });
+}
+
+/**
+ * Get the alert history of a user, most recent first
+ */
+export async function getUserAlertEvents(userId: string, maxEvents: number = 20): Promise<AlertEvent[]> {
+  const db = getDb();
+  const q = query(collection(db, ALERT_EVENTS_COLLECTION), where("userId", "==", userId));
+  const querySnapshot = await getDocs(q);
+
+  // Sorted in memory to avoid requiring a composite index
+  return querySnapshot.docs
+    .map((docSnap) => {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        ...data,
+        createdAt: data.createdAt?.toDate(),
+      } as AlertEvent;
+    })
+    .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+    .slice(0, maxEvents);
+}
+
+/**
+ * Create an alert rule after validating its thresholds and delivery settings
+ */
+export async function createAlertRule(userId: string, formData: AlertRuleFormData): Promise<string> {
+  if (formData.condition === "mean_drop") {
+    if (!formData.dropPercentage || formData.dropPercentage <= 0 || formData.dropPercentage > 100) {
+      throw new Error("La caída debe ser un porcentaje entre 0 y 100");
+    }
+  } else if (typeof formData.valueThreshold !== "number" || !formData.minHectares || formData.minHectares <= 0) {
+    throw new Error("Indica el valor crítico del índice y las hectáreas mínimas");
+  }
+
+  if (formData.deliveryMethod === "email" && !formData.email) {
+    throw new Error("El correo es obligatorio para alertas por email");
+  }
+  if (formData.deliveryMethod === "whatsapp" && (!formData.phoneNumber || formData.phoneNumber.replace(/\D/g, "").length < 10)) {
+    throw new Error("El número de WhatsApp debe tener al menos 10 dígitos");
+  }
+
+  const db = getDb();
+  const ruleDataRaw: any = {
+    userId,
+    areaId: formData.areaId,
+    indexType: formData.indexType,
+    condition: formData.condition,
+    dropPercentage: formData.condition === "mean_drop" ? formData.dropPercentage : undefined,
+    valueThreshold: formData.condition === "area_below" ? formData.valueThreshold : undefined,
+    minHectares: formData.condition === "area_below" ? formData.minHectares : undefined,
+    cloudMask: formData.cloudMask,
+    deliveryMethod: formData.deliveryMethod,
+    email: formData.deliveryMethod === "email" ? formData.email : undefined,
+    phoneNumber: formData.deliveryMethod === "whatsapp" ? formData.phoneNumber?.replace(/\D/g, "") : undefined,
+    enabled: true,
+    createdAt: Timestamp.now(),
+  };
+
+  // Remove any undefined values (Firestore doesn't allow undefined)
+  const ruleData: any = {};
+  Object.keys(ruleDataRaw).forEach((key) => {
+    if (ruleDataRaw[key] !== undefined) {
+      ruleData[key] = ruleDataRaw[key];
+    }
+  });
+
+  const docRef = await addDoc(collection(db, ALERT_RULES_COLLECTION), ruleData);
+  return docRef.id;
+}
+
+/**
+ * Enable or pause an alert rule
+ */
+export async function setAlertRuleEnabled(ruleId: string, enabled: boolean): Promise<void> {
+  const db = getDb();
+  await updateDoc(doc(db, ALERT_RULES_COLLECTION, ruleId), { enabled });
+}
+
+/**
+ * Delete an alert rule (its history is kept)
+ */
+export async function deleteAlertRule(ruleId: string): Promise<void> {
+  const db = getDb();
+  await deleteDoc(doc(db, ALERT_RULES_COLLECTION, ruleId));
+}
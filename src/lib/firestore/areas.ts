@@ -6,6 +6,7 @@ import {
   addDoc,
   updateDoc,
   deleteDoc,
+  deleteField,
   query,
   where,
   Timestamp,
@@ -18,6 +19,9 @@ import { GeoPoint } from "firebase/firestore";
 
 const AREAS_COLLECTION = "areas";
 
+// Optional crop calendar of an area (crop type, sowing and expected harvest dates)
+const CROP_CALENDAR_FIELDS = ["cropType", "sowingDate", "expectedHarvestDate"] as const;
+
 /**
  * Get all areas for a user
  */
@@ -58,6 +62,9 @@ export async function getUserAreas(userId: string): Promise<Area[]> {
         name: data.name,
         userId: data.userId,
         coordinates: coords,
+        cropType: data.cropType,
+        sowingDate: data.sowingDate,
+        expectedHarvestDate: data.expectedHarvestDate,
         createdAt: data.createdAt?.toDate(),
         updatedAt: data.updatedAt?.toDate(),
       } as Area;
@@ -108,6 +115,9 @@ export async function getArea(areaId: string): Promise<Area | null> {
     name: data.name,
     userId: data.userId,
     coordinates: coords,
+    cropType: data.cropType,
+    sowingDate: data.sowingDate,
+    expectedHarvestDate: data.expectedHarvestDate,
     createdAt: data.createdAt?.toDate(),
     updatedAt: data.updatedAt?.toDate(),
   } as Area;
@@ -150,13 +160,20 @@ export async function createArea(area: Omit<Area, "id" | "createdAt" | "updatedA
     console.log("🔵 Coordinates prepared:", coordinates.length, "points");
     
     // Prepare document data
-    const areaData = {
+    const areaData: any = {
       name: area.name,
       userId: area.userId,
       coordinates: coordinates,
       createdAt: Timestamp.now(),
       updatedAt: Timestamp.now(),
     };
+
+    // Crop calendar is optional; Firestore rejects undefined fields
+    for (const field of CROP_CALENDAR_FIELDS) {
+      if (area[field]) {
+        areaData[field] = area[field];
+      }
+    }
     
     console.log("🔵 About to call addDoc...");
     
@@ -214,6 +231,13 @@ export async function updateArea(
           return { lat: 0, lng: 0 };
         });
       }
+
+  // A cleared crop calendar field is removed from the document
+  for (const field of CROP_CALENDAR_FIELDS) {
+    if (field in updates && !updates[field]) {
+      updateData[field] = deleteField();
+    }
+  }
   
   await updateDoc(docRef, updateData);
 }
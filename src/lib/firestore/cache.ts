@@ -13,8 +13,8 @@ import {
   DocumentData,
 } from "firebase/firestore";
 import { getDb } from "@/lib/firebase";
-import { SatelliteImageResponse } from "@/types/satellite";
-import { IndexType } from "@/types/report";
+import { SatelliteImageResponse, ZoneRequest } from "@/types/satellite";
+import { AnalysisIndex, CloudMaskMode, CompositeMode, OpticalSource } from "@/types/report";
 import { createHash } from "crypto";
 
 const CACHE_COLLECTION = "satellite_cache";
@@ -22,9 +22,17 @@ const CACHE_TTL_DAYS = 30; // Cache results for 30 days
 
 export interface CacheKey {
   coordinates: { lat: number; lng: number }[];
-  indexType: IndexType;
+  indexType: AnalysisIndex;
   cloudCoverage: number;
-  imageDate: string; // Date of the satellite image used (required for accurate caching)
+  imageDate: string; // Acquisition date of the satellite image used (YYYY-MM-DD)
+  sceneId?: string; // Scene used, distinguishes several tiles acquired on the same date
+  cloudMask?: CloudMaskMode; // Masking mode changes the statistics, so it is part of the key
+  source?: OpticalSource | "sentinel1"; // Imagery used; Sentinel-2 and Landsat passes can share a date
+  compositeMode?: CompositeMode;
+  compositeDates?: string[]; // Scenes in the mosaic; a new pass in the window changes the key
+  indexParams?: Record<string, number>; // Tunable constants of the index (e.g. SAVI L)
+  zones?: ZoneRequest; // Requested management zones, cached together with the image result
+  userId?: string; // Owner of a custom index; its results are never shared with other users
 }
 
 export interface CachedResult extends SatelliteImageResponse {
@@ -35,7 +43,8 @@ export interface CachedResult extends SatelliteImageResponse {
 
 /**
  * Generate a hash from cache key parameters
- * Hash includes: normalized coordinates + indexType + cloudCoverage + imageDate
+ * Hash includes: normalized coordinates + indexType + cloudCoverage + imageDate + sceneId + cloudMask + source
+ * + composite mode and contributing dates + index parameters + zone settings + custom index owner
  */
 export function generateCacheHash(key: CacheKey): string {
   // Normalize coordinates by sorting and rounding to reduce precision for better cache hits
@@ -54,7 +63,16 @@ export function generateCacheHash(key: CacheKey): string {
     coords: normalizedCoords,
     indexType: key.indexType,
     cloudCoverage: key.cloudCoverage,
-    imageDate: key.imageDate || "latest", // Use "latest" for most recent images
+    imageDate: key.imageDate, // Real acquisition date, so a newer pass invalidates old entries
+    sceneId: key.sceneId || null,
+    cloudMask: key.cloudMask || "qa60",
+    source: key.source || "sentinel2",
+    compositeMode: key.compositeMode || null,
+    compositeDates: key.compositeDates || null,
+    indexParams: key.indexParams || null,
+    zones: key.zones ? { count: key.zones.count, method: key.zones.method } : null,
+    // Only set for custom indices, so the hashes of built-in indices are unchanged
+    ...(key.userId ? { userId: key.userId } : {}),
   });
 
   return createHash("sha256").update(hashString).digest("hex");
@@ -92,8 +110,24 @@ export async function getCachedResult(
       minValue: data.minValue,
       maxValue: data.maxValue,
       meanValue: data.meanValue,
+      stdDev: data.stdDev,
+      percentiles: data.percentiles,
+      histogram: data.histogram,
+      stretch: data.stretch,
       date: data.date,
       indexType: data.indexType,
+      indexName: data.indexName,
+      palette: data.palette,
+      sceneId: data.sceneId,
+      acquisitionTime: data.acquisitionTime,
+      tileId: data.tileId,
+      cloudPercentage: data.cloudPercentage,
+      sensor: data.sensor,
+      source: data.source,
+      cloudMask: data.cloudMask,
+      maskedPercentage: data.maskedPercentage,
+      composite: data.composite,
+      zones: data.zonesJson ? JSON.parse(data.zonesJson) : undefined,
       cachedAt: cachedAt || new Date(),
       imageDate: data.imageDate || data.date,
       hash: hash,
@@ -117,10 +151,26 @@ export async function setCachedResult(
     const db = getDb();
     const cacheRef = doc(db, CACHE_COLLECTION, hash);
 
+    // Remove any undefined values (Firestore doesn't allow undefined)
+    // Composites have no single scene, so their scene metadata fields are undefined
+    const resultData: any = {};
+    Object.keys(result).forEach((field) => {
+      const value = (result as any)[field];
+      if (value !== undefined) {
+        resultData[field] = value;
+      }
+    });
+
+    // Firestore doesn't allow nested arrays, so zone geometries are stored as JSON
+    if (resultData.zones) {
+      resultData.zonesJson = JSON.stringify(resultData.zones);
+      delete resultData.zones;
+    }
+
     await setDoc(
       cacheRef,
       {
-        ...result,
+        ...resultData,
         imageDate: imageDate,
         cachedAt: Timestamp.now(),
         hash: hash,
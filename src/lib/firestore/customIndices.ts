@@ -0,0 +1,75 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  addDoc,
+  deleteDoc,
+  query,
+  where,
+  Timestamp,
+} from "firebase/firestore";
+import { getDb } from "@/lib/firebase";
+import { CustomIndex, CustomIndexFormData } from "@/types/customIndex";
+import { validateIndexExpression } from "@/lib/indices/expression";
+import { DEFAULT_CUSTOM_PALETTE } from "@/lib/indices/registry";
+
+const CUSTOM_INDICES_COLLECTION = "custom_indices";
+
+/**
+ * Get all custom indices defined by a user
+ */
+export async function getUserCustomIndices(userId: string): Promise<CustomIndex[]> {
+  const db = getDb();
+  const q = query(collection(db, CUSTOM_INDICES_COLLECTION), where("userId", "==", userId));
+  const querySnapshot = await getDocs(q);
+
+  return querySnapshot.docs.map((docSnap) => {
+    const data = docSnap.data();
+    return {
+      id: docSnap.id,
+      ...data,
+      createdAt: data.createdAt?.toDate(),
+    } as CustomIndex;
+  });
+}
+
+/**
+ * Create a custom index after validating its band-math expression
+ */
+export async function createCustomIndex(userId: string, formData: CustomIndexFormData): Promise<string> {
+  const name = formData.name.trim();
+  if (!name) {
+    throw new Error("El nombre del índice es obligatorio");
+  }
+
+  const expression = formData.expression.trim();
+  const expressionError = validateIndexExpression(expression);
+  if (expressionError) {
+    throw new Error(expressionError);
+  }
+
+  const db = getDb();
+  const indexData: any = {
+    userId,
+    name,
+    expression,
+    palette: formData.palette && formData.palette.length >= 2 ? formData.palette : DEFAULT_CUSTOM_PALETTE,
+    createdAt: Timestamp.now(),
+  };
+
+  // Only include description if provided (Firestore doesn't allow undefined)
+  if (formData.description) {
+    indexData.description = formData.description;
+  }
+
+  const docRef = await addDoc(collection(db, CUSTOM_INDICES_COLLECTION), indexData);
+  return docRef.id;
+}
+
+/**
+ * Delete a custom index
+ */
+export async function deleteCustomIndex(indexId: string): Promise<void> {
+  const db = getDb();
+  await deleteDoc(doc(db, CUSTOM_INDICES_COLLECTION, indexId));
+}
@@ -0,0 +1,44 @@
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+} from "firebase/firestore";
+import { getDb } from "@/lib/firebase";
+import { Observation } from "@/types/observation";
+import { IndexType } from "@/types/report";
+
+const OBSERVATIONS_COLLECTION = "observations";
+
+/**
+ * Get the observation history of an area for one index, most recent image first
+ */
+export async function getAreaObservations(
+  userId: string,
+  areaId: string,
+  indexType: IndexType,
+  maxObservations: number = 50
+): Promise<Observation[]> {
+  const db = getDb();
+  // userId filter is required by the security rules for list queries
+  const q = query(
+    collection(db, OBSERVATIONS_COLLECTION),
+    where("userId", "==", userId),
+    where("areaId", "==", areaId),
+    where("indexType", "==", indexType),
+    orderBy("imageDate", "desc"),
+    limit(maxObservations)
+  );
+  const querySnapshot = await getDocs(q);
+
+  return querySnapshot.docs.map((docSnap) => {
+    const data = docSnap.data();
+    return {
+      id: docSnap.id,
+      ...data,
+      createdAt: data.createdAt?.toDate(),
+    } as Observation;
+  });
+}
@@ -8,12 +8,17 @@ import {
   deleteDoc,
   query,
   where,
+  orderBy,
+  limit,
   Timestamp,
+  deleteField,
 } from "firebase/firestore";
 import { getDb } from "@/lib/firebase";
 import { Report, ReportFrequency } from "@/types/report";
+import { ReportRun } from "@/types/reportRun";
 
 const REPORTS_COLLECTION = "reports";
+const REPORT_RUNS_COLLECTION = "report_runs";
 
 /**
  * Calculate next run date based on frequency
@@ -101,6 +106,32 @@ export async function getReport(reportId: string): Promise<Report | null> {
   } as Report;
 }
 
+/**
+ * Get the run history of a report, most recent run first
+ */
+export async function getReportRuns(reportId: string, maxRuns: number = 10): Promise<ReportRun[]> {
+  const db = getDb();
+  const q = query(
+    collection(db, REPORTS_COLLECTION, reportId, REPORT_RUNS_COLLECTION),
+    orderBy("startedAt", "desc"),
+    limit(maxRuns)
+  );
+  const querySnapshot = await getDocs(q);
+
+  return querySnapshot.docs.map((docSnap) => {
+    const data = docSnap.data();
+    return {
+      id: docSnap.id,
+      ...data,
+      startedAt: data.startedAt?.toDate(),
+      finishedAt: data.finishedAt?.toDate(),
+      delivery: data.delivery
+        ? { ...data.delivery, sentAt: data.delivery.sentAt?.toDate(), updatedAt: data.delivery.updatedAt?.toDate() }
+        : undefined,
+    } as ReportRun;
+  });
+}
+
 /**
  * Create a new report
  */
@@ -137,6 +168,37 @@ export async function createReport(
     if (report.name) {
       normalizedReport.name = report.name;
     }
+    
+    // Only include cloudMask if provided (reports without it use QA60 masking)
+    if (report.cloudMask) {
+      normalizedReport.cloudMask = report.cloudMask;
+    }
+    
+    // Only include index parameters if provided (registry defaults apply otherwise)
+    if (report.indexParams && Object.keys(report.indexParams).length > 0) {
+      normalizedReport.indexParams = report.indexParams;
+    }
+    
+    // Only include the change section flag when enabled
+    if (report.includeChange) {
+      normalizedReport.includeChange = true;
+    }
+    
+    // Only include thermal sections when selected
+    if (report.thermalLayers && report.thermalLayers.length > 0) {
+      normalizedReport.thermalLayers = report.thermalLayers;
+    }
+    
+    // Only include the yield potential section flag when enabled
+    if (report.includeYieldPotential) {
+      normalizedReport.includeYieldPotential = true;
+    }
+    
+    // Only include composite settings if provided (reports without them use the most recent image)
+    if (report.compositeMode) {
+      normalizedReport.compositeMode = report.compositeMode;
+      normalizedReport.compositeDays = report.compositeDays;
+    }
   
   const db = getDb();
   const reportDataRaw = {
@@ -165,6 +227,8 @@ export async function createReport(
       status: reportData.status,
       hasName: !!reportData.name,
       cloudCoverage: reportData.cloudCoverage,
+      cloudMask: reportData.cloudMask,
+      compositeMode: reportData.compositeMode,
     });
   
   const docRef = await addDoc(collection(db, REPORTS_COLLECTION), reportData);
@@ -206,6 +270,18 @@ export async function updateReport(
     }
   });
   
+  // Switching back to the most recent image clears the stored composite settings
+  if ("compositeMode" in updates && !updates.compositeMode) {
+    updateData.compositeMode = deleteField();
+    updateData.compositeDays = deleteField();
+  }
+  
+  // Reactivating clears an automatic pause after failed deliveries
+  if (updates.status === "active") {
+    updateData.pausedReason = deleteField();
+    updateData.deliveryFailures = 0;
+  }
+  
   // Normalize phone number if provided
   if (updateData.phoneNumber) {
     updateData.phoneNumber = updateData.phoneNumber.replace(/\D/g, "");
@@ -0,0 +1,624 @@
+import * as ee from "@google/earthengine";
+import { CustomIndexId, IndexParams, IndexType, OpticalSource, RadarIndexType, Report, ThermalLayerType } from "@/types/report";
+import { IndexStatistics, TimeSeriesPoint } from "@/types/satellite";
+import { CustomIndex } from "@/types/customIndex";
+import { Area } from "@/types/area";
+import { WeatherSummary } from "@/types/weather";
+import { AreaPhenology } from "@/types/phenology";
+import { calculateExpression, calculateIndex, getSentinel2Collection, getLandsatCollection, getMostRecentImage, getImageMetadata } from "@/lib/indices/calculations";
+import { buildComposite, getContributingDates, getCompositeDateRange } from "@/lib/indices/composite";
+import { calculateRadarIndex, getSentinel1Collection, getRadarImageMetadata, RADAR_BASE_VISUALIZATION, RADAR_FALLBACK_INDICES } from "@/lib/indices/radar";
+import { calculateThermalLayer } from "@/lib/indices/thermal";
+import { getStatisticsReducer, parseIndexStatistics, getStretch } from "@/lib/indices/statistics";
+import { CUSTOM_INDEX_BAND, getIndexPalette, getIndexRange, isCustomIndexId, isIndexSupported, isIndexType, isRadarIndexType, isThermalLayerType } from "@/lib/indices/registry";
+import { getAreaPhenology } from "@/lib/indices/phenology";
+import { computeReportChange, getReportImageAsOf, ReportChange } from "@/lib/indices/change";
+import { getWeatherSummary } from "@/lib/weather/era5";
+import { getReportPeriodDays } from "@/lib/utils/reports";
+import { calculateBoundingBox } from "@/lib/images/compositeImage";
+import { calculatePolygonArea, squareMetersToKm, getAdaptiveScale } from "@/lib/utils/geometry";
+
+// Buffer around the polygon bounds: the raw image is clipped to it before any index math
+const BBOX_BUFFER_METERS = 1000;
+
+const STATISTICS_TIMEOUT_MS = 90000;
+const TILE_URL_TIMEOUT_MS = 60000;
+const THUMBNAIL_TIMEOUT_MS = 60000;
+
+const THUMBNAIL_DIMENSIONS = 1200;
+const THUMBNAIL_PADDING_PERCENT = 5;
+
+// RGB at typical Sentinel-2 reflectance values (Landsat is harmonized to the same bands)
+const OPTICAL_BASE_VISUALIZATION = {
+  bands: ["B4", "B3", "B2"],
+  min: [0, 0, 0],
+  max: [3000, 3000, 3000],
+};
+
+// Anything the service can map: built-in, radar and thermal layers, or a user's custom index
+export type AnalysisLayer = IndexType | RadarIndexType | ThermalLayerType | CustomIndexId;
+
+export interface AnalysisOptions {
+  image: ee.Image; // Selected scene or composite every layer is computed on
+  source?: OpticalSource; // Band naming of optical images, defaults to "sentinel2"
+  indexParams?: IndexParams; // Tunable constants of built-in indices
+  customIndex?: CustomIndex | null; // Definition behind a CustomIndexId layer
+  scale?: number; // Reduction scale in meters, adaptive to the area size by default
+  thumbnails?: boolean; // Also render RGB base and overlay thumbnails of the padded bounds
+}
+
+export interface LayerAnalysis<L extends AnalysisLayer = AnalysisLayer> {
+  layer: L;
+  bandName: string; // Band of the index image (CUSTOM for custom indices)
+  stats: IndexStatistics;
+  stretch: { min: number; max: number }; // Color stretch between percentiles
+  palette: string[];
+  maskedPercentage: number; // 0-100, share of the polygon removed by the cloud mask
+  tileUrl: string; // XYZ tile URL of the index clipped to the polygon
+  thumbnailUrl?: string; // Index overlay over the padded bounds, when thumbnails are requested
+  baseSatelliteUrl?: string; // RGB (or radar backscatter) base over the same bounds
+  indexImage: ee.Image; // Index clipped to the polygon, e.g. for management zones
+}
+
+export interface AreaAnalysis<L extends AnalysisLayer = AnalysisLayer> {
+  polygon: ee.Geometry;
+  areaKm2: number;
+  scale: number;
+  layers: LayerAnalysis<L>[]; // Successful layers, in request order
+  errors: Array<{ layer: L; error: Error }>; // Layers that failed, so callers can keep partial results
+}
+
+/**
+ * Run an Earth Engine call that reports through a callback, with a timeout
+ */
+function withTimeout<T>(run: (callback: (value: T, error?: Error) => void) => void, timeoutMs: number, message: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error(message));
+    }, timeoutMs);
+
+    run((value: T, error?: Error) => {
+      clearTimeout(timeout);
+      if (error) reject(error);
+      else resolve(value);
+    });
+  });
+}
+
+/**
+ * Padded bounds of an area; base and overlay thumbnails share them so they line up
+ */
+function getThumbnailRegion(coordinates: { lat: number; lng: number }[]): ee.Geometry {
+  const bounds = calculateBoundingBox(coordinates, THUMBNAIL_PADDING_PERCENT);
+  return ee.Geometry.Polygon([[
+    [bounds.minLng, bounds.minLat],
+    [bounds.maxLng, bounds.minLat],
+    [bounds.maxLng, bounds.maxLat],
+    [bounds.minLng, bounds.maxLat],
+    [bounds.minLng, bounds.minLat],
+  ]]);
+}
+
+/**
+ * Base thumbnail of an image: RGB, or backscatter for radar layers
+ */
+function getBaseThumbnailUrl(image: ee.Image, region: ee.Geometry, radar: boolean): Promise<string> {
+  return withTimeout<string>(
+    (callback) => (image as any).getThumbURL({
+      dimensions: THUMBNAIL_DIMENSIONS,
+      format: "png",
+      region,
+      ...(radar ? RADAR_BASE_VISUALIZATION : OPTICAL_BASE_VISUALIZATION),
+    }, callback),
+    THUMBNAIL_TIMEOUT_MS,
+    "Base thumbnail generation timed out"
+  );
+}
+
+/**
+ * Reduction scale of an area: adaptive to its size, never finer than Landsat's 30 m pixels
+ * when the image is Landsat (thermal layers always are)
+ */
+export function getAnalysisScale(areaKm2: number, source: OpticalSource = "sentinel2", layer?: AnalysisLayer): number {
+  const scale = getAdaptiveScale(areaKm2);
+  return source === "landsat" || isThermalLayerType(layer) ? Math.max(scale, 30) : scale;
+}
+
+/**
+ * Compute one layer of an already clipped image
+ */
+function calculateLayer(
+  clippedImage: ee.Image,
+  layer: AnalysisLayer,
+  bufferedBbox: ee.Geometry,
+  options: AnalysisOptions
+): ee.Image {
+  if (isCustomIndexId(layer)) {
+    if (!options.customIndex) {
+      throw new Error(`Missing definition of custom index ${layer}`);
+    }
+    return calculateExpression(clippedImage, options.customIndex.expression, CUSTOM_INDEX_BAND);
+  }
+  if (isRadarIndexType(layer)) {
+    return calculateRadarIndex(clippedImage, layer);
+  }
+  if (isThermalLayerType(layer)) {
+    return calculateThermalLayer(clippedImage, layer, bufferedBbox);
+  }
+  return calculateIndex(clippedImage, layer, options.indexParams?.[layer], options.source);
+}
+
+// A layer whose index image is built but not yet reduced
+interface ComputedLayer<L extends AnalysisLayer> {
+  layer: L;
+  bandName: string;
+  indexImage: ee.Image; // Clipped to the buffered bounds, for thumbnails
+  clipped: ee.Image; // Clipped to the polygon, for statistics and tiles
+  histogramRange?: [number, number];
+  palette: string[];
+}
+
+/**
+ * Reduce the statistics of every layer in a single Earth Engine request
+ * Layers are stacked into one multi-band image; bands sharing a histogram range are reduced
+ * together, and the reductions of all range groups are fetched as one dictionary
+ * An unmasked constant band counts every polygon pixel, so comparing it with each index's
+ * pixel count gives the share removed by the cloud mask in the same request
+ * @returns Flat reduceRegion values keyed by `<band>_<statistic>`
+ */
+async function reduceLayers(
+  computed: ComputedLayer<AnalysisLayer>[],
+  polygon: ee.Geometry,
+  scale: number
+): Promise<Record<string, any>> {
+  const stacked = computed.reduce(
+    (image, { clipped }) => image.addBands(clipped),
+    ee.Image.constant(1).rename("total")
+  );
+
+  const groups = new Map<string, { histogramRange?: [number, number]; bands: string[] }>();
+  for (const { bandName, histogramRange } of computed) {
+    const key = histogramRange ? histogramRange.join(":") : "auto";
+    if (!groups.has(key)) groups.set(key, { histogramRange, bands: [] });
+    groups.get(key)!.bands.push(bandName);
+  }
+
+  const reductions: Record<string, ee.ComputedObject> = {};
+  Array.from(groups.values()).forEach(({ histogramRange, bands }, i) => {
+    reductions[`group${i}`] = stacked.select([...bands, "total"]).reduceRegion({
+      reducer: getStatisticsReducer(histogramRange),
+      geometry: polygon,
+      scale,
+      maxPixels: 1e9,
+      bestEffort: true, // Use best effort mode to avoid timeouts
+      tileScale: 4, // Increase tile scale for better performance
+    });
+  });
+
+  const value = await withTimeout<Record<string, Record<string, any>> | null>(
+    (callback) => ee.Dictionary(reductions).getInfo(callback),
+    STATISTICS_TIMEOUT_MS,
+    `Statistics computation timed out for ${computed.map(({ layer }) => layer).join(", ")}. Try reducing the area size.`
+  );
+  return Object.assign({}, ...Object.values(value || {}));
+}
+
+/**
+ * Finish one layer from the shared statistics: percentile stretch, tile URL and optional overlay
+ */
+async function finishLayer<L extends AnalysisLayer>(
+  { layer, bandName, indexImage, clipped, histogramRange, palette }: ComputedLayer<L>,
+  statsValue: Record<string, any>,
+  thumbnailRegion: ee.Geometry | null,
+  getBaseThumbnail: (radar: boolean) => Promise<string | undefined>
+): Promise<LayerAnalysis<L>> {
+  if (statsValue[`${bandName}_min`] === undefined || statsValue[`${bandName}_max`] === undefined) {
+    throw new Error(`Statistics missing expected keys for ${bandName}. Received: ${Object.keys(statsValue).join(", ")}`);
+  }
+  // Every pixel masked (clouds, or ET without an ERA5-Land day): no statistics to show
+  if (statsValue[`${bandName}_min`] === null) {
+    throw new Error(`No valid pixels for ${layer} in the area`);
+  }
+
+  // Stretch colors between percentiles so outlier pixels don't wash out the field
+  const stats = parseIndexStatistics(statsValue, bandName, histogramRange);
+  const stretch = getStretch(stats);
+  const totalPixels = statsValue.total_count || 0;
+  const validPixels = statsValue[`${bandName}_count`] || 0;
+  const maskedPercentage = totalPixels > 0
+    ? Math.max(0, Math.min(100, (1 - validPixels / totalPixels) * 100))
+    : 0;
+
+  const visualization = { min: stretch.min, max: stretch.max, palette };
+  const mapId = await withTimeout<any>(
+    (callback) => clipped.getMapId(visualization, callback),
+    TILE_URL_TIMEOUT_MS,
+    `Tile URL generation timed out for ${layer}`
+  );
+  const tileUrl = mapId?.urlFormat || mapId?.tile_fetcher?.url_format || mapId?.url_format;
+  if (!tileUrl) {
+    throw new Error(`Failed to generate tile URL from Earth Engine. MapId structure: ${JSON.stringify(Object.keys(mapId || {}))}`);
+  }
+
+  const analysis: LayerAnalysis<L> = {
+    layer,
+    bandName,
+    stats,
+    stretch,
+    palette,
+    maskedPercentage,
+    tileUrl,
+    indexImage: clipped,
+  };
+
+  // Base and overlay share the same bounds so they can be composited without the browser renderer
+  if (thumbnailRegion) {
+    try {
+      analysis.baseSatelliteUrl = await getBaseThumbnail(isRadarIndexType(layer));
+      analysis.thumbnailUrl = await withTimeout<string>(
+        (callback) => (indexImage as any).getThumbURL({
+          dimensions: THUMBNAIL_DIMENSIONS,
+          format: "png",
+          region: thumbnailRegion,
+          ...visualization,
+        }, callback),
+        THUMBNAIL_TIMEOUT_MS,
+        "Overlay thumbnail generation timed out"
+      );
+    } catch (thumbError: any) {
+      // Non-critical: callers fall back to the tile URL
+      console.log(`[Analysis] Thumbnail generation failed for ${layer}: ${thumbError.message}`);
+    }
+  }
+
+  return analysis;
+}
+
+/**
+ * Analyze an area: clip the image to the buffered polygon bounds, compute every requested
+ * layer and return its statistics, tile URL and (optionally) thumbnails
+ * The statistics of all layers come from one Earth Engine request; tile URLs and thumbnails
+ * are then requested per layer, concurrently. Scene metadata, weather, phenology and change
+ * are not batched here: callers fetch them with their own requests. A failing layer is
+ * reported in `errors` without stopping the rest
+ */
+export async function analyzeArea<L extends AnalysisLayer>(
+  coordinates: { lat: number; lng: number }[],
+  layers: L[],
+  options: AnalysisOptions
+): Promise<AreaAnalysis<L>> {
+  const polygon = ee.Geometry.Polygon([coordinates.map((coord) => [coord.lng, coord.lat])], "EPSG:4326");
+  const areaKm2 = squareMetersToKm(calculatePolygonArea(coordinates));
+  const scale = options.scale ?? getAnalysisScale(areaKm2, options.source, layers[0]);
+  const analysis: AreaAnalysis<L> = { polygon, areaKm2, scale, layers: [], errors: [] };
+
+  // Clipping the raw image to the AOI bounds before any index math processes only
+  // the pixels around the field instead of the whole satellite tile
+  const bufferedBbox = polygon.bounds().buffer(BBOX_BUFFER_METERS);
+  const clippedImage = options.image.clip(bufferedBbox);
+
+  const computed: ComputedLayer<L>[] = [];
+  for (const layer of Array.from(new Set(layers))) {
+    try {
+      const custom = isCustomIndexId(layer);
+      const indexImage = calculateLayer(clippedImage, layer, bufferedBbox, options);
+      computed.push({
+        layer,
+        bandName: custom ? CUSTOM_INDEX_BAND : layer,
+        indexImage,
+        clipped: indexImage.clip(polygon),
+        histogramRange: custom ? undefined : getIndexRange(layer as IndexType | RadarIndexType | ThermalLayerType),
+        palette: custom ? options.customIndex!.palette : getIndexPalette(layer as IndexType | RadarIndexType | ThermalLayerType),
+      });
+    } catch (error: any) {
+      console.error(`[Analysis] Error computing ${layer}:`, error.message);
+      analysis.errors.push({ layer, error });
+    }
+  }
+  if (computed.length === 0) return analysis;
+
+  const layerNames = computed.map(({ layer }) => layer).join(", ");
+  console.log(`[Analysis] Computing ${layerNames} (scale: ${scale}m, area: ${areaKm2.toFixed(2)} km²)...`);
+  let statsValue: Record<string, any>;
+  try {
+    statsValue = await reduceLayers(computed, polygon, scale);
+  } catch (error: any) {
+    console.error(`[Analysis] Error computing statistics of ${layerNames}:`, error.message);
+    analysis.errors.push(...computed.map(({ layer }) => ({ layer, error })));
+    return analysis;
+  }
+
+  const thumbnailRegion = options.thumbnails ? getThumbnailRegion(coordinates) : null;
+
+  // The base image is the same for every layer, so it is rendered once (per kind of base)
+  const baseThumbnails = new Map<boolean, Promise<string | undefined>>();
+  const getBaseThumbnail = (radar: boolean) => {
+    if (!baseThumbnails.has(radar)) {
+      baseThumbnails.set(radar, getBaseThumbnailUrl(options.image, thumbnailRegion!, radar));
+    }
+    return baseThumbnails.get(radar)!;
+  };
+
+  const finished = await Promise.all(computed.map(async (layer) => {
+    try {
+      return await finishLayer(layer, statsValue, thumbnailRegion, getBaseThumbnail);
+    } catch (error: any) {
+      console.error(`[Analysis] Error analyzing ${layer.layer}:`, error.message);
+      analysis.errors.push({ layer: layer.layer, error });
+      return null;
+    }
+  }));
+  for (const layer of finished) {
+    if (layer) analysis.layers.push(layer);
+  }
+  console.log(`[Analysis] ✅ Analyzed ${analysis.layers.length}/${analysis.layers.length + analysis.errors.length} layer(s)`);
+  return analysis;
+}
+
+/**
+ * Base and overlay thumbnails of an analyzed layer, for callers that only need them when
+ * the tile renderer fails; the overlay is the index clipped to the polygon
+ */
+export async function renderLayerThumbnails(
+  image: ee.Image,
+  layer: LayerAnalysis,
+  coordinates: { lat: number; lng: number }[]
+): Promise<{ baseSatelliteUrl: string; thumbnailUrl: string }> {
+  const region = getThumbnailRegion(coordinates);
+  const [baseSatelliteUrl, thumbnailUrl] = await Promise.all([
+    getBaseThumbnailUrl(image, region, isRadarIndexType(layer.layer)),
+    withTimeout<string>(
+      (callback) => (layer.indexImage as any).getThumbURL({
+        dimensions: THUMBNAIL_DIMENSIONS,
+        format: "png",
+        region,
+        min: layer.stretch.min,
+        max: layer.stretch.max,
+        palette: layer.palette,
+      }, callback),
+      THUMBNAIL_TIMEOUT_MS,
+      "Overlay thumbnail generation timed out"
+    ),
+  ]);
+  return { baseSatelliteUrl, thumbnailUrl };
+}
+
+// Layers a scheduled or manual report can include
+export type ReportLayer = IndexType | RadarIndexType | ThermalLayerType;
+
+// One analyzed layer of a report area, as rendered in the email, PDF and observation history
+export interface ReportLayerResult {
+  areaId: string;
+  areaName: string;
+  indexType: ReportLayer;
+  imageUrl: string;
+  thumbnailUrl?: string;
+  baseSatelliteUrl?: string; // RGB base satellite image from Earth Engine
+  stats: IndexStatistics;
+  imageDate?: string; // Acquisition date of the analyzed image (latest scene for composites)
+  imageDates?: string[]; // Scenes behind a composite image
+  source?: OpticalSource; // Imagery of optical indices (radar indices have none)
+  weather?: WeatherSummary | null; // Weather of the area over the report period
+  phenology?: AreaPhenology | null; // Crop calendar and season of the area
+  change?: ReportChange; // Change since the last report
+  centerLat?: number;
+  centerLng?: number;
+  coordinates?: { lat: number; lng: number }[];
+}
+
+export interface ReportAreaOptions {
+  seasonNdvi?: Map<string, TimeSeriesPoint[]>; // NDVI season series by area, reused by the yield ranking
+  logPrefix?: string; // Console prefix of the calling route
+}
+
+/**
+ * Analyze one area of a report: pick the image (most recent scene or composite, falling
+ * back to Landsat 8/9 and then Sentinel-1 radar when no clear Sentinel-2 image exists),
+ * then compute every index and thermal layer with its weather, phenology and change
+ * @returns Entries of the successful layers, and the layers that failed
+ */
+export async function analyzeReportArea(
+  area: Area,
+  report: Report,
+  options: ReportAreaOptions = {}
+): Promise<{ entries: ReportLayerResult[]; errors: Array<{ layer: ReportLayer; error: Error }> }> {
+  const logPrefix = options.logPrefix ?? "[Analysis]";
+
+  const coordinates: { lat: number; lng: number }[] = area.coordinates.map((coord: any) => ({
+    lat: coord.latitude || coord.lat,
+    lng: coord.longitude || coord.lng,
+  }));
+  const polygon = ee.Geometry.Polygon(
+    [coordinates.map((coord) => [coord.lng, coord.lat])],
+    "EPSG:4326"
+  );
+  const areaScale = getAdaptiveScale(squareMetersToKm(calculatePolygonArea(coordinates)));
+
+  // Composite reports mosaic every clear scene in the window instead of the most recent one
+  const compositeRange = report.compositeMode ? getCompositeDateRange(report.compositeDays) : undefined;
+  let compositeDates: string[] | undefined;
+  if (report.compositeMode) {
+    try {
+      compositeDates = await getContributingDates(
+        getSentinel2Collection(report.cloudCoverage, compositeRange, report.cloudMask).filterBounds(polygon),
+        polygon,
+        areaScale
+      );
+      console.log(`${logPrefix} Composite dates for ${area.name}:`, compositeDates);
+    } catch (datesError: any) {
+      // Non-critical: the composite is still generated, only the date list is missing
+      console.error(`${logPrefix} Failed to list composite dates for ${area.name}:`, datesError.message);
+    }
+  }
+
+  // Acquisition date of the analyzed image, stored with the observation history
+  let imageDate: string | undefined = compositeDates?.[compositeDates.length - 1];
+  // False when no clear Sentinel-2 image covers the area (composite window or last 60 days)
+  let opticalAvailable = !compositeDates || compositeDates.length > 0;
+  if (!report.compositeMode) {
+    try {
+      const latestImage = getMostRecentImage(
+        getSentinel2Collection(report.cloudCoverage, undefined, report.cloudMask).filterBounds(polygon)
+      );
+      imageDate = (await getImageMetadata(latestImage)).date;
+    } catch (metadataError: any) {
+      if (metadataError.message === "Image is missing system:time_start") {
+        opticalAvailable = false; // No Sentinel-2 scene in the last 60 days
+      } else {
+        // Non-critical: the report is still sent, only the observation is skipped
+        console.error(`${logPrefix} Failed to read image date for ${area.name}:`, metadataError.message);
+      }
+    }
+  }
+
+  // No clear Sentinel-2 image: try Landsat 8/9 first, which passes on other days,
+  // for the requested indices it can compute (red-edge indices need Sentinel-2)
+  const landsatIndices = report.indices.filter((indexType) => isIndexSupported(indexType, "landsat"));
+  const latestLandsat = opticalAvailable || landsatIndices.length === 0
+    ? null
+    : getMostRecentImage(getLandsatCollection(report.cloudCoverage, compositeRange).filterBounds(polygon));
+  let landsatImage: ee.Image | null = null;
+  if (latestLandsat) {
+    try {
+      imageDate = (await getImageMetadata(latestLandsat)).date;
+      landsatImage = latestLandsat;
+      console.log(`${logPrefix} No clear Sentinel-2 image for ${area.name}, falling back to Landsat 8/9`);
+    } catch (landsatError: any) {
+      console.error(`${logPrefix} No Landsat image either for ${area.name}:`, landsatError.message);
+    }
+  }
+
+  // Weeks of clouds leave no usable optical image: fall back to Sentinel-1 radar,
+  // which sees through clouds, so the report still shows the state of the crop
+  const latestRadar = opticalAvailable || landsatImage ? null : getMostRecentImage(getSentinel1Collection().filterBounds(polygon));
+  let radarImage: ee.Image | null = null;
+  if (latestRadar) {
+    console.log(`${logPrefix} No clear Sentinel-2 image for ${area.name}, falling back to Sentinel-1 radar`);
+    try {
+      imageDate = (await getRadarImageMetadata(latestRadar)).date;
+      radarImage = latestRadar;
+    } catch (radarError: any) {
+      console.error(`${logPrefix} No Sentinel-1 image either for ${area.name}:`, radarError.message);
+    }
+  }
+
+  // Thermal sections (LST/ET) always come from the latest Landsat scene
+  let thermalImage: ee.Image | null = null;
+  let thermalDate: string | undefined;
+  if (report.thermalLayers?.length) {
+    const latestThermal = landsatImage || getMostRecentImage(getLandsatCollection(report.cloudCoverage).filterBounds(polygon));
+    try {
+      thermalDate = (await getImageMetadata(latestThermal)).date;
+      thermalImage = latestThermal;
+    } catch (thermalError: any) {
+      console.error(`${logPrefix} No Landsat scene for the thermal layers of ${area.name}:`, thermalError.message);
+    }
+  }
+
+  const opticalIndices: Array<IndexType | RadarIndexType> = radarImage ? RADAR_FALLBACK_INDICES : landsatImage ? landsatIndices : report.indices;
+  const source: OpticalSource = landsatImage ? "landsat" : "sentinel2";
+
+  // Weather over the report period, shown next to the index statistics (non-critical)
+  let weather: WeatherSummary | null = null;
+  try {
+    weather = await getWeatherSummary(polygon, getReportPeriodDays(report.frequency, report.lastGenerated));
+  } catch (weatherError: any) {
+    console.error(`${logPrefix} Failed to compute weather for ${area.name}:`, weatherError.message);
+  }
+
+  // Crop calendar and season phenology from the NDVI since sowing (non-critical)
+  let phenology: AreaPhenology | null = null;
+  try {
+    phenology = await getAreaPhenology(polygon, area, areaScale, options.seasonNdvi);
+  } catch (phenologyError: any) {
+    console.error(`${logPrefix} Failed to compute phenology for ${area.name}:`, phenologyError.message);
+  }
+
+  // Image analyzed by the previous report, for the "changes since the last report" section
+  const previousImage = report.includeChange && report.lastGenerated
+    ? getReportImageAsOf(report, polygon, new Date(report.lastGenerated))
+    : null;
+
+  // Sentinel-2 collection (composite window, or the last 60 days for the most recent image)
+  const collection = getSentinel2Collection(report.cloudCoverage, compositeRange, report.cloudMask)
+    .filterBounds(polygon);
+
+  // Build the composite, or select the most recent image
+  const image = radarImage
+    ? radarImage
+    : landsatImage
+      ? landsatImage
+      : report.compositeMode
+        ? buildComposite(collection, report.compositeMode)
+        : getMostRecentImage(collection);
+
+  // Statistics, tile URL and thumbnails of each index; thermal layers on the Landsat scene
+  console.log(`${logPrefix} Processing indices: ${[...opticalIndices, ...(thermalImage ? report.thermalLayers! : [])].join(", ")} for area: ${area.name}`);
+  const analyses: Array<AreaAnalysis<ReportLayer>> = [
+    await analyzeArea<ReportLayer>(coordinates, opticalIndices, {
+      image,
+      source,
+      indexParams: report.indexParams,
+      thumbnails: true,
+    }),
+  ];
+  if (thermalImage) {
+    analyses.push(await analyzeArea<ReportLayer>(coordinates, report.thermalLayers!, {
+      image: thermalImage,
+      source: "landsat",
+      thumbnails: true,
+    }));
+  }
+
+  // Center of the area, for tile selection
+  const centerLat = coordinates.reduce((sum, coord) => sum + coord.lat, 0) / coordinates.length;
+  const centerLng = coordinates.reduce((sum, coord) => sum + coord.lng, 0) / coordinates.length;
+
+  const entries: ReportLayerResult[] = [];
+  for (const analysis of analyses) {
+    for (const { layer: indexType, stats, tileUrl, thumbnailUrl, baseSatelliteUrl } of analysis.layers) {
+      // Change since the last report (non-critical: the section is left out on failure)
+      let change: ReportChange | undefined;
+      if (previousImage && isIndexType(indexType)) {
+        try {
+          console.log(`${logPrefix} Computing change since ${new Date(report.lastGenerated).toISOString()} for ${indexType}...`);
+          change = await computeReportChange({
+            previous: previousImage,
+            current: image,
+            indexType,
+            params: report.indexParams?.[indexType],
+            polygon,
+            coordinates,
+            scale: analysis.scale,
+            since: new Date(report.lastGenerated),
+          });
+          console.log(`${logPrefix} ✅ Change computed for ${indexType}: ${change.declinedHectares.toFixed(2)} ha declined`);
+        } catch (changeError: any) {
+          console.error(`${logPrefix} Change computation failed for ${indexType}:`, changeError.message);
+        }
+      }
+
+      entries.push({
+        areaId: area.id!,
+        areaName: area.name,
+        indexType,
+        imageUrl: tileUrl,
+        thumbnailUrl,
+        baseSatelliteUrl,
+        stats,
+        centerLat,
+        centerLng,
+        coordinates, // For composite generation
+        imageDate: isThermalLayerType(indexType) ? thermalDate : imageDate,
+        imageDates: isThermalLayerType(indexType) ? undefined : compositeDates,
+        source: isRadarIndexType(indexType) ? undefined : isThermalLayerType(indexType) ? "landsat" : source,
+        weather,
+        phenology,
+        change,
+      });
+      console.log(`${logPrefix} Completed ${indexType} for ${area.name}`);
+    }
+  }
+
+  return { entries, errors: analyses.flatMap((analysis) => analysis.errors) };
+}
@@ -1,134 +1,221 @@
 import * as ee from "@google/earthengine";
-import { IndexType } from "@/types/report";
+import { IndexType, CloudMaskMode, OpticalSource } from "@/types/report";
+import { SatelliteImageMetadata } from "@/types/satellite";
+import { INDEX_REGISTRY, resolveIndexParameters, isIndexSupported } from "@/lib/indices/registry";
+import { getExpressionBands } from "@/lib/indices/expression";
+
+export const OPTICAL_SOURCES: OpticalSource[] = ["sentinel2", "landsat"];
+
+// Landsat 8/9 Collection 2 surface reflectance bands and their Sentinel-2 equivalents
+// Landsat has no red-edge bands (B5-B7), so red-edge indices stay Sentinel-2 only
+const LANDSAT_BAND_MAPPING: Array<[string, string]> = [
+  ["SR_B1", "B1"], // Coastal aerosol
+  ["SR_B2", "B2"], // Blue
+  ["SR_B3", "B3"], // Green
+  ["SR_B4", "B4"], // Red
+  ["SR_B5", "B8"], // NIR
+  ["SR_B5", "B8A"], // Landsat NIR is as narrow as Sentinel-2 B8A
+  ["SR_B6", "B11"], // SWIR 1
+  ["SR_B7", "B12"], // SWIR 2
+];
+
+// QA_PIXEL bits treated as invalid: 1 = dilated cloud, 3 = cloud, 4 = cloud shadow
+const LANDSAT_QA_MASK = (1 << 1) | (1 << 3) | (1 << 4);
 
 /**
- * Calculate NDVI (Normalized Difference Vegetation Index)
- * Formula: (NIR - Red) / (NIR + Red)
- * Sentinel-2 bands: NIR = B8, Red = B4
+ * Evaluate a band-math expression over the Sentinel-2 bands of an image
+ * Band names (B2, B8, B8A, ...) and the given constants can be used directly as variables
+ * Only the referenced bands are selected, so harmonized Landsat images work too
  */
-export function calculateNDVI(image: ee.Image): ee.Image {
-  const nir = image.select("B8");
-  const red = image.select("B4");
-  return nir.subtract(red).divide(nir.add(red)).rename("NDVI");
+export function calculateExpression(
+  image: ee.Image,
+  expression: string,
+  bandName: string,
+  constants: Record<string, number> = {}
+): ee.Image {
+  const variables: Record<string, ee.Image | number> = { ...constants };
+  getExpressionBands(expression).forEach((band) => {
+    variables[band] = image.select(band);
+  });
+  return image.expression(expression, variables).rename(bandName);
 }
 
 /**
- * Calculate NDRE (Normalized Difference Red Edge)
- * Formula: (NIR - Red Edge) / (NIR + Red Edge)
- * Sentinel-2 bands: NIR = B8, Red Edge = B5
+ * Calculate the specified index for an image using its registry formula
+ * Tunable constants (e.g. SAVI's L) fall back to the registry defaults
+ * @throws Error if the index needs bands the image's source doesn't have
  */
-export function calculateNDRE(image: ee.Image): ee.Image {
-  const nir = image.select("B8");
-  const redEdge = image.select("B5");
-  return nir.subtract(redEdge).divide(nir.add(redEdge)).rename("NDRE");
+export function calculateIndex(
+  image: ee.Image,
+  indexType: IndexType,
+  params?: Record<string, number>,
+  source: OpticalSource = "sentinel2"
+): ee.Image {
+  const definition = INDEX_REGISTRY[indexType];
+  if (!definition) {
+    throw new Error(`Unknown index type: ${indexType}`);
+  }
+  if (!isIndexSupported(indexType, source)) {
+    throw new Error(`${indexType} needs red-edge bands that ${source} doesn't have`);
+  }
+  return calculateExpression(
+    image,
+    definition.expression,
+    definition.id,
+    resolveIndexParameters(indexType, params)
+  );
 }
 
 /**
- * Calculate EVI (Enhanced Vegetation Index)
- * Formula: 2.5 * ((NIR - Red) / (NIR + 6*Red - 7.5*Blue + 1))
- * Sentinel-2 bands: NIR = B8, Red = B4, Blue = B2
+ * Optional date window for Sentinel-2 queries (YYYY-MM-DD, end exclusive)
  */
-export function calculateEVI(image: ee.Image): ee.Image {
-  const nir = image.select("B8");
-  const red = image.select("B4");
-  const blue = image.select("B2");
-  const numerator = nir.subtract(red);
-  const denominator = nir.add(red.multiply(6)).subtract(blue.multiply(7.5)).add(1);
-  return numerator.divide(denominator).multiply(2.5).rename("EVI");
+export interface DateRange {
+  startDate: string;
+  endDate: string;
 }
 
 /**
- * Calculate NDWI (Normalized Difference Water Index)
- * Also known as NDMI (Normalized Difference Moisture Index)
- * Formula: (NIR - SWIR) / (NIR + SWIR)
- * Sentinel-2 bands: NIR = B8, SWIR = B11
- * Primary use: Water stress / irrigation problems
- * Detects plant water content drops before chlorophyll or biomass decline
+ * Date window of the last days (end exclusive), the default for scene queries
  */
-export function calculateNDWI(image: ee.Image): ee.Image {
-  const nir = image.select("B8");
-  const swir = image.select("B11");
-  return nir.subtract(swir).divide(nir.add(swir)).rename("NDWI");
+export function getRecentDateRange(days: number = 60): DateRange {
+  const endDate = new Date();
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - days);
+
+  return {
+    startDate: startDate.toISOString().split("T")[0],
+    endDate: endDate.toISOString().split("T")[0],
+  };
 }
 
+export const CLOUD_MASK_MODES: CloudMaskMode[] = ["qa60", "scl", "s2cloudless"];
+
+// Scene Classification Layer classes treated as invalid:
+// 3 = cloud shadow, 8 = cloud medium probability, 9 = cloud high probability, 10 = thin cirrus
+const SCL_MASKED_CLASSES = [3, 8, 9, 10];
+
+// s2cloudless probability (0-100) above which a pixel is considered cloudy
+const CLOUD_PROBABILITY_THRESHOLD = 50;
+
 /**
- * Calculate MSAVI (Modified Soil Adjusted Vegetation Index)
- * Formula: (2*NIR + 1 - sqrt((2*NIR + 1)^2 - 8*(NIR - Red))) / 2
- * Sentinel-2 bands: NIR = B8, Red = B4
- * Primary use: Poor emergence, uneven stands, early crop failure
- * Removes soil noise automatically, critical in early season
+ * Mask opaque clouds and cirrus using the QA60 bitmask (bits 10 and 11)
+ * Cheapest option, but misses cloud shadows and thin cirrus
  */
-export function calculateMSAVI(image: ee.Image): ee.Image {
-  const nir = image.select("B8");
-  const red = image.select("B4");
-  const twoNirPlusOne = nir.multiply(2).add(1);
-  const nirMinusRed = nir.subtract(red);
-  // Calculate square root using instance method
-  const sqrtTerm = twoNirPlusOne.multiply(twoNirPlusOne).subtract(nirMinusRed.multiply(8)).sqrt();
-  return twoNirPlusOne.subtract(sqrtTerm).divide(2).rename("MSAVI");
+function maskCloudsQA60(image: ee.Image): ee.Image {
+  const cloudMask = image.select("QA60");
+  const clouds = cloudMask.bitwiseAnd(1024).or(cloudMask.bitwiseAnd(2048));
+  return image.updateMask(clouds.not());
 }
 
 /**
- * Calculate PSRI (Plant Senescence Reflectance Index)
- * Formula: (Red - Green) / Red Edge
- * Sentinel-2 bands: Red = B4, Green = B3, Red Edge = B5
- * Primary use: Senescence, disease pressure, or crop aging vs healthy stress
- * Distinguishes natural maturity from stress-induced decline
+ * Build a mask that is 1 where the Scene Classification Layer is not one of the given classes
  */
-export function calculatePSRI(image: ee.Image): ee.Image {
-  const red = image.select("B4");
-  const green = image.select("B3");
-  const redEdge = image.select("B5");
-  return red.subtract(green).divide(redEdge).rename("PSRI");
+function getSCLClearMask(image: ee.Image, maskedClasses: number[]): ee.Image {
+  const scl = image.select("SCL");
+  return maskedClasses
+    .slice(1)
+    .reduce((clear, sclClass) => clear.and(scl.neq(sclClass)), scl.neq(maskedClasses[0]));
 }
 
 /**
- * Calculate the specified index for an image
+ * Mask cloud shadows, clouds and thin cirrus using the Scene Classification Layer
  */
-export function calculateIndex(image: ee.Image, indexType: IndexType): ee.Image {
-  switch (indexType) {
-    case "NDVI":
-      return calculateNDVI(image);
-    case "NDRE":
-      return calculateNDRE(image);
-    case "EVI":
-      return calculateEVI(image);
-    case "NDWI":
-      return calculateNDWI(image);
-    case "MSAVI":
-      return calculateMSAVI(image);
-    case "PSRI":
-      return calculatePSRI(image);
-    default:
-      throw new Error(`Unknown index type: ${indexType}`);
-  }
+function maskCloudsSCL(image: ee.Image): ee.Image {
+  return image.updateMask(getSCLClearMask(image, SCL_MASKED_CLASSES));
+}
+
+/**
+ * Mask clouds with the s2cloudless probability band and cloud shadows with SCL
+ * Expects the matching S2_CLOUD_PROBABILITY image stored in the "cloud_probability" property
+ */
+function maskCloudsS2Cloudless(image: ee.Image): ee.Image {
+  const probability = ee.Image(image.get("cloud_probability")).select("probability");
+  const notCloudy = probability.lt(CLOUD_PROBABILITY_THRESHOLD);
+  return image.updateMask(notCloudy.and(getSCLClearMask(image, [3])));
 }
 
 /**
  * Get Sentinel-2 collection with cloud masking and filtering
  * Fetches the most recent data (last 60 days) to reduce GEE costs
  * Sentinel-2 revisits every 5 days, so 60 days gives plenty of coverage
+ * Pass a date range to query a specific window instead (e.g. for time series)
  */
-export function getSentinel2Collection(cloudCoverage: number): ee.ImageCollection {
+export function getSentinel2Collection(
+  cloudCoverage: number,
+  dateRange?: DateRange,
+  cloudMask: CloudMaskMode = "qa60"
+): ee.ImageCollection {
   // Reduced to 60 days to minimize collection size and reduce GEE costs
   // Sentinel-2 revisits every 5 days, so 60 days provides 12+ revisits
-  const endDate = new Date();
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - 60); // Look back 60 days (reduced from 90)
-  
-  const startDateStr = startDate.toISOString().split("T")[0];
-  const endDateStr = endDate.toISOString().split("T")[0];
-  
+  const { startDate: startDateStr, endDate: endDateStr } = dateRange || getRecentDateRange(60);
+
   const collection = ee.ImageCollection("COPERNICUS/S2_SR_HARMONIZED")
     .filterDate(startDateStr, endDateStr)
     .filter(ee.Filter.lt("CLOUDY_PIXEL_PERCENTAGE", cloudCoverage));
 
+  if (cloudMask === "scl") {
+    return collection.map(maskCloudsSCL);
+  }
+
+  if (cloudMask === "s2cloudless") {
+    // Attach the matching s2cloudless probability image to each scene (same system:index)
+    const probabilities = ee.ImageCollection("COPERNICUS/S2_CLOUD_PROBABILITY")
+      .filterDate(startDateStr, endDateStr);
+    const joined = ee.Join.saveFirst("cloud_probability").apply({
+      primary: collection,
+      secondary: probabilities,
+      condition: ee.Filter.equals({ leftField: "system:index", rightField: "system:index" }),
+    });
+    return ee.ImageCollection(joined).map(maskCloudsS2Cloudless);
+  }
+
   // Apply cloud masking for better quality
-  return collection.map((image: ee.Image) => {
-    const cloudMask = image.select("QA60");
-    const clouds = cloudMask.bitwiseAnd(1024).or(cloudMask.bitwiseAnd(2048));
-    return image.updateMask(clouds.not());
-  });
+  return collection.map(maskCloudsQA60);
+}
+
+/**
+ * Scale Landsat Collection 2 surface reflectance to the Sentinel-2 L2A range (reflectance x 10000),
+ * add it under the Sentinel-2 band names, and mask clouds and shadows with QA_PIXEL
+ * Bands are added to the original image so its properties (time, id) are kept
+ */
+function harmonizeLandsat(image: ee.Image): ee.Image {
+  const clear = image.select("QA_PIXEL").bitwiseAnd(LANDSAT_QA_MASK).not();
+  const harmonized = LANDSAT_BAND_MAPPING.reduce(
+    (result, [landsatBand, band]) =>
+      result.addBands(image.select(landsatBand).multiply(0.0000275).subtract(0.2).multiply(10000).rename(band)),
+    image
+  );
+  return harmonized.updateMask(clear);
+}
+
+/**
+ * Get Landsat 8 and 9 Collection 2 Level-2 scenes harmonized to Sentinel-2 band names
+ * Together they revisit every 8 days at 30 m and reach back to 2013, before Sentinel-2,
+ * so they serve as a fallback and for multi-year baselines
+ */
+export function getLandsatCollection(cloudCoverage: number, dateRange?: DateRange): ee.ImageCollection {
+  const { startDate, endDate } = dateRange || getRecentDateRange();
+
+  return ee.ImageCollection("LANDSAT/LC08/C02/T1_L2")
+    .merge(ee.ImageCollection("LANDSAT/LC09/C02/T1_L2"))
+    .filterDate(startDate, endDate)
+    .filter(ee.Filter.lt("CLOUD_COVER", cloudCoverage))
+    .map(harmonizeLandsat);
+}
+
+/**
+ * Get the cloud-masked collection of an optical source
+ * Pixel cloud mask modes only apply to Sentinel-2; Landsat always uses QA_PIXEL
+ */
+export function getOpticalCollection(
+  source: OpticalSource,
+  cloudCoverage: number,
+  dateRange?: DateRange,
+  cloudMask: CloudMaskMode = "qa60"
+): ee.ImageCollection {
+  return source === "landsat"
+    ? getLandsatCollection(cloudCoverage, dateRange)
+    : getSentinel2Collection(cloudCoverage, dateRange, cloudMask);
 }
 
 /**
@@ -137,3 +224,52 @@ export function getSentinel2Collection(cloudCoverage: number): ee.ImageCollectio
 export function getMostRecentImage(collection: ee.ImageCollection): ee.Image {
   return collection.sort("system:time_start", false).first();
 }
+
+/**
+ * Fetch acquisition metadata (date, tile, cloud percentage, sensor) of an image
+ * Uses a single getInfo call on a feature holding only the needed properties
+ */
+export async function getImageMetadata(image: ee.Image): Promise<SatelliteImageMetadata> {
+  const properties = ee.Feature(null, {
+    sceneId: image.get("system:index"),
+    timestamp: image.get("system:time_start"),
+    tileId: image.get("MGRS_TILE"),
+    cloudPercentage: image.get("CLOUDY_PIXEL_PERCENTAGE"),
+    sensor: image.get("SPACECRAFT_NAME"),
+    // Landsat equivalents (null on Sentinel-2 images)
+    wrsPath: image.get("WRS_PATH"),
+    wrsRow: image.get("WRS_ROW"),
+    cloudCover: image.get("CLOUD_COVER"),
+    spacecraftId: image.get("SPACECRAFT_ID"),
+  });
+
+  const value = await new Promise<any>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error("Image metadata request timed out"));
+    }, 30000); // 30 second timeout
+
+    properties.getInfo((result: any, error?: Error) => {
+      clearTimeout(timeout);
+      if (error) reject(error);
+      else resolve(result);
+    });
+  });
+
+  const props = value?.properties || {};
+  if (typeof props.timestamp !== "number") {
+    throw new Error("Image is missing system:time_start");
+  }
+
+  const acquisitionTime = new Date(props.timestamp).toISOString();
+
+  return {
+    sceneId: props.sceneId || "",
+    date: acquisitionTime.split("T")[0],
+    acquisitionTime,
+    tileId: props.tileId || (props.wrsPath ? `${String(props.wrsPath).padStart(3, "0")}/${String(props.wrsRow).padStart(3, "0")}` : ""),
+    cloudPercentage: typeof props.cloudPercentage === "number"
+      ? props.cloudPercentage
+      : typeof props.cloudCover === "number" ? props.cloudCover : 0,
+    sensor: props.sensor || (props.spacecraftId ? String(props.spacecraftId).replace("LANDSAT_", "Landsat ") : "Sentinel-2"),
+  };
+}
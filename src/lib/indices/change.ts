@@ -0,0 +1,286 @@
+import * as ee from "@google/earthengine";
+import { IndexType, CloudMaskMode, Report } from "@/types/report";
+import { IndexStatistics } from "@/types/satellite";
+import { calculateIndex, getSentinel2Collection, getMostRecentImage, DateRange } from "@/lib/indices/calculations";
+import { buildComposite, getCompositeDateRange } from "@/lib/indices/composite";
+import { getStatisticsReducer, parseIndexStatistics } from "@/lib/indices/statistics";
+import { calculateBoundingBox, compositeIndexOverlay } from "@/lib/images/compositeImage";
+
+export const CHANGE_BAND = "DELTA";
+// Decline (red) through no change (white) to gain (green)
+export const CHANGE_PALETTE = ["#b2182b", "#ef8a62", "#f7f7f7", "#91cf60", "#1a9850"];
+export const DEFAULT_DECLINE_THRESHOLD = 0.1; // Index units; NDVI drops above 0.1 are agronomically relevant
+const CHANGE_HISTOGRAM_RANGE: [number, number] = [-1, 1];
+const MIN_CHANGE_STRETCH = 0.05; // Keeps noise from being painted as strong change
+const PREVIOUS_IMAGE_LOOKBACK_DAYS = 60; // Same window the reports use for the most recent image
+
+export interface ChangeStatistics {
+  stats: IndexStatistics;
+  declinedHectares: number; // Area where the index dropped by more than the threshold
+  declinedPercentage: number; // 0-100, share of the analyzed (unmasked) area
+}
+
+// "What changed since the last report" section of a scheduled report
+export interface ReportChange extends ChangeStatistics {
+  sinceDate: string; // YYYY-MM-DD of the previous report
+  declineThreshold: number;
+  stretch: { min: number; max: number };
+  imageBuffer?: Buffer; // Difference map, missing when the thumbnail download fails
+}
+
+const SENTINEL2_SCENE_ID = /^(\d{4})(\d{2})(\d{2})T/;
+const LANDSAT_SCENE_ID = /_L[CT]0\d_\d{6}_(\d{4})(\d{2})(\d{2})$/;
+
+/**
+ * Whether a scene id is a Sentinel-2 product id (starts with the acquisition timestamp)
+ */
+export function isSentinel2SceneId(sceneId: string): boolean {
+  return SENTINEL2_SCENE_ID.test(sceneId);
+}
+
+/**
+ * Whether a scene id is a Landsat 8/9 scene (ends with the WRS path/row and acquisition date)
+ */
+export function isLandsatSceneId(sceneId: string): boolean {
+  return LANDSAT_SCENE_ID.test(sceneId);
+}
+
+/**
+ * Date window (end exclusive) of the day a scene was acquired
+ * Sentinel-2 scene ids start with the acquisition timestamp, e.g. "20240115T170659_...";
+ * Landsat ids end with the acquisition date, e.g. "1_LC09_029046_20240115"
+ */
+export function getSceneDateRange(sceneId: string): DateRange | null {
+  const match = sceneId.match(SENTINEL2_SCENE_ID) || sceneId.match(LANDSAT_SCENE_ID);
+  if (!match) return null;
+
+  const day = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  if (isNaN(day.getTime())) return null;
+  const nextDay = new Date(day);
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+
+  return {
+    startDate: day.toISOString().split("T")[0],
+    endDate: nextDay.toISOString().split("T")[0],
+  };
+}
+
+/**
+ * Cloud-masked image of a specific Sentinel-2 scene
+ * @throws Error if the scene id isn't a Sentinel-2 id with an acquisition date
+ */
+export function getSceneImage(sceneId: string, cloudMask: CloudMaskMode = "qa60"): ee.Image {
+  const dateRange = isSentinel2SceneId(sceneId) ? getSceneDateRange(sceneId) : null;
+  if (!dateRange) {
+    throw new Error(`Invalid scene id: ${sceneId}`);
+  }
+
+  // Scenes were already chosen by the user, so no scene-level cloud filter
+  return getSentinel2Collection(100, dateRange, cloudMask)
+    .filter(ee.Filter.eq("system:index", sceneId))
+    .first();
+}
+
+/**
+ * Per-pixel index difference (after - before); negative values are declines
+ */
+export function buildChangeImage(
+  before: ee.Image,
+  after: ee.Image,
+  indexType: IndexType,
+  params?: Record<string, number>
+): ee.Image {
+  return calculateIndex(after, indexType, params)
+    .subtract(calculateIndex(before, indexType, params))
+    .rename(CHANGE_BAND);
+}
+
+/**
+ * Symmetric color stretch around zero so white always means "no change"
+ */
+export function getChangeStretch(stats: IndexStatistics): { min: number; max: number } {
+  const extent = stats.percentiles
+    ? Math.max(Math.abs(stats.percentiles.p5), Math.abs(stats.percentiles.p95))
+    : Math.max(Math.abs(stats.min), Math.abs(stats.max));
+  const limit = Math.max(extent, MIN_CHANGE_STRETCH);
+  return { min: -limit, max: limit };
+}
+
+function evaluate<T>(object: ee.ComputedObject, timeoutMs: number, timeoutMessage: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error(timeoutMessage)), timeoutMs);
+
+    object.getInfo((value: any, error?: Error) => {
+      clearTimeout(timeout);
+      if (error) reject(error);
+      else resolve(value);
+    });
+  });
+}
+
+/**
+ * Statistics of a change image over a polygon and the area that declined more than the threshold
+ */
+export async function getChangeStatistics(
+  change: ee.Image,
+  polygon: ee.Geometry,
+  scale: number,
+  declineThreshold: number = DEFAULT_DECLINE_THRESHOLD
+): Promise<ChangeStatistics> {
+  const statsRequest = change.reduceRegion({
+    reducer: getStatisticsReducer(CHANGE_HISTOGRAM_RANGE),
+    geometry: polygon,
+    scale,
+    maxPixels: 1e9,
+    bestEffort: true,
+    tileScale: 4,
+  });
+
+  // Pixel areas in m², masked wherever the change itself is masked (clouds in either date)
+  const pixelArea = ee.Image.pixelArea().updateMask(change.mask());
+  const areaRequest = pixelArea.rename("analyzed")
+    .addBands(pixelArea.updateMask(change.lt(-declineThreshold)).rename("declined"))
+    .reduceRegion({
+      reducer: ee.Reducer.sum(),
+      geometry: polygon,
+      scale,
+      maxPixels: 1e9,
+      bestEffort: true,
+      tileScale: 4,
+    });
+
+  const [statsValue, areaValue] = await Promise.all([
+    evaluate<Record<string, any>>(statsRequest, 90000, "Change statistics timed out. Try reducing the area size."),
+    evaluate<Record<string, number | null>>(areaRequest, 90000, "Change area computation timed out. Try reducing the area size."),
+  ]);
+
+  if (statsValue?.[`${CHANGE_BAND}_min`] === undefined || statsValue[`${CHANGE_BAND}_min`] === null) {
+    throw new Error("No cloud-free pixels shared by both dates over the area.");
+  }
+
+  const analyzedM2 = areaValue?.analyzed || 0;
+  const declinedM2 = areaValue?.declined || 0;
+
+  return {
+    stats: parseIndexStatistics(statsValue, CHANGE_BAND, CHANGE_HISTOGRAM_RANGE),
+    declinedHectares: declinedM2 / 10_000,
+    declinedPercentage: analyzedM2 > 0 ? (declinedM2 / analyzedM2) * 100 : 0,
+  };
+}
+
+async function fetchThumbnail(image: ee.Image, options: Record<string, any>): Promise<Buffer> {
+  const url = await new Promise<string>((resolve, reject) => {
+    (image as any).getThumbURL(options, (result: string, error?: Error) => {
+      if (error) reject(error);
+      else resolve(result);
+    });
+  });
+
+  const response = await fetch(url, { headers: { "User-Agent": "CoperniGeo-Email-Service/1.0" } });
+  if (!response.ok) {
+    throw new Error(`Thumbnail download failed: ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Static PNG of the change map over the RGB of the recent image, clipped to the polygon
+ * Both thumbnails share the padded bounding box expected by compositeIndexOverlay
+ */
+export async function renderChangeImage(
+  after: ee.Image,
+  change: ee.Image,
+  coordinates: { lat: number; lng: number }[],
+  stretch: { min: number; max: number },
+  dimensions: number = 1200
+): Promise<Buffer> {
+  const bounds = calculateBoundingBox(coordinates, 5);
+  const region = ee.Geometry.Polygon([[
+    [bounds.minLng, bounds.minLat],
+    [bounds.maxLng, bounds.minLat],
+    [bounds.maxLng, bounds.maxLat],
+    [bounds.minLng, bounds.maxLat],
+    [bounds.minLng, bounds.minLat],
+  ]]);
+
+  const [baseBuffer, overlayBuffer] = await Promise.all([
+    fetchThumbnail(after, {
+      dimensions,
+      format: "png",
+      region,
+      bands: ["B4", "B3", "B2"],
+      min: [0, 0, 0],
+      max: [3000, 3000, 3000], // Typical Sentinel-2 reflectance values
+    }),
+    fetchThumbnail(change, {
+      dimensions,
+      format: "png",
+      region,
+      min: stretch.min,
+      max: stretch.max,
+      palette: CHANGE_PALETTE,
+    }),
+  ]);
+
+  return compositeIndexOverlay(baseBuffer, overlayBuffer, coordinates, 0.8, "#242424");
+}
+
+/**
+ * Image a scheduled report analyzed when it last ran: the same composite window ending
+ * that day, or the most recent scene up to that day
+ */
+export function getReportImageAsOf(
+  report: Pick<Report, "cloudCoverage" | "cloudMask" | "compositeMode" | "compositeDays">,
+  polygon: ee.Geometry,
+  asOf: Date
+): ee.Image {
+  const dateRange = getCompositeDateRange(
+    report.compositeMode ? report.compositeDays : PREVIOUS_IMAGE_LOOKBACK_DAYS,
+    asOf
+  );
+  const collection = getSentinel2Collection(report.cloudCoverage, dateRange, report.cloudMask)
+    .filterBounds(polygon);
+
+  return report.compositeMode
+    ? buildComposite(collection, report.compositeMode)
+    : getMostRecentImage(collection);
+}
+
+/**
+ * Change of an index between the previous report's image and the current one,
+ * with the difference map rendered for the email and PDF
+ */
+export async function computeReportChange(options: {
+  previous: ee.Image;
+  current: ee.Image;
+  indexType: IndexType;
+  params?: Record<string, number>;
+  polygon: ee.Geometry;
+  coordinates: { lat: number; lng: number }[];
+  scale: number;
+  since: Date;
+  declineThreshold?: number;
+}): Promise<ReportChange> {
+  const { previous, current, indexType, params, polygon, coordinates, scale, since } = options;
+  const declineThreshold = options.declineThreshold ?? DEFAULT_DECLINE_THRESHOLD;
+
+  const bufferedBbox = polygon.bounds().buffer(1000);
+  const change = buildChangeImage(previous.clip(bufferedBbox), current.clip(bufferedBbox), indexType, params);
+  const changeStats = await getChangeStatistics(change.clip(polygon), polygon, scale, declineThreshold);
+  const stretch = getChangeStretch(changeStats.stats);
+
+  let imageBuffer: Buffer | undefined;
+  try {
+    imageBuffer = await renderChangeImage(current, change, coordinates, stretch);
+  } catch (imageError: any) {
+    console.error(`[Change] Difference map rendering failed for ${indexType}:`, imageError.message);
+  }
+
+  return {
+    ...changeStats,
+    sinceDate: since.toISOString().split("T")[0],
+    declineThreshold,
+    stretch,
+    imageBuffer,
+  };
+}
@@ -0,0 +1,86 @@
+import * as ee from "@google/earthengine";
+import { CompositeMode } from "@/types/report";
+import { calculateIndex, DateRange } from "@/lib/indices/calculations";
+
+export const COMPOSITE_MODES: CompositeMode[] = ["median", "greenest"];
+export const DEFAULT_COMPOSITE_DAYS = 30;
+export const MAX_COMPOSITE_DAYS = 120; // Longer windows mix crop stages and cost more to reduce
+
+/**
+ * Date window ending on a day (today by default, end exclusive) for scheduled composites
+ */
+export function getCompositeDateRange(days: number = DEFAULT_COMPOSITE_DAYS, endDay: Date = new Date()): DateRange {
+  const windowDays = Math.min(Math.max(Math.round(days), 1), MAX_COMPOSITE_DAYS);
+  const endDate = new Date(endDay);
+  endDate.setUTCDate(endDate.getUTCDate() + 1); // Include the last day
+  const startDate = new Date(endDay);
+  startDate.setUTCDate(startDate.getUTCDate() - windowDays);
+
+  return {
+    startDate: startDate.toISOString().split("T")[0],
+    endDate: endDate.toISOString().split("T")[0],
+  };
+}
+
+/**
+ * Build a cloud-free mosaic from a cloud-masked collection
+ * - median: per-pixel median of every clear observation (smooth, robust to leftover haze)
+ * - greenest: per-pixel observation with the highest NDVI (peak vigor in the window)
+ */
+export function buildComposite(collection: ee.ImageCollection, mode: CompositeMode): ee.Image {
+  if (mode === "greenest") {
+    return collection
+      .map((image: ee.Image) => image.addBands(calculateIndex(image, "NDVI").rename("greenness")))
+      .qualityMosaic("greenness");
+  }
+
+  return collection.median();
+}
+
+/**
+ * Acquisition dates (YYYY-MM-DD, ascending) of the scenes that have at least one
+ * clear pixel over the polygon, i.e. the dates that can contribute to a composite
+ */
+export async function getContributingDates(
+  collection: ee.ImageCollection,
+  polygon: ee.Geometry,
+  scale: number
+): Promise<string[]> {
+  const timestamps = collection
+    .map((image: ee.Image) => {
+      // B4 carries the cloud mask applied in getSentinel2Collection
+      const validPixels = image.select("B4")
+        .reduceRegion({
+          reducer: ee.Reducer.count(),
+          geometry: polygon,
+          scale,
+          maxPixels: 1e9,
+          bestEffort: true,
+          tileScale: 4,
+        })
+        .get("B4");
+
+      return ee.Feature(null, {
+        timestamp: image.get("system:time_start"),
+        validPixels,
+      });
+    })
+    .filter(ee.Filter.gt("validPixels", 0))
+    .aggregate_array("timestamp");
+
+  const values = await new Promise<number[]>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error("Composite date lookup timed out. Try a shorter date range."));
+    }, 60000); // 60 second timeout
+
+    timestamps.getInfo((value: any, error?: Error) => {
+      clearTimeout(timeout);
+      if (error) reject(error);
+      else resolve(value || []);
+    });
+  });
+
+  // Several tiles can be acquired on the same day over one polygon
+  const dates = values.map((timestamp) => new Date(timestamp).toISOString().split("T")[0]);
+  return Array.from(new Set(dates)).sort();
+}
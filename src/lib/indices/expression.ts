@@ -0,0 +1,201 @@
+import { OpticalSource } from "@/types/report";
+
+/**
+ * Validation for user-defined band-math expressions
+ * Expressions are evaluated by Earth Engine's Image.expression, so only a small,
+ * known-safe grammar is accepted: Sentinel-2 band names, numbers, + - * / **,
+ * parentheses and a few unary math functions
+ */
+
+export const SENTINEL2_BANDS = [
+  "B1", "B2", "B3", "B4", "B5", "B6", "B7", "B8", "B8A", "B9", "B11", "B12",
+];
+
+// Sentinel-2 bands that harmonized Landsat 8/9 images also provide (no red-edge, B9 or B8 vs B8A split)
+export const LANDSAT_BANDS = ["B1", "B2", "B3", "B4", "B8", "B8A", "B11", "B12"];
+
+const ALLOWED_FUNCTIONS = ["sqrt", "abs", "log", "exp"];
+const MAX_EXPRESSION_LENGTH = 300;
+
+type Token =
+  | { type: "number"; value: string }
+  | { type: "identifier"; value: string }
+  | { type: "operator"; value: string }
+  | { type: "paren"; value: "(" | ")" };
+
+/**
+ * Split an expression into tokens
+ * @throws Error with a user-facing message on unexpected characters
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = expression.slice(i).match(/^(\d+\.?\d*|\.\d+)/);
+      if (!match) throw new Error(`Número inválido en la posición ${i + 1}`);
+      tokens.push({ type: "number", value: match[0] });
+      i += match[0].length;
+    } else if (/[A-Za-z]/.test(char)) {
+      const match = expression.slice(i).match(/^[A-Za-z][A-Za-z0-9]*/)!;
+      tokens.push({ type: "identifier", value: match[0] });
+      i += match[0].length;
+    } else if (expression.startsWith("**", i)) {
+      tokens.push({ type: "operator", value: "**" });
+      i += 2;
+    } else if ("+-*/".includes(char)) {
+      tokens.push({ type: "operator", value: char });
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: "paren", value: char });
+      i++;
+    } else {
+      throw new Error(`Carácter no permitido "${char}" en la posición ${i + 1}`);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser that only checks the grammar:
+ *   expr    := term (("+" | "-") term)*
+ *   term    := power (("*" | "/") power)*
+ *   power   := unary ("**" unary)?
+ *   unary   := "-" unary | primary
+ *   primary := number | band | function "(" expr ")" | "(" expr ")"
+ */
+function parse(tokens: Token[]): string[] {
+  let position = 0;
+  const bands: string[] = [];
+
+  const peek = () => tokens[position];
+  const isOperator = (value: string) => peek()?.type === "operator" && peek()!.value === value;
+
+  const expect = (value: ")" | "(") => {
+    const token = peek();
+    if (!token || token.type !== "paren" || token.value !== value) {
+      throw new Error(`Se esperaba "${value}"`);
+    }
+    position++;
+  };
+
+  const primary = () => {
+    const token = peek();
+    if (!token) throw new Error("La expresión está incompleta");
+
+    if (token.type === "number") {
+      position++;
+      return;
+    }
+
+    if (token.type === "paren" && token.value === "(") {
+      position++;
+      expr();
+      expect(")");
+      return;
+    }
+
+    if (token.type === "identifier") {
+      position++;
+      if (SENTINEL2_BANDS.includes(token.value)) {
+        bands.push(token.value);
+        return;
+      }
+      if (ALLOWED_FUNCTIONS.includes(token.value)) {
+        expect("(");
+        expr();
+        expect(")");
+        return;
+      }
+      throw new Error(`"${token.value}" no es una banda de Sentinel-2 ni una función permitida`);
+    }
+
+    throw new Error(`Símbolo inesperado "${token.value}"`);
+  };
+
+  const unary = () => {
+    if (isOperator("-")) {
+      position++;
+      unary();
+      return;
+    }
+    primary();
+  };
+
+  const power = () => {
+    unary();
+    if (isOperator("**")) {
+      position++;
+      unary();
+    }
+  };
+
+  const term = () => {
+    power();
+    while (isOperator("*") || isOperator("/")) {
+      position++;
+      power();
+    }
+  };
+
+  const expr = () => {
+    term();
+    while (isOperator("+") || isOperator("-")) {
+      position++;
+      term();
+    }
+  };
+
+  expr();
+
+  if (position < tokens.length) {
+    throw new Error(`Símbolo inesperado "${tokens[position].value}"`);
+  }
+
+  return bands;
+}
+
+/**
+ * Validate a custom band-math expression
+ * @returns An error message, or null if the expression is valid
+ */
+export function validateIndexExpression(expression: string): string | null {
+  if (!expression || expression.trim().length === 0) {
+    return "La fórmula es obligatoria";
+  }
+
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    return `La fórmula no puede superar ${MAX_EXPRESSION_LENGTH} caracteres`;
+  }
+
+  try {
+    const bands = parse(tokenize(expression));
+    if (bands.length === 0) {
+      return "La fórmula debe usar al menos una banda de Sentinel-2 (por ejemplo B8 o B4)";
+    }
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+/**
+ * Sentinel-2 bands referenced by an expression (constants such as SAVI's L are skipped)
+ */
+export function getExpressionBands(expression: string): string[] {
+  const identifiers = expression.match(/[A-Za-z][A-Za-z0-9]*/g) || [];
+  return Array.from(new Set(identifiers.filter((identifier) => SENTINEL2_BANDS.includes(identifier))));
+}
+
+/**
+ * Check whether an expression only uses bands the source provides
+ */
+export function isExpressionSupported(expression: string, source: OpticalSource): boolean {
+  return source === "sentinel2" || getExpressionBands(expression).every((band) => LANDSAT_BANDS.includes(band));
+}
@@ -0,0 +1,176 @@
+import * as ee from "@google/earthengine";
+import { Area } from "@/types/area";
+import { TimeSeriesPoint } from "@/types/satellite";
+import { AreaPhenology, CropStage, PhenologyEstimate } from "@/types/phenology";
+import { INDEX_REGISTRY } from "@/lib/indices/registry";
+import { getIndexTimeSeries } from "@/lib/indices/timeSeries";
+import { getSeasonBounds, getSeasonWindow } from "@/lib/indices/season";
+import { toExclusiveEndDate } from "@/lib/utils/dates";
+import { getCropStageLabel } from "@/lib/utils/reports";
+
+// NDVI is tracked a little past the expected harvest, in case it comes late
+const HARVEST_MARGIN_DAYS = 30;
+
+// Share of the season elapsed at the end of each expected stage
+const EXPECTED_STAGE_ENDS: Array<{ until: number; stage: CropStage }> = [
+  { until: 0.1, stage: "emergence" },
+  { until: 0.45, stage: "vegetative" },
+  { until: 0.75, stage: "reproductive" },
+  { until: 1, stage: "senescence" },
+];
+
+// Scenes with less of the polygon visible are too cloudy to track the season
+const MIN_VALID_PIXEL_FRACTION = 0.5;
+const MIN_POINTS = 4;
+
+// NDVI rise between the pre-season minimum and the peak below which no season is detected
+const MIN_AMPLITUDE = 0.1;
+
+// Share of the seasonal amplitude that marks green-up (rise) and senescence (decline after the peak)
+const GREEN_UP_FRACTION = 0.2;
+const SENESCENCE_FRACTION = 0.2;
+
+// Decline after the highest NDVI needed to call it the peak instead of ongoing growth
+const PEAK_CONFIRMATION_FRACTION = 0.1;
+
+/**
+ * Stage the crop calendar expects on a date, from the share of the season elapsed since sowing
+ * @returns null when the area has no sowing date
+ */
+export function getExpectedStage(
+  sowingDate?: string,
+  expectedHarvestDate?: string,
+  date: Date = new Date()
+): CropStage | null {
+  const bounds = getSeasonBounds(sowingDate, expectedHarvestDate);
+  if (!bounds) return null;
+
+  const { sowing, harvest } = bounds;
+  const now = date.getTime();
+
+  if (now < sowing) return "pre_sowing";
+  if (now > harvest || harvest <= sowing) return "post_harvest";
+
+  const elapsed = (now - sowing) / (harvest - sowing);
+  return EXPECTED_STAGE_ENDS.find((end) => elapsed <= end.until)?.stage ?? "senescence";
+}
+
+/**
+ * Estimate green-up, peak and senescence dates from an NDVI time series
+ * Cloudy scenes are dropped and the rest smoothed with a 3-point moving median, then the
+ * dates are where NDVI crosses a share of the seasonal amplitude (threshold method)
+ */
+export function detectPhenology(points: TimeSeriesPoint[]): PhenologyEstimate {
+  const estimate: PhenologyEstimate = {
+    greenUpDate: null,
+    peakDate: null,
+    peakValue: null,
+    senescenceDate: null,
+    observedStage: null,
+  };
+
+  const valid = points
+    .filter((point) => point.meanValue !== null && point.validPixelFraction >= MIN_VALID_PIXEL_FRACTION)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (valid.length < MIN_POINTS) return estimate;
+
+  const values = valid.map((point) => point.meanValue as number);
+  const smoothed = values.map((_, i) => {
+    const window = values.slice(Math.max(0, i - 1), i + 2).sort((a, b) => a - b);
+    return window[Math.floor(window.length / 2)];
+  });
+
+  const peakIndex = smoothed.indexOf(Math.max(...smoothed));
+  const peakValue = smoothed[peakIndex];
+  const baseValue = Math.min(...smoothed.slice(0, peakIndex + 1));
+  const amplitude = peakValue - baseValue;
+  estimate.peakValue = peakValue;
+  if (amplitude < MIN_AMPLITUDE) return estimate;
+
+  const greenUpIndex = smoothed.findIndex((value) => value >= baseValue + GREEN_UP_FRACTION * amplitude);
+  estimate.greenUpDate = valid[greenUpIndex].date;
+
+  const latestValue = smoothed[smoothed.length - 1];
+  if (peakIndex < smoothed.length - 1 && latestValue <= peakValue - PEAK_CONFIRMATION_FRACTION * amplitude) {
+    estimate.peakDate = valid[peakIndex].date;
+  }
+
+  const senescenceOffset = smoothed
+    .slice(peakIndex + 1)
+    .findIndex((value) => value <= peakValue - SENESCENCE_FRACTION * amplitude);
+  if (senescenceOffset >= 0) {
+    estimate.senescenceDate = valid[peakIndex + 1 + senescenceOffset].date;
+  }
+
+  estimate.observedStage = estimate.senescenceDate
+    ? "senescence"
+    : estimate.peakDate
+      ? "reproductive"
+      : "vegetative";
+  return estimate;
+}
+
+/**
+ * Interpret a mean PSRI relative to the stage the crop calendar expects
+ * PSRI rises naturally as the crop matures, so the same value is normal in senescence
+ * and a stress signal during vegetative growth
+ * @returns null when the area has no crop calendar
+ */
+export function interpretPSRI(mean: number, expectedStage: CropStage | null): string | null {
+  if (!expectedStage || expectedStage === "pre_sowing") return null;
+
+  // Upper bound of "Vegetación saludable y joven"
+  const senescenceThreshold = INDEX_REGISTRY.PSRI.levels[0].below ?? 0.1;
+  const stageLabel = getCropStageLabel(expectedStage);
+
+  if (expectedStage === "senescence" || expectedStage === "post_harvest") {
+    return mean >= senescenceThreshold
+      ? `PSRI alto, esperado en la etapa de ${stageLabel}: el cultivo está madurando.`
+      : `PSRI bajo para la etapa de ${stageLabel}: el cultivo sigue verde, la madurez puede venir retrasada.`;
+  }
+  return mean >= senescenceThreshold
+    ? `PSRI elevado para la etapa ${stageLabel}: posible estrés o enfermedad, conviene revisar la parcela.`
+    : `PSRI normal para la etapa ${stageLabel}.`;
+}
+
+/**
+ * Crop calendar of an area with the phenology observed in its NDVI since sowing
+ * @param seasonNdvi Receives the NDVI series under the area id, for the yield potential to reuse
+ * @returns null when the area has no crop calendar
+ */
+export async function getAreaPhenology(
+  polygon: ee.Geometry,
+  area: Area,
+  scale: number,
+  seasonNdvi?: Map<string, TimeSeriesPoint[]>
+): Promise<AreaPhenology | null> {
+  if (!area.sowingDate && !area.cropType) return null;
+
+  const phenology: AreaPhenology = {
+    cropType: area.cropType,
+    sowingDate: area.sowingDate,
+    expectedHarvestDate: area.expectedHarvestDate,
+    expectedStage: getExpectedStage(area.sowingDate, area.expectedHarvestDate),
+    greenUpDate: null,
+    peakDate: null,
+    peakValue: null,
+    senescenceDate: null,
+    observedStage: null,
+  };
+  if (!area.sowingDate || phenology.expectedStage === "pre_sowing") return phenology;
+
+  // Same season window as the yield potential integral, tracked a little past the harvest
+  const { startDate, endDate } = getSeasonWindow(area, new Date(), HARVEST_MARGIN_DAYS);
+
+  // Cloud coverage 100: rely on pixel masking and the valid-pixel fraction instead
+  const points = await getIndexTimeSeries(
+    polygon,
+    "NDVI",
+    { startDate, endDate: toExclusiveEndDate(endDate) },
+    100,
+    scale
+  );
+  if (area.id) seasonNdvi?.set(area.id, points);
+
+  return { ...phenology, ...detectPhenology(points) };
+}
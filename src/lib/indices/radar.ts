@@ -0,0 +1,92 @@
+import * as ee from "@google/earthengine";
+import { RadarIndexType } from "@/types/report";
+import { SatelliteImageMetadata } from "@/types/satellite";
+import { RADAR_INDEX_REGISTRY } from "@/lib/indices/registry";
+import { DateRange, getRecentDateRange } from "@/lib/indices/calculations";
+
+// Median filter radius that smooths radar speckle while keeping field-level detail
+const SPECKLE_FILTER_RADIUS_METERS = 30;
+
+// Radar indices a report shows for an area without any clear Sentinel-2 image
+export const RADAR_FALLBACK_INDICES: RadarIndexType[] = ["RVI"];
+
+// Grayscale VV backscatter, used as the base image where optical RGB is unavailable
+export const RADAR_BASE_VISUALIZATION = {
+  bands: ["VV"],
+  min: -25,
+  max: 0,
+};
+
+/**
+ * Get Sentinel-1 GRD collection (IW mode, dual VV+VH polarisation)
+ * Uses the same default window as Sentinel-2 (last 60 days); Sentinel-1 revisits
+ * every 6-12 days and is not affected by clouds, so no cloud filter applies
+ */
+export function getSentinel1Collection(dateRange?: DateRange): ee.ImageCollection {
+  const { startDate, endDate } = dateRange || getRecentDateRange();
+
+  return ee.ImageCollection("COPERNICUS/S1_GRD")
+    .filterDate(startDate, endDate)
+    .filter(ee.Filter.eq("instrumentMode", "IW"))
+    .filter(ee.Filter.listContains("transmitterReceiverPolarisation", "VV"))
+    .filter(ee.Filter.listContains("transmitterReceiverPolarisation", "VH"));
+}
+
+/**
+ * Calculate a radar index from the speckle-filtered VV/VH backscatter (dB) of an image
+ */
+export function calculateRadarIndex(image: ee.Image, indexType: RadarIndexType): ee.Image {
+  const definition = RADAR_INDEX_REGISTRY[indexType];
+  if (!definition) {
+    throw new Error(`Unknown radar index type: ${indexType}`);
+  }
+  return image
+    .expression(definition.expression, {
+      VV: image.select("VV").focalMedian(SPECKLE_FILTER_RADIUS_METERS, "circle", "meters"),
+      VH: image.select("VH").focalMedian(SPECKLE_FILTER_RADIUS_METERS, "circle", "meters"),
+    })
+    .rename(definition.id);
+}
+
+/**
+ * Fetch acquisition metadata of a Sentinel-1 image
+ * The orbit takes the place of the Sentinel-2 tile; radar has no cloud percentage
+ */
+export async function getRadarImageMetadata(image: ee.Image): Promise<SatelliteImageMetadata> {
+  const properties = ee.Feature(null, {
+    sceneId: image.get("system:index"),
+    timestamp: image.get("system:time_start"),
+    platform: image.get("platform_number"),
+    orbitPass: image.get("orbitProperties_pass"),
+    relativeOrbit: image.get("relativeOrbitNumber_start"),
+  });
+
+  const value = await new Promise<any>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error("Image metadata request timed out"));
+    }, 30000); // 30 second timeout
+
+    properties.getInfo((result: any, error?: Error) => {
+      clearTimeout(timeout);
+      if (error) reject(error);
+      else resolve(result);
+    });
+  });
+
+  const props = value?.properties || {};
+  if (typeof props.timestamp !== "number") {
+    throw new Error("Image is missing system:time_start");
+  }
+
+  const acquisitionTime = new Date(props.timestamp).toISOString();
+  const orbitPass = props.orbitPass === "ASCENDING" ? "ascendente" : "descendente";
+
+  return {
+    sceneId: props.sceneId || "",
+    date: acquisitionTime.split("T")[0],
+    acquisitionTime,
+    tileId: props.relativeOrbit ? `Órbita ${props.relativeOrbit} ${orbitPass}` : "",
+    cloudPercentage: 0,
+    sensor: `Sentinel-1${props.platform || ""}`,
+  };
+}
@@ -0,0 +1,450 @@
+import { IndexType, CustomIndexId, OpticalSource, RadarIndexType, ThermalLayerType } from "@/types/report";
+import { YieldIndexType } from "@/types/yield";
+import { isExpressionSupported } from "@/lib/indices/expression";
+
+/**
+ * Interpretation level: the first level whose bound matches the value wins
+ * A level without bounds is the fallback
+ */
+export interface IndexLevel {
+  above?: number;
+  below?: number;
+  label: string;
+}
+
+/**
+ * Tunable constant of an index formula, referenced by name in its expression
+ */
+export interface IndexParameter {
+  label: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+}
+
+export interface IndexDefinition {
+  id: IndexType;
+  formula: string; // Human-readable formula
+  expression: string; // Earth Engine band-math over Sentinel-2 bands (B2, B8, ...)
+  parameters?: Record<string, IndexParameter>;
+  palette: string[]; // Low to high values
+  range: [number, number]; // Typical value range over vegetation and soil
+  description: string; // Short use case shown in selectors
+  explanation: string; // Longer text shown next to the result
+  levels: IndexLevel[];
+}
+
+/**
+ * Single source of truth for the built-in spectral indices
+ * Adding an index: extend the IndexType union and add its entry here
+ */
+export const INDEX_REGISTRY: Record<IndexType, IndexDefinition> = {
+  NDVI: {
+    id: "NDVI",
+    formula: "(NIR - Red) / (NIR + Red)",
+    expression: "(B8 - B4) / (B8 + B4)",
+    palette: ["red", "yellow", "green"],
+    range: [-0.2, 0.9],
+    description: "Salud general y cobertura vegetal",
+    explanation: "NDVI es ideal para evaluar la salud general y cobertura vegetal.",
+    levels: [
+      { above: 0.6, label: "Vegetación muy saludable" },
+      { above: 0.3, label: "Vegetación moderadamente saludable" },
+      { label: "Vegetación con estrés o baja cobertura" },
+    ],
+  },
+  NDRE: {
+    id: "NDRE",
+    formula: "(NIR - Red Edge) / (NIR + Red Edge)",
+    expression: "(B8 - B5) / (B8 + B5)",
+    palette: ["red", "yellow", "green"],
+    range: [-0.2, 0.6],
+    description: "Contenido de clorofila y nutrición",
+    explanation: "NDRE es mejor para evaluar el contenido de clorofila y nutrición.",
+    levels: [
+      { above: 0.3, label: "Contenido de clorofila alto" },
+      { above: 0.15, label: "Contenido de clorofila moderado" },
+      { label: "Contenido de clorofila bajo" },
+    ],
+  },
+  EVI: {
+    id: "EVI",
+    formula: "2.5 * ((NIR - Red) / (NIR + 6*Red - 7.5*Blue + 1))",
+    expression: "2.5 * ((B8 - B4) / (B8 + 6 * B4 - 7.5 * B2 + 1))",
+    palette: ["blue", "cyan", "yellow", "orange", "red"],
+    range: [-0.2, 1],
+    description: "Biomasa y productividad",
+    explanation: "EVI es más sensible a variaciones en áreas con alta biomasa.",
+    levels: [
+      { above: 0.5, label: "Biomasa y productividad altas" },
+      { above: 0.2, label: "Biomasa y productividad moderadas" },
+      { label: "Biomasa y productividad bajas" },
+    ],
+  },
+  NDWI: {
+    // Also known as NDMI (Normalized Difference Moisture Index)
+    id: "NDWI",
+    formula: "(NIR - SWIR) / (NIR + SWIR)",
+    expression: "(B8 - B11) / (B8 + B11)",
+    palette: ["brown", "yellow", "cyan", "blue"],
+    range: [-0.5, 0.6],
+    description: "Estrés hídrico y problemas de riego",
+    explanation: "NDWI detecta estrés hídrico e problemas de riego antes que otros índices. Detecta contenido de agua que cae antes del declive de clorofila o biomasa.",
+    levels: [
+      { above: 0.3, label: "Contenido de agua adecuado" },
+      { above: 0.0, label: "Contenido de agua moderado" },
+      { label: "Estrés hídrico - requiere atención" },
+    ],
+  },
+  MSAVI: {
+    id: "MSAVI",
+    formula: "(2*NIR + 1 - sqrt((2*NIR + 1)^2 - 8*(NIR - Red))) / 2",
+    expression: "(2 * B8 + 1 - sqrt((2 * B8 + 1) ** 2 - 8 * (B8 - B4))) / 2",
+    palette: ["red", "yellow", "green"],
+    range: [-0.2, 0.9],
+    description: "Emergencia y establecimiento temprano",
+    explanation: "MSAVI elimina el ruido del suelo y es crítico en etapas tempranas. Detecta problemas de emergencia, densidad de siembra y zonas de compactación.",
+    levels: [
+      { above: 0.5, label: "Emergencia y establecimiento buenos" },
+      { above: 0.2, label: "Emergencia y establecimiento moderados" },
+      { label: "Emergencia pobre o falla temprana" },
+    ],
+  },
+  PSRI: {
+    id: "PSRI",
+    formula: "(Red - Green) / Red Edge",
+    expression: "(B4 - B3) / B5",
+    palette: ["green", "yellow", "orange", "red"],
+    range: [-0.2, 0.6],
+    description: "Senescencia y presión de enfermedades",
+    explanation: "PSRI distingue senescencia natural de declive inducido por estrés. Útil para detectar enfermedades, optimizar cosecha y evitar insumos innecesarios.",
+    levels: [
+      { below: 0.1, label: "Vegetación saludable y joven" },
+      { below: 0.3, label: "Senescencia moderada o madurez" },
+      { label: "Senescencia avanzada o estrés severo" },
+    ],
+  },
+  GNDVI: {
+    id: "GNDVI",
+    formula: "(NIR - Green) / (NIR + Green)",
+    expression: "(B8 - B3) / (B8 + B3)",
+    palette: ["red", "yellow", "green"],
+    range: [-0.2, 0.9],
+    description: "Nitrógeno y vigor del cultivo",
+    explanation: "GNDVI usa la banda verde, más sensible a la concentración de clorofila y nitrógeno que NDVI. Útil para ajustar la fertilización nitrogenada.",
+    levels: [
+      { above: 0.6, label: "Nitrógeno y clorofila adecuados" },
+      { above: 0.4, label: "Nitrógeno moderado" },
+      { label: "Posible deficiencia de nitrógeno" },
+    ],
+  },
+  SAVI: {
+    id: "SAVI",
+    formula: "(1 + L) * (NIR - Red) / (NIR + Red + L)",
+    // Bands are raw reflectance x 10000, so L is scaled to keep the reflectance-space formula
+    expression: "(1 + L) * (B8 - B4) / (B8 + B4 + L * 10000)",
+    parameters: {
+      L: { label: "Factor de suelo (L)", defaultValue: 0.5, min: 0, max: 1 },
+    },
+    palette: ["red", "yellow", "green"],
+    range: [-0.2, 0.9],
+    description: "Vegetación con suelo expuesto (factor L ajustable)",
+    explanation: "SAVI corrige el efecto del suelo desnudo. Usa L cercano a 1 con poca cobertura vegetal y cercano a 0 con cobertura densa.",
+    levels: [
+      { above: 0.5, label: "Cobertura vegetal alta" },
+      { above: 0.25, label: "Cobertura vegetal moderada" },
+      { label: "Cobertura baja o suelo expuesto" },
+    ],
+  },
+  CIre: {
+    id: "CIre",
+    formula: "(NIR / Red Edge) - 1",
+    expression: "(B7 / B5) - 1",
+    palette: ["red", "yellow", "green"],
+    range: [0, 8],
+    description: "Clorofila en cultivos densos (borde rojo)",
+    explanation: "CIre no se satura en cultivos densos como NDVI, por lo que distingue mejor el contenido de clorofila en etapas avanzadas.",
+    levels: [
+      { above: 3, label: "Contenido de clorofila alto" },
+      { above: 1.5, label: "Contenido de clorofila moderado" },
+      { label: "Contenido de clorofila bajo" },
+    ],
+  },
+  LAI: {
+    id: "LAI",
+    formula: "3.618 * EVI - 0.118",
+    // Empirical EVI-based estimate; EVI in reflectance space (the +1 becomes +10000 on raw bands)
+    expression: "3.618 * (2.5 * (B8 - B4) / (B8 + 6 * B4 - 7.5 * B2 + 10000)) - 0.118",
+    palette: ["brown", "yellow", "green", "darkgreen"],
+    range: [0, 6],
+    description: "Índice de área foliar estimado (m²/m²)",
+    explanation: "LAI estima los metros cuadrados de hoja por metro cuadrado de suelo. Es una estimación empírica a partir de EVI, útil para comparar zonas y fechas.",
+    levels: [
+      { above: 3, label: "Dosel denso" },
+      { above: 1, label: "Dosel en desarrollo" },
+      { label: "Dosel escaso" },
+    ],
+  },
+  NBR: {
+    id: "NBR",
+    formula: "(NIR - SWIR2) / (NIR + SWIR2)",
+    expression: "(B8 - B12) / (B8 + B12)",
+    palette: ["black", "red", "orange", "yellow", "green"],
+    range: [-0.5, 0.8],
+    description: "Evaluación de áreas quemadas",
+    explanation: "NBR resalta áreas quemadas: valores bajos indican vegetación quemada o suelo desnudo. Compara fechas antes y después de un incendio para medir la severidad.",
+    levels: [
+      { above: 0.3, label: "Vegetación sin afectación" },
+      { above: 0.1, label: "Afectación leve o suelo desnudo" },
+      { label: "Área quemada o muy degradada" },
+    ],
+  },
+};
+
+export const INDEX_TYPES = Object.keys(INDEX_REGISTRY) as IndexType[];
+
+// Biomass indices integrated over the season for the yield potential estimate
+export const YIELD_INDEX_TYPES: YieldIndexType[] = ["NDVI", "EVI"];
+
+// Areas compared in one yield potential request, so their season series fit a 300 s function
+export const MAX_YIELD_AREAS = 12;
+
+export interface RadarIndexDefinition extends Omit<IndexDefinition, "id" | "expression" | "parameters"> {
+  id: RadarIndexType;
+  expression: string; // Earth Engine band-math over Sentinel-1 backscatter in dB (VV, VH)
+}
+
+/**
+ * Sentinel-1 GRD indices: radar sees through clouds, so they stand in for the
+ * optical indices when no clear Sentinel-2 scene is available
+ */
+export const RADAR_INDEX_REGISTRY: Record<RadarIndexType, RadarIndexDefinition> = {
+  VV: {
+    id: "VV",
+    formula: "Retrodispersión VV (dB)",
+    expression: "VV",
+    palette: ["black", "gray", "white"],
+    range: [-25, 0],
+    description: "Humedad y rugosidad del suelo (radar)",
+    explanation: "VV mide la señal de radar reflejada por el suelo y el cultivo. Sube con la humedad del suelo y la rugosidad; el agua y los suelos secos y lisos se ven oscuros.",
+    levels: [
+      { above: -10, label: "Retrodispersión alta (suelo húmedo o cultivo denso)" },
+      { above: -17, label: "Retrodispersión moderada" },
+      { label: "Retrodispersión baja (suelo seco, liso o encharcado)" },
+    ],
+  },
+  VH: {
+    id: "VH",
+    formula: "Retrodispersión VH (dB)",
+    expression: "VH",
+    palette: ["black", "gray", "white"],
+    range: [-30, -5],
+    description: "Biomasa y estructura del cultivo (radar)",
+    explanation: "VH responde al volumen de hojas y tallos: aumenta a medida que el cultivo crece y cae tras la cosecha.",
+    levels: [
+      { above: -15, label: "Biomasa alta" },
+      { above: -20, label: "Biomasa moderada" },
+      { label: "Biomasa baja o suelo desnudo" },
+    ],
+  },
+  RVI: {
+    id: "RVI",
+    formula: "4 * VH / (VV + VH) (potencia lineal)",
+    expression: "4 * (10 ** (VH / 10)) / (10 ** (VV / 10) + 10 ** (VH / 10))",
+    palette: ["red", "yellow", "green"],
+    range: [0, 1],
+    description: "Vigor de la vegetación con nubes (radar)",
+    explanation: "RVI estima el desarrollo de la vegetación con radar, por lo que funciona aunque esté nublado. Sigue la tendencia del NDVI, pero sus valores no son directamente comparables.",
+    levels: [
+      { above: 0.6, label: "Vegetación densa" },
+      { above: 0.3, label: "Vegetación moderada" },
+      { label: "Vegetación escasa o suelo desnudo" },
+    ],
+  },
+};
+
+export const RADAR_INDEX_TYPES = Object.keys(RADAR_INDEX_REGISTRY) as RadarIndexType[];
+
+export interface ThermalLayerDefinition extends Omit<IndexDefinition, "id" | "expression" | "parameters"> {
+  id: ThermalLayerType;
+  unit: string; // Physical unit of the values
+}
+
+/**
+ * Layers derived from the Landsat 8/9 thermal band (TIRS band 10, resampled to 30 m)
+ * Computed in lib/indices/thermal; unlike the indices, values carry physical units
+ */
+export const THERMAL_LAYER_REGISTRY: Record<ThermalLayerType, ThermalLayerDefinition> = {
+  LST: {
+    id: "LST",
+    formula: "ST_B10 × 0.00341802 + 149 − 273.15",
+    palette: ["#313695", "#74add1", "#ffffbf", "#f46d43", "#a50026"],
+    range: [10, 60],
+    unit: "°C",
+    description: "Temperatura de la superficie (estrés térmico)",
+    explanation: "LST es la temperatura de la superficie medida por Landsat. Un cultivo que transpira bien se mantiene más fresco; las zonas calientes dentro de la parcela suelen indicar falta de agua o fallas de riego.",
+    levels: [
+      { above: 40, label: "Superficie muy caliente: posible estrés hídrico" },
+      { above: 30, label: "Temperatura moderada" },
+      { label: "Superficie fresca: buena transpiración o riego reciente" },
+    ],
+  },
+  ET: {
+    id: "ET",
+    formula: "Fracción evaporativa (LST) × ET de referencia (ERA5-Land)",
+    palette: ["#8c510a", "#d8b365", "#f6e8c3", "#5ab4ac", "#01665e"],
+    range: [0, 10],
+    unit: "mm/día",
+    description: "Consumo de agua del cultivo (evapotranspiración)",
+    explanation: "ET estima cuánta agua pierde el cultivo por día. Se calcula comparando la temperatura de cada píxel con las zonas más frías y más calientes alrededor de la parcela, por lo que es una estimación aproximada útil para comparar zonas y fechas.",
+    levels: [
+      { above: 5, label: "Evapotranspiración alta: cultivo bien abastecido de agua" },
+      { above: 2, label: "Evapotranspiración moderada" },
+      { label: "Evapotranspiración baja: posible déficit hídrico o suelo desnudo" },
+    ],
+  },
+};
+
+export const THERMAL_LAYER_TYPES = Object.keys(THERMAL_LAYER_REGISTRY) as ThermalLayerType[];
+
+// Palette used for custom indices that don't define their own
+export const DEFAULT_CUSTOM_PALETTE = ["red", "yellow", "green"];
+
+const CUSTOM_INDEX_PREFIX = "custom:";
+
+// Band name used for custom indices (their ids are not valid band names)
+export const CUSTOM_INDEX_BAND = "CUSTOM";
+
+/**
+ * Check whether a built-in index can be computed from a source (red-edge indices need Sentinel-2)
+ */
+export function isIndexSupported(indexType: IndexType, source: OpticalSource): boolean {
+  return isExpressionSupported(INDEX_REGISTRY[indexType].expression, source);
+}
+
+/**
+ * Check whether a value is a built-in index id
+ */
+export function isIndexType(value: unknown): value is IndexType {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(INDEX_REGISTRY, value);
+}
+
+/**
+ * Check whether a value is a Sentinel-1 radar index id
+ */
+export function isRadarIndexType(value: unknown): value is RadarIndexType {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(RADAR_INDEX_REGISTRY, value);
+}
+
+/**
+ * Check whether a value is a Landsat thermal layer id
+ */
+export function isThermalLayerType(value: unknown): value is ThermalLayerType {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(THERMAL_LAYER_REGISTRY, value);
+}
+
+/**
+ * Check whether a value references a user-defined index
+ */
+export function isCustomIndexId(value: unknown): value is CustomIndexId {
+  return typeof value === "string" && value.startsWith(CUSTOM_INDEX_PREFIX) && value.length > CUSTOM_INDEX_PREFIX.length;
+}
+
+/**
+ * Build the index reference for a custom index document
+ */
+export function toCustomIndexId(documentId: string): CustomIndexId {
+  return `${CUSTOM_INDEX_PREFIX}${documentId}`;
+}
+
+/**
+ * Extract the Firestore document id from a custom index reference
+ */
+export function getCustomIndexDocumentId(indexId: CustomIndexId): string {
+  return indexId.slice(CUSTOM_INDEX_PREFIX.length);
+}
+
+/**
+ * Resolve the constants of an index formula: defaults overridden by valid user values
+ * @throws Error if a value is unknown or out of range
+ */
+export function resolveIndexParameters(
+  indexType: IndexType,
+  overrides?: Record<string, number>
+): Record<string, number> {
+  const parameters = INDEX_REGISTRY[indexType].parameters || {};
+  const resolved: Record<string, number> = {};
+
+  Object.entries(parameters).forEach(([name, parameter]) => {
+    resolved[name] = parameter.defaultValue;
+  });
+
+  Object.entries(overrides || {}).forEach(([name, value]) => {
+    const parameter = parameters[name];
+    if (!parameter) {
+      throw new Error(`${indexType} has no parameter "${name}"`);
+    }
+    if (typeof value !== "number" || isNaN(value) || value < parameter.min || value > parameter.max) {
+      throw new Error(`${indexType} parameter ${name} must be between ${parameter.min} and ${parameter.max}`);
+    }
+    resolved[name] = value;
+  });
+
+  return resolved;
+}
+
+/**
+ * Get the registry entry of a built-in optical, radar or thermal layer (null for unknown indices)
+ */
+function getDefinition(indexType: string): IndexDefinition | RadarIndexDefinition | ThermalLayerDefinition | null {
+  if (isIndexType(indexType)) return INDEX_REGISTRY[indexType];
+  if (isRadarIndexType(indexType)) return RADAR_INDEX_REGISTRY[indexType];
+  if (isThermalLayerType(indexType)) return THERMAL_LAYER_REGISTRY[indexType];
+  return null;
+}
+
+/**
+ * Get the display palette for a built-in optical, radar or thermal layer
+ */
+export function getIndexPalette(indexType: IndexType | RadarIndexType | ThermalLayerType): string[] {
+  return getDefinition(indexType)!.palette;
+}
+
+/**
+ * Get the typical value range of a built-in optical, radar or thermal layer (histogram bounds)
+ */
+export function getIndexRange(indexType: IndexType | RadarIndexType | ThermalLayerType): [number, number] {
+  return getDefinition(indexType)!.range;
+}
+
+/**
+ * Format a value of an index for display: unitless indices get 3 decimals,
+ * thermal layers 1 decimal and their unit
+ */
+export function formatIndexValue(indexType: string, value: number): string {
+  return isThermalLayerType(indexType)
+    ? `${value.toFixed(1)} ${THERMAL_LAYER_REGISTRY[indexType].unit}`
+    : value.toFixed(3);
+}
+
+/**
+ * Get the interpretation label for an index value (empty for unknown indices)
+ */
+export function getIndexInterpretation(indexType: string, value: number): string {
+  const definition = getDefinition(indexType);
+  if (!definition) return "";
+
+  const level = definition.levels.find((candidate) => {
+    if (candidate.above !== undefined) return value > candidate.above;
+    if (candidate.below !== undefined) return value < candidate.below;
+    return true;
+  });
+  return level?.label || "";
+}
+
+/**
+ * Get the explanation text for an index (empty for unknown indices)
+ */
+export function getIndexExplanation(indexType: string): string {
+  return getDefinition(indexType)?.explanation || "";
+}
@@ -0,0 +1,83 @@
+import * as ee from "@google/earthengine";
+import { SatelliteScene } from "@/types/satellite";
+import { CloudMaskMode } from "@/types/report";
+import { getSentinel2Collection, DateRange } from "@/lib/indices/calculations";
+
+/**
+ * List the Sentinel-2 scenes available over a polygon in a date range
+ * Each scene reports its acquisition metadata and the share of the polygon
+ * covered by cloud-free pixels, so users can pick the best scene to analyze
+ */
+export async function listScenes(
+  polygon: ee.Geometry,
+  cloudCoverage: number,
+  dateRange: DateRange,
+  scale: number,
+  cloudMask: CloudMaskMode = "qa60"
+): Promise<SatelliteScene[]> {
+  const collection = getSentinel2Collection(cloudCoverage, dateRange, cloudMask)
+    .filterBounds(polygon);
+
+  // Total pixel count inside the polygon, used to derive coverage
+  const totalPixels = ee.Image.constant(1)
+    .reduceRegion({
+      reducer: ee.Reducer.count(),
+      geometry: polygon,
+      scale,
+      maxPixels: 1e9,
+      bestEffort: true,
+    })
+    .get("constant");
+
+  const features = collection.map((image: ee.Image) => {
+    // B4 carries the cloud mask applied in getSentinel2Collection
+    const validPixels = image.select("B4")
+      .reduceRegion({
+        reducer: ee.Reducer.count(),
+        geometry: polygon,
+        scale,
+        maxPixels: 1e9,
+        bestEffort: true,
+        tileScale: 4,
+      })
+      .get("B4");
+
+    return ee.Feature(null, {
+      sceneId: image.get("system:index"),
+      timestamp: image.get("system:time_start"),
+      tileId: image.get("MGRS_TILE"),
+      cloudPercentage: image.get("CLOUDY_PIXEL_PERCENTAGE"),
+      sensor: image.get("SPACECRAFT_NAME"),
+      validPixels,
+      totalPixels,
+    });
+  });
+
+  const result = await new Promise<any>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error("Scene listing timed out. Try a shorter date range."));
+    }, 60000); // 60 second timeout
+
+    features.sort("timestamp", false).getInfo((value: any, error?: Error) => {
+      clearTimeout(timeout);
+      if (error) reject(error);
+      else resolve(value);
+    });
+  });
+
+  return (result?.features || []).map((feature: any) => {
+    const props = feature.properties || {};
+    const acquisitionTime = new Date(props.timestamp).toISOString();
+    const total = props.totalPixels || 0;
+
+    return {
+      sceneId: props.sceneId,
+      date: acquisitionTime.split("T")[0],
+      acquisitionTime,
+      tileId: props.tileId || "",
+      cloudPercentage: typeof props.cloudPercentage === "number" ? props.cloudPercentage : 0,
+      sensor: props.sensor || "Sentinel-2",
+      coverage: total > 0 ? Math.min(1, (props.validPixels || 0) / total) : 0,
+    } as SatelliteScene;
+  });
+}
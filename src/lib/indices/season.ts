@@ -0,0 +1,57 @@
+import { Area } from "@/types/area";
+import { DateRange } from "@/lib/indices/calculations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Season length assumed when an area has a sowing date but no expected harvest date,
+// and the trailing window used for areas without a crop calendar
+export const DEFAULT_SEASON_DAYS = 120;
+
+// Window cap, so a stale sowing date doesn't request years of scenes
+const MAX_SEASON_DAYS = 365;
+
+const toDateString = (date: Date): string => date.toISOString().split("T")[0];
+
+/**
+ * Sowing and expected harvest of a crop calendar, in ms since the epoch
+ * Calendar dates are read as UTC days, like the rest of the date handling
+ * @returns null when there is no sowing date
+ */
+export function getSeasonBounds(
+  sowingDate?: string,
+  expectedHarvestDate?: string
+): { sowing: number; harvest: number } | null {
+  if (!sowingDate) return null;
+
+  const sowing = new Date(`${sowingDate}T00:00:00Z`).getTime();
+  const harvest = expectedHarvestDate
+    ? new Date(`${expectedHarvestDate}T00:00:00Z`).getTime()
+    : sowing + DEFAULT_SEASON_DAYS * DAY_MS;
+  return { sowing, harvest };
+}
+
+/**
+ * Season observed for an area: from sowing to the expected harvest (plus marginDays) and no
+ * later than today, or the last DEFAULT_SEASON_DAYS days for areas without a crop calendar
+ * Both dates are inclusive
+ */
+export function getSeasonWindow(
+  area: Pick<Area, "sowingDate" | "expectedHarvestDate">,
+  now: Date = new Date(),
+  marginDays: number = 0
+): DateRange {
+  const bounds = getSeasonBounds(area.sowingDate, area.expectedHarvestDate);
+  if (!bounds) {
+    return {
+      startDate: toDateString(new Date(now.getTime() - DEFAULT_SEASON_DAYS * DAY_MS)),
+      endDate: toDateString(now),
+    };
+  }
+
+  const start = Math.max(bounds.sowing, now.getTime() - MAX_SEASON_DAYS * DAY_MS);
+  const end = Math.min(bounds.harvest + marginDays * DAY_MS, now.getTime());
+  return {
+    startDate: toDateString(new Date(start)),
+    endDate: toDateString(new Date(Math.max(end, start))),
+  };
+}
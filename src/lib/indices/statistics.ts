@@ -0,0 +1,80 @@
+import * as ee from "@google/earthengine";
+import { HistogramBin, IndexPercentiles, IndexStatistics } from "@/types/satellite";
+
+export const STATISTICS_PERCENTILES = [5, 25, 50, 75, 95];
+export const HISTOGRAM_BINS = 20;
+
+/**
+ * Reducer for the per-area statistics of an index band: min/max/mean, pixel count,
+ * standard deviation, percentiles and a histogram
+ * Built-in indices use fixed bins over their typical range so histograms are comparable
+ * between areas and dates (values outside the range are not counted); custom indices
+ * have no known range and get automatic bins
+ */
+export function getStatisticsReducer(range?: [number, number]): ee.Reducer {
+  const histogram = range
+    ? ee.Reducer.fixedHistogram(range[0], range[1], HISTOGRAM_BINS)
+    : ee.Reducer.autoHistogram(HISTOGRAM_BINS);
+
+  return ee.Reducer.minMax()
+    .combine({ reducer2: ee.Reducer.mean(), sharedInputs: true })
+    .combine({ reducer2: ee.Reducer.count(), sharedInputs: true })
+    .combine({ reducer2: ee.Reducer.stdDev(), sharedInputs: true })
+    .combine({ reducer2: ee.Reducer.percentile(STATISTICS_PERCENTILES), sharedInputs: true })
+    .combine({ reducer2: histogram, sharedInputs: true });
+}
+
+/**
+ * Convert Earth Engine [bucketMin, count] pairs into bins with explicit bounds
+ */
+function toHistogramBins(buckets: number[][] | null | undefined, range?: [number, number]): HistogramBin[] | undefined {
+  if (!Array.isArray(buckets) || buckets.length === 0) return undefined;
+
+  // Both histogram reducers use equal-width buckets
+  const autoWidth = buckets.length > 1 ? buckets[1][0] - buckets[0][0] : 0;
+  const width = range ? (range[1] - range[0]) / HISTOGRAM_BINS : autoWidth;
+  return buckets.map(([bucketMin, count]) => ({ min: bucketMin, max: bucketMin + width, count }));
+}
+
+/**
+ * Read the statistics of an index band from a reduceRegion result of getStatisticsReducer
+ */
+export function parseIndexStatistics(
+  value: Record<string, any>,
+  bandName: string,
+  range?: [number, number]
+): IndexStatistics {
+  const min = value[`${bandName}_min`];
+  const max = value[`${bandName}_max`];
+  const percentileValues = STATISTICS_PERCENTILES.map((percentile) => value[`${bandName}_p${percentile}`]);
+  const hasPercentiles = percentileValues.every((percentile) => typeof percentile === "number");
+
+  return {
+    min,
+    max,
+    mean: value[`${bandName}_mean`] ?? (min + max) / 2,
+    stdDev: value[`${bandName}_stdDev`] ?? undefined,
+    percentiles: hasPercentiles
+      ? {
+          p5: percentileValues[0],
+          p25: percentileValues[1],
+          p50: percentileValues[2],
+          p75: percentileValues[3],
+          p95: percentileValues[4],
+        } as IndexPercentiles
+      : undefined,
+    histogram: toHistogramBins(value[`${bandName}_histogram`], range),
+  };
+}
+
+/**
+ * Color stretch for display: the 5th-95th percentile range, so a few outlier pixels
+ * (cloud edges, water, roads) don't wash out the variation inside the field
+ * Falls back to min/max when percentiles are missing or collapse to one value
+ */
+export function getStretch(stats: IndexStatistics): { min: number; max: number } {
+  if (stats.percentiles && stats.percentiles.p95 > stats.percentiles.p5) {
+    return { min: stats.percentiles.p5, max: stats.percentiles.p95 };
+  }
+  return { min: stats.min, max: stats.max };
+}
@@ -0,0 +1,92 @@
+import * as ee from "@google/earthengine";
+import { ThermalLayerType } from "@/types/report";
+
+// Landsat Collection 2 surface temperature scaling: ST_B10 digital numbers to Kelvin
+const SURFACE_TEMPERATURE_SCALE = 0.00341802;
+const SURFACE_TEMPERATURE_OFFSET = 149.0;
+const KELVIN_OFFSET = 273.15;
+
+// LST percentiles around the area used as the wettest (cold) and driest (hot) references
+const COLD_PERCENTILE = 5;
+const HOT_PERCENTILE = 95;
+
+// Hot/cold references are taken this far around the area: a single uniformly irrigated
+// field has no dry pixels of its own to compare against
+const REFERENCE_REGION_BUFFER_M = 5000;
+
+// Smallest hot - cold spread (°C) used for the evaporative fraction; a nearly uniform
+// landscape would otherwise divide by ~0 and turn sensor noise into ET
+const MIN_REFERENCE_SPREAD = 5;
+
+// ERA5-Land daily aggregates lag a few days behind real time, so the latest day
+// within this window before the scene provides the potential evaporation
+const POTENTIAL_EVAPORATION_LOOKBACK_DAYS = 30;
+
+/**
+ * Land surface temperature (°C) from the Landsat thermal band of a harmonized Landsat image
+ */
+export function calculateLST(image: ee.Image): ee.Image {
+  return image
+    .select("ST_B10")
+    .multiply(SURFACE_TEMPERATURE_SCALE)
+    .add(SURFACE_TEMPERATURE_OFFSET)
+    .subtract(KELVIN_OFFSET)
+    .rename("LST");
+}
+
+/**
+ * Simple actual evapotranspiration estimate (mm/day), SSEBop style:
+ * the evaporative fraction (hot - LST) / (hot - cold) uses the hot and cold LST
+ * percentiles of the wider surrounding region as dry and well-watered references, and
+ * scales the ERA5-Land potential evaporation of the acquisition day. That is evaporation
+ * from a saturated surface, not FAO-56 reference ET, and usually runs higher than it
+ * ET is fully masked when ERA5-Land has no day in the lookback window
+ */
+export function calculateET(image: ee.Image, region: ee.Geometry): ee.Image {
+  const lst = calculateLST(image);
+  const references = lst.reduceRegion({
+    reducer: ee.Reducer.percentile([COLD_PERCENTILE, HOT_PERCENTILE]),
+    geometry: region.buffer(REFERENCE_REGION_BUFFER_M),
+    scale: 30,
+    maxPixels: 1e9,
+    bestEffort: true,
+  });
+  const cold = ee.Image.constant(references.get(`LST_p${COLD_PERCENTILE}`));
+  const hot = ee.Image.constant(references.get(`LST_p${HOT_PERCENTILE}`));
+  const spread = hot.subtract(cold).max(MIN_REFERENCE_SPREAD);
+  const evaporativeFraction = hot.subtract(lst).divide(spread).clamp(0, 1);
+
+  // A fully masked placeholder sorts last, so an empty ERA5 window gives masked ET
+  // instead of failing on .first() of an empty collection
+  const noData = ee.Image.constant(0)
+    .updateMask(ee.Image.constant(0))
+    .rename("potential_evaporation_sum")
+    .set("system:time_start", 0);
+
+  // potential_evaporation_sum is in meters of water, negative for evaporation
+  const day = image.date();
+  const potentialEvaporation = ee.ImageCollection("ECMWF/ERA5_LAND/DAILY_AGGR")
+    .filterDate(day.advance(-POTENTIAL_EVAPORATION_LOOKBACK_DAYS, "day"), day.advance(1, "day"))
+    .select("potential_evaporation_sum")
+    .merge(ee.ImageCollection([noData]))
+    .sort("system:time_start", false)
+    .first()
+    .multiply(-1000);
+
+  return evaporativeFraction.multiply(potentialEvaporation).rename("ET");
+}
+
+/**
+ * Calculate a thermal layer of a harmonized Landsat image
+ * The hot/cold references of ET are taken around the region (e.g. the buffered area bounding box)
+ */
+export function calculateThermalLayer(image: ee.Image, layerType: ThermalLayerType, region: ee.Geometry): ee.Image {
+  switch (layerType) {
+    case "LST":
+      return calculateLST(image);
+    case "ET":
+      return calculateET(image, region);
+    default:
+      throw new Error(`Unknown thermal layer type: ${layerType}`);
+  }
+}
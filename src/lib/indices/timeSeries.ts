@@ -0,0 +1,125 @@
+import * as ee from "@google/earthengine";
+import { CloudMaskMode, IndexType, OpticalSource } from "@/types/report";
+import { TimeSeriesPoint } from "@/types/satellite";
+import { calculateIndex, getOpticalCollection, DateRange } from "@/lib/indices/calculations";
+
+/**
+ * Compute per-acquisition statistics of an index for every pass of a source in a date range
+ * (one point per acquisition date, tiles of the same pass merged)
+ * Landsat 8/9 reaches back to 2013, enough for multi-year baselines
+ * All scenes are reduced server-side in a single getInfo call to keep GEE round-trips low
+ */
+export async function getIndexTimeSeries(
+  polygon: ee.Geometry,
+  indexType: IndexType,
+  dateRange: DateRange,
+  cloudCoverage: number,
+  scale: number,
+  cloudMask: CloudMaskMode = "qa60",
+  params?: Record<string, number>,
+  source: OpticalSource = "sentinel2"
+): Promise<TimeSeriesPoint[]> {
+  const collection = getOpticalCollection(source, cloudCoverage, dateRange, cloudMask)
+    .filterBounds(polygon);
+
+  // Clip to the buffered bounding box before index calculation (cost optimization)
+  const bufferedBbox = polygon.bounds().buffer(1000);
+
+  // Total pixel count inside the polygon, used to derive the valid-pixel fraction
+  const totalPixels = ee.Image.constant(1)
+    .reduceRegion({
+      reducer: ee.Reducer.count(),
+      geometry: polygon,
+      scale,
+      maxPixels: 1e9,
+      bestEffort: true,
+    })
+    .get("constant");
+
+  const features = collection.map((image: ee.Image) => {
+    const indexImage = calculateIndex(image.clip(bufferedBbox), indexType, params, source);
+    const stats = indexImage.reduceRegion({
+      reducer: ee.Reducer.minMax()
+        .combine({ reducer2: ee.Reducer.mean(), sharedInputs: true })
+        .combine({ reducer2: ee.Reducer.count(), sharedInputs: true }),
+      geometry: polygon,
+      scale,
+      maxPixels: 1e9,
+      bestEffort: true,
+      tileScale: 4,
+    });
+
+    return ee.Feature(null, {
+      sceneId: image.get("system:index"),
+      date: image.date().format("YYYY-MM-dd"),
+      timestamp: image.get("system:time_start"),
+      min: stats.get(`${indexType}_min`),
+      max: stats.get(`${indexType}_max`),
+      mean: stats.get(`${indexType}_mean`),
+      count: stats.get(`${indexType}_count`),
+      totalPixels,
+    });
+  });
+
+  const result = await new Promise<any>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error("Time series computation timed out. Try a shorter date range or a smaller area."));
+    }, 90000); // 90 second timeout
+
+    features.sort("timestamp").getInfo((value: any, error?: Error) => {
+      clearTimeout(timeout);
+      if (error) reject(error);
+      else resolve(value);
+    });
+  });
+
+  // Overlapping tiles of one pass are separate scenes with the same date: merge them into
+  // one point, so a pass is neither drawn twice nor integrated as a zero-day interval
+  const byDate = new Map<string, { point: TimeSeriesPoint; count: number; sceneCount: number }>();
+  for (const feature of result?.features || []) {
+    const props = feature.properties || {};
+    const total = props.totalPixels || 0;
+    const count = props.count || 0;
+    const point: TimeSeriesPoint = {
+      sceneId: props.sceneId,
+      date: props.date,
+      timestamp: props.timestamp,
+      minValue: props.min ?? null,
+      maxValue: props.max ?? null,
+      meanValue: props.mean ?? null,
+      validPixelFraction: total > 0 ? Math.min(1, count / total) : 0,
+    };
+
+    const sameDay = byDate.get(point.date);
+    if (!sameDay) {
+      byDate.set(point.date, { point, count, sceneCount: count });
+      continue;
+    }
+
+    // Pixel-weighted mean and overall min/max; the scene that sees most of the polygon is kept
+    // to open the pass on the map. Tiles overlap, so pixels may be counted twice (capped at 1)
+    const merged = sameDay.point;
+    const mergedCount = sameDay.count + count;
+    byDate.set(point.date, {
+      count: mergedCount,
+      sceneCount: Math.max(sameDay.sceneCount, count),
+      point: {
+        ...merged,
+        sceneId: count > sameDay.sceneCount ? point.sceneId : merged.sceneId,
+        minValue: combineValues(merged.minValue, point.minValue, Math.min),
+        maxValue: combineValues(merged.maxValue, point.maxValue, Math.max),
+        meanValue: combineValues(merged.meanValue, point.meanValue, (a, b) =>
+          mergedCount > 0 ? (a * sameDay.count + b * count) / mergedCount : a),
+        validPixelFraction: total > 0 ? Math.min(1, mergedCount / total) : merged.validPixelFraction,
+      },
+    });
+  }
+
+  return Array.from(byDate.values()).map(({ point }) => point);
+}
+
+function combineValues(a: number | null, b: number | null, combine: (a: number, b: number) => number): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return combine(a, b);
+}
@@ -0,0 +1,148 @@
+import * as ee from "@google/earthengine";
+import { Area } from "@/types/area";
+import { TimeSeriesPoint } from "@/types/satellite";
+import { AreaYieldPotential, YieldIndexType } from "@/types/yield";
+import { getIndexTimeSeries } from "@/lib/indices/timeSeries";
+import { getSeasonWindow } from "@/lib/indices/season";
+import { MAX_YIELD_AREAS } from "@/lib/indices/registry";
+import { calculatePolygonArea, squareMetersToKm, getAdaptiveScale } from "@/lib/utils/geometry";
+import { toExclusiveEndDate } from "@/lib/utils/dates";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+
+// Bare soil level of each index; only the signal above it counts as green biomass
+const SOIL_BASELINE: Record<YieldIndexType, number> = {
+  NDVI: 0.2,
+  EVI: 0.1,
+};
+
+// Scenes with less of the polygon visible are too cloudy to count
+const MIN_VALID_PIXEL_FRACTION = 0.5;
+
+const NO_CROP_LABEL = "Sin cultivo";
+
+// Season series computed at a time; each may take up to 90 s in Earth Engine, so
+// MAX_YIELD_AREAS areas take at most 3 rounds and fit a 300 s function
+const YIELD_CONCURRENCY = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Integrate an index above bare soil over the season (trapezoidal rule, index·days)
+ * @returns null integral with fewer than two clear scenes
+ */
+export function integrateSeason(
+  points: TimeSeriesPoint[],
+  indexType: YieldIndexType
+): { integral: number | null; observations: number } {
+  const valid = points
+    .filter((point) => point.meanValue !== null && point.validPixelFraction >= MIN_VALID_PIXEL_FRACTION)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (valid.length < 2) {
+    return { integral: null, observations: valid.length };
+  }
+
+  const aboveSoil = (point: TimeSeriesPoint) => Math.max(0, (point.meanValue as number) - SOIL_BASELINE[indexType]);
+  let integral = 0;
+  for (let i = 1; i < valid.length; i++) {
+    const days = (valid[i].timestamp - valid[i - 1].timestamp) / DAY_MS;
+    integral += ((aboveSoil(valid[i - 1]) + aboveSoil(valid[i])) / 2) * days;
+  }
+  return { integral, observations: valid.length };
+}
+
+/**
+ * Group label of a crop type, so "maíz" and "Maíz " are compared together
+ */
+export function normalizeCropType(cropType?: string): string {
+  const trimmed = cropType?.trim().toLowerCase();
+  if (!trimmed) return NO_CROP_LABEL;
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+}
+
+/**
+ * Score each area against the best area of the same crop (100) and rank within the crop
+ * Yields differ too much between crops for a single scale, so crops are never compared
+ */
+export function rankYieldPotential(results: Array<Omit<AreaYieldPotential, "score" | "rank">>): AreaYieldPotential[] {
+  const bestByCrop = new Map<string, number>();
+  for (const result of results) {
+    if (result.integral !== null) {
+      bestByCrop.set(result.cropType, Math.max(bestByCrop.get(result.cropType) ?? 0, result.integral));
+    }
+  }
+
+  const ranked: AreaYieldPotential[] = results.map((result) => {
+    const best = bestByCrop.get(result.cropType);
+    return {
+      ...result,
+      score: result.integral !== null && best ? Math.round((result.integral / best) * 100) : null,
+      rank: null,
+    };
+  });
+
+  ranked.sort((a, b) => a.cropType.localeCompare(b.cropType, "es") || (b.score ?? -1) - (a.score ?? -1));
+  ranked.forEach((result, i) => {
+    if (result.score === null) return;
+    const previous = ranked[i - 1];
+    result.rank = previous && previous.cropType === result.cropType && previous.rank !== null ? previous.rank + 1 : 1;
+  });
+  return ranked;
+}
+
+/**
+ * Relative yield potential of a set of areas, ranked within each crop type
+ * Areas are processed YIELD_CONCURRENCY at a time; an area that fails is listed without a score
+ * @param seasonNdvi NDVI series already computed for the areas' season (by phenology), keyed by
+ * area id; they cover at least the yield window, so NDVI areas found here skip Earth Engine
+ */
+export async function getYieldPotential(
+  areas: Area[],
+  indexType: YieldIndexType,
+  seasonNdvi?: Map<string, TimeSeriesPoint[]>
+): Promise<AreaYieldPotential[]> {
+  if (areas.length > MAX_YIELD_AREAS) {
+    throw new Error(`Yield potential compares up to ${MAX_YIELD_AREAS} areas.`);
+  }
+
+  const results = await mapWithConcurrency(areas, YIELD_CONCURRENCY, async (area) => {
+    const coordinates = area.coordinates.map((coord: any) => ({
+      lat: coord.latitude || coord.lat,
+      lng: coord.longitude || coord.lng,
+    }));
+    const { startDate, endDate } = getSeasonWindow(area);
+    const result: Omit<AreaYieldPotential, "score" | "rank"> = {
+      areaId: area.id!,
+      areaName: area.name,
+      cropType: normalizeCropType(area.cropType),
+      startDate,
+      endDate,
+      integral: null,
+      observations: 0,
+    };
+
+    const cached = indexType === "NDVI" ? seasonNdvi?.get(area.id!) : undefined;
+    if (cached) {
+      Object.assign(result, integrateSeason(cached.filter((point) => point.date >= startDate && point.date <= endDate), indexType));
+      return result;
+    }
+
+    try {
+      const polygon = ee.Geometry.Polygon([coordinates.map((coord) => [coord.lng, coord.lat])], "EPSG:4326");
+      const scale = getAdaptiveScale(squareMetersToKm(calculatePolygonArea(coordinates)));
+      // Cloud coverage 100: rely on pixel masking and the valid-pixel fraction instead
+      const points = await getIndexTimeSeries(
+        polygon,
+        indexType,
+        { startDate, endDate: toExclusiveEndDate(endDate) },
+        100,
+        scale
+      );
+      Object.assign(result, integrateSeason(points, indexType));
+    } catch (error: any) {
+      console.error(`[Yield Potential] Failed to integrate ${indexType} for ${area.name}:`, error.message);
+    }
+    return result;
+  });
+
+  return rankYieldPotential(results);
+}
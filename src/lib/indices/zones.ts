@@ -0,0 +1,145 @@
+import * as ee from "@google/earthengine";
+import { ManagementZone, ZoneMethod } from "@/types/satellite";
+import { getAdaptiveScale } from "@/lib/utils/geometry";
+
+export const ZONE_METHODS: ZoneMethod[] = ["kmeans", "quantile"];
+export const MIN_ZONES = 2;
+export const MAX_ZONES = 7; // More classes than a spreader can apply are not useful
+const MAX_TRAINING_PIXELS = 5000;
+const ZONE_SEGMENT_LABEL = "segment";
+
+/**
+ * Resolution used to delineate zones (meters per pixel)
+ * Zones need field-level detail, so small areas use 20m instead of the statistics scale
+ */
+export function getZoneScale(areaKm2: number): number {
+  return areaKm2 <= 10 ? 20 : getAdaptiveScale(areaKm2);
+}
+
+/**
+ * Fetch the class breaks that split the index values into equal-count classes
+ */
+async function getQuantileBreaks(
+  indexImage: ee.Image,
+  polygon: ee.Geometry,
+  scale: number,
+  zoneCount: number
+): Promise<number[]> {
+  const percentiles = Array.from({ length: zoneCount - 1 }, (_, i) => Math.round(((i + 1) * 100) / zoneCount));
+  const breaks = indexImage.reduceRegion({
+    reducer: ee.Reducer.percentile(percentiles),
+    geometry: polygon,
+    scale,
+    maxPixels: 1e9,
+    bestEffort: true,
+    tileScale: 4,
+  });
+
+  const values = await new Promise<Record<string, number | null>>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error("Zone breaks computation timed out. Try reducing the area size."));
+    }, 60000); // 60 second timeout
+
+    breaks.getInfo((value: any, error?: Error) => {
+      clearTimeout(timeout);
+      if (error) reject(error);
+      else resolve(value || {});
+    });
+  });
+
+  return Object.values(values)
+    .filter((value): value is number => typeof value === "number")
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Split an index image into management zones and return them as polygons
+ * - kmeans: clusters pixels with similar values, so zone sizes follow the field
+ * - quantile: equal-area classes between index percentiles
+ * Zones are numbered from 1 (lowest mean index value) to zoneCount
+ */
+export async function getManagementZones(
+  indexImage: ee.Image,
+  bandName: string,
+  polygon: ee.Geometry,
+  scale: number,
+  zoneCount: number,
+  method: ZoneMethod
+): Promise<ManagementZone[]> {
+  let classified: ee.Image;
+
+  if (method === "quantile") {
+    const breaks = await getQuantileBreaks(indexImage, polygon, scale, zoneCount);
+    // Each break the pixel is above moves it up one class
+    classified = breaks.reduce(
+      (classes, value) => classes.add(indexImage.gt(value)),
+      indexImage.multiply(0)
+    );
+  } else {
+    const training = indexImage.sample({
+      region: polygon,
+      scale,
+      numPixels: MAX_TRAINING_PIXELS,
+      seed: 0,
+      geometries: false,
+    });
+    classified = indexImage.cluster(ee.Clusterer.wekaKMeans(zoneCount).train(training, [bandName]));
+  }
+
+  // The first band labels the segments, the reducer runs on the index band
+  const vectors = classified
+    .toInt()
+    .rename(ZONE_SEGMENT_LABEL)
+    .addBands(indexImage)
+    .reduceToVectors({
+      reducer: ee.Reducer.mean(),
+      geometry: polygon,
+      scale,
+      geometryType: "polygon",
+      eightConnected: false,
+      labelProperty: ZONE_SEGMENT_LABEL,
+      maxPixels: 1e9,
+      bestEffort: true,
+      tileScale: 4,
+    })
+    .map((feature: ee.Feature) => feature.set("area", feature.geometry().area(1)));
+
+  const collection = await new Promise<any>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error("Zone delineation timed out. Try reducing the area size or the number of zones."));
+    }, 90000); // 90 second timeout
+
+    vectors.getInfo((value: any, error?: Error) => {
+      clearTimeout(timeout);
+      if (error) reject(error);
+      else resolve(value);
+    });
+  });
+
+  // Dissolve the segments of each class into one multipolygon with an area-weighted mean
+  const classes = new Map<number, { area: number; weightedSum: number; polygons: number[][][][] }>();
+  for (const feature of collection?.features || []) {
+    const { segment, area, mean } = feature.properties || {};
+    if (typeof mean !== "number" || !area) continue;
+
+    const zoneClass = classes.get(segment) || { area: 0, weightedSum: 0, polygons: [] };
+    zoneClass.area += area;
+    zoneClass.weightedSum += mean * area;
+    if (feature.geometry?.type === "MultiPolygon") {
+      zoneClass.polygons.push(...feature.geometry.coordinates);
+    } else if (feature.geometry?.type === "Polygon") {
+      zoneClass.polygons.push(feature.geometry.coordinates);
+    }
+    classes.set(segment, zoneClass);
+  }
+
+  // k-means labels are arbitrary, so number zones by their mean value
+  return Array.from(classes.values())
+    .map((zoneClass) => ({
+      meanValue: zoneClass.weightedSum / zoneClass.area,
+      areaHectares: zoneClass.area / 10_000,
+      geometry: { type: "MultiPolygon" as const, coordinates: zoneClass.polygons },
+    }))
+    .sort((a, b) => a.meanValue - b.meanValue)
+    .map((zone, index) => ({ zone: index + 1, ...zone }));
+}
@@ -1,19 +1,19 @@
 import React from "react";
 import { renderToBuffer } from "@react-pdf/renderer";
-import { ReportPDF } from "./reportTemplate";
-import { IndexType } from "@/types/report";
+import { ReportPDF, ReportChangeData } from "./reportTemplate";
+import { IndexType, OpticalSource, RadarIndexType, ThermalLayerType } from "@/types/report";
 import { Report } from "@/types/report";
+import { IndexStatistics } from "@/types/satellite";
+import { WeatherSummary } from "@/types/weather";
+import { AreaPhenology } from "@/types/phenology";
+import { AreaYieldPotential } from "@/types/yield";
 
 interface ImageData {
   areaName: string;
-  indexType: IndexType;
+  indexType: IndexType | RadarIndexType | ThermalLayerType;
   imageUrl?: string; // Earth Engine tile URL
   imageBase64?: string; // Base64 encoded image for PDF
-  stats: {
-    min: number;
-    max: number;
-    mean: number;
-  };
+  stats: IndexStatistics;
 }
 
 /**
@@ -50,14 +50,16 @@ export async function generateReportPDF(
   report: Report,
   imageData: Array<{
     areaName: string;
-    indexType: IndexType;
+    indexType: IndexType | RadarIndexType | ThermalLayerType;
     imageUrl?: string; // Base64 data URI: "data:image/png;base64,..."
-    stats: {
-      min: number;
-      max: number;
-      mean: number;
-    };
-  }>
+    stats: IndexStatistics;
+    imageDates?: string[]; // Scenes behind a composite image
+    source?: OpticalSource; // Imagery of optical indices
+    weather?: WeatherSummary | null; // Weather of the area over the report period
+    phenology?: AreaPhenology | null; // Crop calendar and season of the area
+    change?: ReportChangeData; // Change since the last report
+  }>,
+  yieldPotential?: AreaYieldPotential[] | null // Monthly ranking of the report's areas
 ): Promise<Buffer> {
   // Format report date
   const reportDate = new Date().toLocaleDateString("es-MX", {
@@ -73,6 +75,11 @@ export async function generateReportPDF(
     indexType: data.indexType,
     imageUrl: data.imageUrl, // Should be base64 data URI: "data:image/png;base64,..."
     stats: data.stats,
+    imageDates: data.imageDates,
+    source: data.source,
+    weather: data.weather,
+    phenology: data.phenology,
+    change: data.change,
   }));
   
   console.log(`[PDF] Preparing ${pdfImageData.length} images for PDF. Images with data: ${pdfImageData.filter(d => d.imageUrl).length}`);
@@ -84,10 +91,12 @@ export async function generateReportPDF(
         frequency: report.frequency,
         indices: report.indices,
         cloudCoverage: report.cloudCoverage,
+        compositeMode: report.compositeMode,
         email: report.email,
       }}
       imageData={pdfImageData}
       reportDate={reportDate}
+      yieldPotential={yieldPotential}
     />
   );
   
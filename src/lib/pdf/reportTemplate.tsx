@@ -1,17 +1,36 @@
 import React from "react";
 import { Document, Page, Text, View, StyleSheet, Image, Font } from "@react-pdf/renderer";
-import { IndexType } from "@/types/report";
-import { getFrequencyLabel } from "@/lib/utils/reports";
+import { IndexType, CompositeMode, OpticalSource, RadarIndexType, ThermalLayerType } from "@/types/report";
+import { IndexStatistics } from "@/types/satellite";
+import { WeatherSummary } from "@/types/weather";
+import { AreaPhenology } from "@/types/phenology";
+import { AreaYieldPotential } from "@/types/yield";
+import { getFrequencyLabel, formatCompositeDates, formatWeatherPeriod, formatWeatherSummary, formatPhenologySummary, formatYieldPotentialRow } from "@/lib/utils/reports";
+import { formatIndexValue, getIndexPalette, isRadarIndexType, isThermalLayerType, THERMAL_LAYER_REGISTRY } from "@/lib/indices/registry";
+import { getStretch } from "@/lib/indices/statistics";
+import { CHANGE_PALETTE } from "@/lib/indices/change";
+import { interpretPSRI } from "@/lib/indices/phenology";
+
+export interface ReportChangeData {
+  sinceDate: string; // YYYY-MM-DD of the previous report
+  meanChange: number;
+  declineThreshold: number;
+  declinedHectares: number;
+  declinedPercentage: number;
+  stretch: { min: number; max: number };
+  imageUrl?: string; // Base64 encoded difference map
+}
 
 interface ReportData {
   areaName: string;
-  indexType: IndexType;
+  indexType: IndexType | RadarIndexType | ThermalLayerType;
   imageUrl?: string; // Base64 encoded image or URL
-  stats: {
-    min: number;
-    max: number;
-    mean: number;
-  };
+  stats: IndexStatistics;
+  imageDates?: string[]; // Scenes behind a composite image
+  source?: OpticalSource; // Imagery of optical indices
+  weather?: WeatherSummary | null; // Weather of the area over the report period
+  phenology?: AreaPhenology | null; // Crop calendar and season of the area
+  change?: ReportChangeData; // Change since the last report, rendered on its own page
 }
 
 interface ReportPDFProps {
@@ -19,10 +38,12 @@ interface ReportPDFProps {
     frequency: string;
     indices: IndexType[];
     cloudCoverage: number;
+    compositeMode?: CompositeMode;
     email?: string; // Optional - only used for email reports
   };
   imageData: ReportData[];
   reportDate: string;
+  yieldPotential?: AreaYieldPotential[] | null; // Monthly ranking of the report's areas, on the cover
 }
 
 // Define styles
@@ -99,6 +120,42 @@ const styles = StyleSheet.create({
   statsContainer: {
     marginBottom: 20,
   },
+  legend: {
+    marginTop: 10,
+  },
+  legendBar: {
+    flexDirection: "row",
+    height: 10,
+  },
+  legendSwatch: {
+    flex: 1,
+  },
+  histogram: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    height: 60,
+    marginTop: 8,
+    borderBottom: "1px solid #999999",
+  },
+  histogramBar: {
+    flex: 1,
+    marginHorizontal: 1,
+    backgroundColor: "#16a34a",
+  },
+  histogramLabels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    fontSize: 9,
+    color: "#666666",
+    marginTop: 3,
+  },
+  legendLabels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    fontSize: 9,
+    color: "#666666",
+    marginTop: 3,
+  },
   footer: {
     marginTop: 30,
     fontSize: 10,
@@ -107,7 +164,14 @@ const styles = StyleSheet.create({
   },
 });
 
-export const ReportPDF: React.FC<ReportPDFProps> = ({ report, imageData, reportDate }) => (
+export const ReportPDF: React.FC<ReportPDFProps> = ({ report, imageData, reportDate, yieldPotential }) => {
+  // Change sections add a page after their index page
+  const totalPages = 1 + imageData.length + imageData.filter((data) => data.change).length;
+  const pageNumbers = imageData.map((_, index) =>
+    2 + index + imageData.slice(0, index).filter((data) => data.change).length
+  );
+
+  return (
   <Document>
     {/* First page: Cover/Summary */}
     <Page size="A4" style={styles.page}>
@@ -129,31 +193,106 @@ export const ReportPDF: React.FC<ReportPDFProps> = ({ report, imageData, reportD
         </Text>
       </View>
 
+      {yieldPotential && yieldPotential.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Potencial de rendimiento</Text>
+          {yieldPotential.map((result) => (
+            <Text key={result.areaId} style={styles.configItem}>
+              {formatYieldPotentialRow(result)}
+            </Text>
+          ))}
+          <Text style={styles.configItem}>
+            NDVI acumulado en la temporada; 100 = la mejor parcela de su cultivo. Estimación relativa, no un rendimiento en t/ha.
+          </Text>
+        </View>
+      )}
+
       <View style={styles.footer}>
         <Text>Este es un reporte automático de CoperniGeo.</Text>
         <Text>Para modificar la configuración, visita tu dashboard.</Text>
       </View>
     </Page>
 
-    {/* One page per index with image */}
+    {/* One page per index with image, followed by its change page */}
         {imageData.map((data, index) => (
-      <Page key={index} size="A4" style={styles.page} wrap={false}>
+      <React.Fragment key={index}>
+      <Page size="A4" style={styles.page} wrap={false}>
         <View style={styles.header}>
           <Text style={styles.title}>{data.areaName}</Text>
-          <Text style={styles.subtitle}>{data.indexType}</Text>
+          <Text style={styles.subtitle}>
+            {data.indexType}
+            {isRadarIndexType(data.indexType) ? " (radar Sentinel-1, sin imágenes ópticas despejadas)" : ""}
+            {isThermalLayerType(data.indexType)
+              ? ` (${THERMAL_LAYER_REGISTRY[data.indexType].unit}, banda térmica de Landsat 8/9)`
+              : data.source === "landsat"
+                ? " (Landsat 8/9, sin imágenes despejadas de Sentinel-2)"
+                : ""}
+          </Text>
         </View>
 
         <View style={styles.statsContainer}>
           <Text style={styles.sectionTitle}>Estadísticas</Text>
             <Text style={styles.statsText}>
-              <Text style={styles.statsLabel}>Mínimo:</Text> {data.stats.min.toFixed(3)}
+              <Text style={styles.statsLabel}>Mínimo:</Text> {formatIndexValue(data.indexType, data.stats.min)}
             </Text>
             <Text style={styles.statsText}>
-              <Text style={styles.statsLabel}>Máximo:</Text> {data.stats.max.toFixed(3)}
+              <Text style={styles.statsLabel}>Máximo:</Text> {formatIndexValue(data.indexType, data.stats.max)}
             </Text>
             <Text style={styles.statsText}>
-              <Text style={styles.statsLabel}>Promedio:</Text> {data.stats.mean.toFixed(3)}
+              <Text style={styles.statsLabel}>Promedio:</Text> {formatIndexValue(data.indexType, data.stats.mean)}
             </Text>
+            {data.stats.stdDev !== undefined && (
+              <Text style={styles.statsText}>
+                <Text style={styles.statsLabel}>Desviación estándar:</Text> {formatIndexValue(data.indexType, data.stats.stdDev)}
+              </Text>
+            )}
+            {data.stats.percentiles && (
+              <Text style={styles.statsText}>
+                <Text style={styles.statsLabel}>Percentiles:</Text> P5 {formatIndexValue(data.indexType, data.stats.percentiles.p5)} · P25{" "}
+                {formatIndexValue(data.indexType, data.stats.percentiles.p25)} · Mediana{" "}
+                {formatIndexValue(data.indexType, data.stats.percentiles.p50)} · P75{" "}
+                {formatIndexValue(data.indexType, data.stats.percentiles.p75)} · P95{" "}
+                {formatIndexValue(data.indexType, data.stats.percentiles.p95)}
+              </Text>
+            )}
+            {data.stats.histogram && data.stats.histogram.length > 0 && (
+              <View>
+                <View style={styles.histogram}>
+                  {data.stats.histogram.map((bin, binIndex) => (
+                    <View
+                      key={binIndex}
+                      style={{
+                        ...styles.histogramBar,
+                        height: `${(bin.count / Math.max(...data.stats.histogram!.map((b) => b.count), 1)) * 100}%`,
+                      }}
+                    />
+                  ))}
+                </View>
+                <View style={styles.histogramLabels}>
+                  <Text>{data.stats.histogram[0].min.toFixed(2)}</Text>
+                  <Text>Distribución de píxeles</Text>
+                  <Text>{data.stats.histogram[data.stats.histogram.length - 1].max.toFixed(2)}</Text>
+                </View>
+              </View>
+            )}
+            {report.compositeMode && data.imageDates && data.imageDates.length > 0 && (
+              <Text style={styles.statsText}>
+                <Text style={styles.statsLabel}>Imagen:</Text> {formatCompositeDates(report.compositeMode, data.imageDates)}
+              </Text>
+            )}
+            {data.weather && (index === 0 || imageData[index - 1].areaName !== data.areaName) && (
+              <Text style={styles.statsText}>
+                <Text style={styles.statsLabel}>Clima {formatWeatherPeriod(data.weather)}:</Text> {formatWeatherSummary(data.weather)}
+              </Text>
+            )}
+            {data.phenology && (index === 0 || imageData[index - 1].areaName !== data.areaName) && (
+              <Text style={styles.statsText}>
+                <Text style={styles.statsLabel}>Cultivo:</Text> {formatPhenologySummary(data.phenology)}
+              </Text>
+            )}
+            {data.indexType === "PSRI" && data.phenology && interpretPSRI(data.stats.mean, data.phenology.expectedStage) && (
+              <Text style={styles.statsText}>{interpretPSRI(data.stats.mean, data.phenology.expectedStage)}</Text>
+            )}
         </View>
 
             {data.imageUrl && (
@@ -170,14 +309,71 @@ export const ReportPDF: React.FC<ReportPDFProps> = ({ report, imageData, reportD
                 objectFit: 'contain',
               }}
             />
+            <View style={{ ...styles.legend, width: "100%" }}>
+              <View style={styles.legendBar}>
+                {getIndexPalette(data.indexType).map((color) => (
+                  <View key={color} style={{ ...styles.legendSwatch, backgroundColor: color }} />
+                ))}
+              </View>
+              <View style={styles.legendLabels}>
+                <Text>Bajo ({getStretch(data.stats).min.toFixed(2)})</Text>
+                <Text>Alto ({getStretch(data.stats).max.toFixed(2)})</Text>
+              </View>
+            </View>
           </View>
         )}
 
       <View style={styles.footer}>
-          <Text>Página {index + 2} de {imageData.length + 1}</Text>
+          <Text>Página {pageNumbers[index]} de {totalPages}</Text>
       </View>
     </Page>
+      {data.change && (
+        <Page size="A4" style={styles.page} wrap={false}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{data.areaName}</Text>
+            <Text style={styles.subtitle}>
+              Cambios en {data.indexType} desde el último reporte ({new Date(`${data.change.sinceDate}T00:00:00`).toLocaleDateString("es-MX")})
+            </Text>
+          </View>
+
+          <View style={styles.statsContainer}>
+            <Text style={styles.statsText}>
+              <Text style={styles.statsLabel}>Cambio promedio:</Text> {data.change.meanChange > 0 ? "+" : ""}
+              {data.change.meanChange.toFixed(3)}
+            </Text>
+            <Text style={styles.statsText}>
+              <Text style={styles.statsLabel}>Superficie con caída mayor a {data.change.declineThreshold}:</Text>{" "}
+              {data.change.declinedHectares.toFixed(2)} ha ({data.change.declinedPercentage.toFixed(1)}% de la parcela)
+            </Text>
+          </View>
+
+          {data.change.imageUrl && (
+            <View style={styles.imageContainer}>
+              {/* eslint-disable-next-line jsx-a11y/alt-text */}
+              <Image src={data.change.imageUrl} style={styles.image} />
+              <View style={{ ...styles.legend, width: "100%" }}>
+                <View style={styles.legendBar}>
+                  {CHANGE_PALETTE.map((color) => (
+                    <View key={color} style={{ ...styles.legendSwatch, backgroundColor: color }} />
+                  ))}
+                </View>
+                <View style={styles.legendLabels}>
+                  <Text>Caída ({data.change.stretch.min.toFixed(2)})</Text>
+                  <Text>Sin cambio</Text>
+                  <Text>Mejora (+{data.change.stretch.max.toFixed(2)})</Text>
+                </View>
+              </View>
+            </View>
+          )}
+
+          <View style={styles.footer}>
+            <Text>Página {pageNumbers[index] + 1} de {totalPages}</Text>
+          </View>
+        </Page>
+      )}
+      </React.Fragment>
     ))}
   </Document>
-);
+  );
+};
 
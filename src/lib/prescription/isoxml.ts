@@ -0,0 +1,88 @@
+import { PrescriptionZone, RateUnit } from "@/types/prescription";
+import { calculatePolygonArea } from "@/lib/utils/geometry";
+import { ZipEntry } from "./zip";
+
+// ISO 11783-11 data dictionary identifiers of the rate setpoints
+// Both are stored in integer units of 1/100 of the agronomic unit (mg/m² and mm³/m²)
+const RATE_DDI: Record<RateUnit, string> = {
+  "kg/ha": "0006", // Setpoint Mass Per Area Application Rate (mg/m²)
+  "L/ha": "0001", // Setpoint Volume Per Area Application Rate (mm³/m²)
+};
+const RATE_FACTOR = 100; // 1 kg/ha = 100 mg/m², 1 L/ha = 100 mm³/m²
+
+const PLN_BOUNDARY = "1";
+const PLN_TREATMENT_ZONE = "2";
+const LSG_EXTERIOR = "1";
+const LSG_INTERIOR = "2";
+const PNT_OTHER = "2";
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function buildLineString(ring: number[][], type: string, indent: string): string {
+  const points = ring
+    .map(([lng, lat]) => `${indent}  <PNT A="${PNT_OTHER}" C="${lat.toFixed(9)}" D="${lng.toFixed(9)}"/>`)
+    .join("\n");
+  return `${indent}<LSG A="${type}">\n${points}\n${indent}</LSG>`;
+}
+
+/**
+ * Build an ISOXML (ISO 11783-10) TaskData package with one treatment zone per management zone
+ * The field boundary comes from the Area and each zone carries its rate setpoint
+ */
+export function buildIsoxmlEntries(options: {
+  areaName: string;
+  boundary: { lat: number; lng: number }[];
+  zones: PrescriptionZone[];
+  unit: RateUnit;
+  productName: string;
+}): ZipEntry[] {
+  const { areaName, boundary, zones, unit, productName } = options;
+  const ddi = RATE_DDI[unit];
+  const fieldArea = Math.round(calculatePolygonArea(boundary));
+  const boundaryRing = boundary.map((coord) => [coord.lng, coord.lat]);
+  boundaryRing.push(boundaryRing[0]); // ISOXML polygons are closed
+
+  const treatmentZones = zones
+    .map((zone) => {
+      const polygons = zone.geometry.coordinates
+        .map((polygon) => {
+          const rings = polygon
+            .map((ring, index) => buildLineString(ring, index === 0 ? LSG_EXTERIOR : LSG_INTERIOR, "      "))
+            .join("\n");
+          return `    <PLN A="${PLN_TREATMENT_ZONE}">\n${rings}\n    </PLN>`;
+        })
+        .join("\n");
+      const rate = Math.round(zone.rate * RATE_FACTOR);
+      return [
+        `  <TZN A="${zone.zone}" B="Zona ${zone.zone}">`,
+        polygons,
+        `    <PDV A="${ddi}" B="${rate}" C="PDT1"/>`,
+        `  </TZN>`,
+      ].join("\n");
+    })
+    .join("\n");
+
+  const xml = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<ISO11783_TaskData VersionMajor="4" VersionMinor="3" ManagementSoftwareManufacturer="CoperniGeo" ManagementSoftwareVersion="1.0" DataTransferOrigin="1">`,
+    `<PDT A="PDT1" B="${escapeXml(productName)}"/>`,
+    `<PFD A="PFD1" C="${escapeXml(areaName)}" D="${fieldArea}">`,
+    `  <PLN A="${PLN_BOUNDARY}" C="${fieldArea}">`,
+    buildLineString(boundaryRing, LSG_EXTERIOR, "    "),
+    `  </PLN>`,
+    `</PFD>`,
+    `<TSK A="TSK1" B="${escapeXml(`Prescripción ${areaName}`)}" E="PFD1" G="1">`,
+    treatmentZones,
+    `</TSK>`,
+    `</ISO11783_TaskData>`,
+    ``,
+  ].join("\n");
+
+  return [{ name: "TASKDATA/TASKDATA.XML", data: Buffer.from(xml, "utf8") }];
+}
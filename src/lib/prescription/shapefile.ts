@@ -0,0 +1,189 @@
+import { PrescriptionZone, RateUnit } from "@/types/prescription";
+import { ZipEntry } from "./zip";
+
+const SHAPE_TYPE_POLYGON = 5;
+const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+interface DbfField {
+  name: string; // Up to 10 characters
+  type: "N" | "C";
+  length: number;
+  decimals: number;
+  value: (zone: PrescriptionZone, unit: RateUnit) => string | number;
+}
+
+// Terminal software matches columns by name, so keep them short and upper case
+const DBF_FIELDS: DbfField[] = [
+  { name: "ZONE", type: "N", length: 4, decimals: 0, value: (zone) => zone.zone },
+  { name: "RATE", type: "N", length: 12, decimals: 2, value: (zone) => zone.rate },
+  { name: "UNIT", type: "C", length: 8, decimals: 0, value: (_, unit) => unit },
+  { name: "AREA_HA", type: "N", length: 12, decimals: 2, value: (zone) => zone.areaHectares },
+  { name: "MEAN", type: "N", length: 10, decimals: 4, value: (zone) => zone.meanValue },
+];
+
+/**
+ * Signed ring area (shoelace); positive for counter-clockwise rings
+ */
+function signedArea(ring: number[][]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+}
+
+/**
+ * Shapefiles require clockwise outer rings and counter-clockwise holes
+ */
+function getShapefileRings(zone: PrescriptionZone): number[][][] {
+  return zone.geometry.coordinates.flatMap((polygon) =>
+    polygon.map((ring, index) => {
+      const isHole = index > 0;
+      const isClockwise = signedArea(ring) < 0;
+      return isHole === isClockwise ? [...ring].reverse() : ring;
+    })
+  );
+}
+
+function getBoundingBox(rings: number[][][]): [number, number, number, number] {
+  // A loop rather than Math.min(...points): large zones overflow the argument limit
+  const box: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const ring of rings) {
+    for (const [x, y] of ring) {
+      box[0] = Math.min(box[0], x);
+      box[1] = Math.min(box[1], y);
+      box[2] = Math.max(box[2], x);
+      box[3] = Math.max(box[3], y);
+    }
+  }
+  return box;
+}
+
+function writeFileHeader(buffer: Buffer, fileLengthBytes: number, bbox: number[]): void {
+  buffer.writeInt32BE(9994, 0); // File code
+  buffer.writeInt32BE(fileLengthBytes / 2, 24); // Length in 16-bit words
+  buffer.writeInt32LE(1000, 28); // Version
+  buffer.writeInt32LE(SHAPE_TYPE_POLYGON, 32);
+  bbox.forEach((value, index) => buffer.writeDoubleLE(value, 36 + index * 8));
+}
+
+/**
+ * Build the polygon geometry files (.shp and .shx)
+ */
+function buildGeometry(zones: PrescriptionZone[]): { shp: Buffer; shx: Buffer } {
+  const records: Buffer[] = [];
+  const index = Buffer.alloc(8 * zones.length);
+  const allRings: number[][][] = [];
+  let offset = 100; // Records start after the 100-byte header
+
+  zones.forEach((zone, recordIndex) => {
+    const rings = getShapefileRings(zone);
+    const points = rings.flat();
+    const contentLength = 44 + 4 * rings.length + 16 * points.length;
+    const record = Buffer.alloc(8 + contentLength);
+
+    record.writeInt32BE(recordIndex + 1, 0); // Record numbers are 1-based
+    record.writeInt32BE(contentLength / 2, 4);
+    record.writeInt32LE(SHAPE_TYPE_POLYGON, 8);
+    getBoundingBox(rings).forEach((value, i) => record.writeDoubleLE(value, 12 + i * 8));
+    record.writeInt32LE(rings.length, 44);
+    record.writeInt32LE(points.length, 48);
+
+    let position = 52;
+    let partStart = 0;
+    for (const ring of rings) {
+      record.writeInt32LE(partStart, position);
+      position += 4;
+      partStart += ring.length;
+    }
+    for (const [x, y] of points) {
+      record.writeDoubleLE(x, position);
+      record.writeDoubleLE(y, position + 8);
+      position += 16;
+    }
+
+    index.writeInt32BE(offset / 2, recordIndex * 8);
+    index.writeInt32BE(contentLength / 2, recordIndex * 8 + 4);
+    offset += record.length;
+    records.push(record);
+    allRings.push(...rings);
+  });
+
+  const bbox = allRings.length > 0 ? getBoundingBox(allRings) : [0, 0, 0, 0];
+  const shpHeader = Buffer.alloc(100);
+  const shxHeader = Buffer.alloc(100);
+  writeFileHeader(shpHeader, offset, bbox);
+  writeFileHeader(shxHeader, 100 + index.length, bbox);
+
+  return {
+    shp: Buffer.concat([shpHeader, ...records]),
+    shx: Buffer.concat([shxHeader, index]),
+  };
+}
+
+/**
+ * Build the attribute table (.dbf, dBase III)
+ */
+function buildAttributes(zones: PrescriptionZone[], unit: RateUnit): Buffer {
+  const headerLength = 32 + 32 * DBF_FIELDS.length + 1;
+  const recordLength = 1 + DBF_FIELDS.reduce((sum, field) => sum + field.length, 0);
+  const buffer = Buffer.alloc(headerLength + recordLength * zones.length + 1, 0x20);
+
+  const today = new Date();
+  buffer.fill(0, 0, headerLength);
+  buffer.writeUInt8(0x03, 0); // dBase III without memo
+  buffer.writeUInt8(today.getFullYear() - 1900, 1);
+  buffer.writeUInt8(today.getMonth() + 1, 2);
+  buffer.writeUInt8(today.getDate(), 3);
+  buffer.writeUInt32LE(zones.length, 4);
+  buffer.writeUInt16LE(headerLength, 8);
+  buffer.writeUInt16LE(recordLength, 10);
+
+  DBF_FIELDS.forEach((field, i) => {
+    const position = 32 + i * 32;
+    buffer.write(field.name, position, 10, "ascii");
+    buffer.write(field.type, position + 11, 1, "ascii");
+    buffer.writeUInt8(field.length, position + 16);
+    buffer.writeUInt8(field.decimals, position + 17);
+  });
+  buffer.writeUInt8(0x0d, headerLength - 1); // Field descriptor terminator
+
+  zones.forEach((zone, recordIndex) => {
+    let position = headerLength + recordIndex * recordLength + 1; // Skip the deletion flag (space)
+    for (const field of DBF_FIELDS) {
+      const value = field.value(zone, unit);
+      let text: string;
+      if (field.type === "N") {
+        text = Number(value).toFixed(field.decimals);
+        // Cutting digits would write a different number, so an oversized value is an error
+        if (text.length > field.length) {
+          throw new Error(`Value ${value} of zone ${zone.zone} does not fit the ${field.name} column`);
+        }
+        text = text.padStart(field.length);
+      } else {
+        text = String(value).padEnd(field.length).slice(0, field.length);
+      }
+      buffer.write(text, position, field.length, "ascii");
+      position += field.length;
+    }
+  });
+  buffer.writeUInt8(0x1a, buffer.length - 1); // End of file
+
+  return buffer;
+}
+
+/**
+ * Build the files of a polygon Shapefile with one feature per zone (WGS84)
+ */
+export function buildShapefileEntries(baseName: string, zones: PrescriptionZone[], unit: RateUnit): ZipEntry[] {
+  const { shp, shx } = buildGeometry(zones);
+
+  return [
+    { name: `${baseName}.shp`, data: shp },
+    { name: `${baseName}.shx`, data: shx },
+    { name: `${baseName}.dbf`, data: buildAttributes(zones, unit) },
+    { name: `${baseName}.prj`, data: Buffer.from(WGS84_PRJ, "ascii") },
+  ];
+}
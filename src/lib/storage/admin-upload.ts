@@ -138,14 +138,16 @@ export async function uploadImageWithDedup(
 
 /**
  * Upload PDF to Firebase Storage for reports
- * Uploads to reports/{reportId}/latest.pdf (overwrites on each generation)
+ * Uploads to reports/{reportId}/latest.pdf (overwrites on each generation), or to
+ * reports/{reportId}/runs/{runId}.pdf to keep the PDF of one run in the report history
  * Returns permanent public URL
  */
 export async function uploadPDFAdmin(
   reportId: string,
-  pdfBuffer: Buffer
+  pdfBuffer: Buffer,
+  runId?: string
 ): Promise<string> {
-  const path = `reports/${reportId}/latest.pdf`;
+  const path = runId ? `reports/${reportId}/runs/${runId}.pdf` : `reports/${reportId}/latest.pdf`;
   
   try {
     const storage = getAdminStorage();
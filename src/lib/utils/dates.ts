@@ -0,0 +1,38 @@
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate a user-supplied date range (YYYY-MM-DD, both inclusive)
+ * @returns An error message, or null if the range is valid
+ */
+export function validateDateRange(
+  startDate: string | undefined,
+  endDate: string | undefined,
+  maxDays: number
+): string | null {
+  if (!startDate || !endDate || !DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+    return "startDate and endDate are required in YYYY-MM-DD format.";
+  }
+
+  const start = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+  const rangeDays = (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24);
+
+  if (isNaN(rangeDays) || rangeDays < 0) {
+    return "endDate must be on or after startDate.";
+  }
+
+  if (rangeDays > maxDays) {
+    return `Date range too long. Maximum is ${maxDays} days.`;
+  }
+
+  return null;
+}
+
+/**
+ * Convert an inclusive end date into the exclusive end date Earth Engine's filterDate expects
+ */
+export function toExclusiveEndDate(endDate: string): string {
+  const end = new Date(`${endDate}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+  return end.toISOString().split("T")[0];
+}
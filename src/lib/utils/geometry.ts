@@ -44,6 +44,21 @@ export function squareMetersToKm(sqMeters: number): number {
   return sqMeters / 1_000_000;
 }
 
+/**
+ * Get the Earth Engine analysis scale (meters per pixel) for an area
+ * Larger areas use a lower resolution to keep GEE processing costs down
+ */
+export function getAdaptiveScale(areaKm2: number): number {
+  if (areaKm2 > 100) {
+    return 250; // 250m for areas > 100 km²
+  } else if (areaKm2 > 50) {
+    return 200; // 200m for areas > 50 km²
+  } else if (areaKm2 > 10) {
+    return 150; // 150m for areas > 10 km²
+  }
+  return 100; // Default 100m resolution
+}
+
 /**
  * Convert square meters to hectares
  */
@@ -1,4 +1,9 @@
-import { ReportFrequency } from "@/types/report";
+import { ReportFrequency, CloudMaskMode, CompositeMode } from "@/types/report";
+import { WeatherSummary } from "@/types/weather";
+import { AreaPhenology, CropStage } from "@/types/phenology";
+import { AreaYieldPotential } from "@/types/yield";
+import { ReportDeliveryStatus, ReportRun, ReportRunResult, ReportRunStatus } from "@/types/reportRun";
+import { IndexStatistics } from "@/types/satellite";
 
 /**
  * Get display label for report frequency
@@ -18,3 +23,208 @@ export function getFrequencyLabel(frequency: ReportFrequency): string {
   }
 }
 
+/**
+ * Get display label for cloud mask mode
+ */
+export function getCloudMaskLabel(cloudMask: CloudMaskMode): string {
+  switch (cloudMask) {
+    case "qa60":
+      return "Básica (QA60)";
+    case "scl":
+      return "Clasificación de escena (SCL)";
+    case "s2cloudless":
+      return "Probabilidad de nubes (s2cloudless)";
+    default:
+      return cloudMask;
+  }
+}
+
+/**
+ * Get display label for composite mode
+ */
+export function getCompositeModeLabel(compositeMode: CompositeMode): string {
+  switch (compositeMode) {
+    case "median":
+      return "Mosaico mediana";
+    case "greenest":
+      return "Mosaico de máximo verdor";
+    default:
+      return compositeMode;
+  }
+}
+
+/**
+ * Describe the scenes behind a composite, e.g. "Mosaico mediana de 3 fechas (02/06/2025, ...)"
+ */
+export function formatCompositeDates(compositeMode: CompositeMode, dates: string[]): string {
+  const formatted = dates.map((date) => new Date(`${date}T00:00:00`).toLocaleDateString("es-MX"));
+  return `${getCompositeModeLabel(compositeMode)} de ${dates.length} ${dates.length === 1 ? "fecha" : "fechas"} (${formatted.join(", ")})`;
+}
+
+/**
+ * Days a report covers: since the previous report, or one frequency interval for the first one
+ */
+export function getReportPeriodDays(frequency: ReportFrequency, lastGenerated?: Date): number {
+  if (lastGenerated) {
+    const days = Math.ceil((Date.now() - new Date(lastGenerated).getTime()) / (24 * 60 * 60 * 1000));
+    return Math.min(Math.max(days, 1), 31);
+  }
+
+  switch (frequency) {
+    case "3days":
+      return 3;
+    case "5days":
+      return 5;
+    case "weekly":
+      return 7;
+    case "monthly":
+      return 30;
+    default:
+      return 7;
+  }
+}
+
+/**
+ * Describe the period of a weather summary, e.g. "del 01/06/2025 al 07/06/2025"
+ */
+export function formatWeatherPeriod(weather: WeatherSummary): string {
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString("es-MX");
+  return `del ${format(weather.startDate)} al ${format(weather.endDate)}`;
+}
+
+/**
+ * Describe a weather summary in one line, e.g. "Lluvia: 12.4 mm · Temperatura: 14.2 a 31.0 °C · Grados día: 85 (base 10 °C)"
+ * Values ERA5-Land didn't return are left out
+ */
+export function formatWeatherSummary(weather: WeatherSummary): string {
+  const parts: string[] = [];
+  if (weather.precipitationMm !== null) {
+    parts.push(`Lluvia: ${weather.precipitationMm.toFixed(1)} mm`);
+  }
+  if (weather.minTemperatureC !== null && weather.maxTemperatureC !== null) {
+    parts.push(`Temperatura: ${weather.minTemperatureC.toFixed(1)} a ${weather.maxTemperatureC.toFixed(1)} °C`);
+  }
+  if (weather.growingDegreeDays !== null) {
+    parts.push(`Grados día: ${Math.round(weather.growingDegreeDays)} (base ${weather.baseTemperatureC} °C)`);
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * Get display label for a crop growth stage
+ */
+export function getCropStageLabel(stage: CropStage): string {
+  switch (stage) {
+    case "pre_sowing":
+      return "antes de la siembra";
+    case "emergence":
+      return "emergencia";
+    case "vegetative":
+      return "vegetativa";
+    case "reproductive":
+      return "reproductiva";
+    case "senescence":
+      return "senescencia";
+    case "post_harvest":
+      return "después de la cosecha";
+    default:
+      return stage;
+  }
+}
+
+/**
+ * Describe the crop calendar and season of an area in one line, e.g.
+ * "Maíz sembrado el 01/06/2025 · Etapa esperada: reproductiva · Pico vegetativo alcanzado el 20/08/2025"
+ */
+export function formatPhenologySummary(phenology: AreaPhenology): string {
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString("es-MX");
+  const parts: string[] = [];
+  if (phenology.sowingDate) {
+    parts.push(`${phenology.cropType || "Cultivo"} sembrado el ${format(phenology.sowingDate)}`);
+  } else if (phenology.cropType) {
+    parts.push(phenology.cropType);
+  }
+  if (phenology.expectedHarvestDate) {
+    parts.push(`Cosecha esperada: ${format(phenology.expectedHarvestDate)}`);
+  }
+  if (phenology.expectedStage) {
+    parts.push(`Etapa esperada: ${getCropStageLabel(phenology.expectedStage)}`);
+  }
+  if (phenology.greenUpDate) {
+    parts.push(`Inicio de verdor el ${format(phenology.greenUpDate)}`);
+  }
+  if (phenology.peakDate) {
+    parts.push(`Pico vegetativo alcanzado el ${format(phenology.peakDate)}`);
+  }
+  if (phenology.senescenceDate) {
+    parts.push(`Inicio de senescencia el ${format(phenology.senescenceDate)}`);
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * Describe one row of the yield potential ranking, e.g. "1. Campo Norte (Maíz): 100/100"
+ */
+export function formatYieldPotentialRow(result: AreaYieldPotential): string {
+  return result.score !== null
+    ? `${result.rank}. ${result.areaName} (${result.cropType}): ${result.score}/100`
+    : `${result.areaName} (${result.cropType}): sin imágenes suficientes`;
+}
+
+/**
+ * Per-area/index results of a report run and every scene behind them, for the run history
+ */
+export function getReportRunResults(
+  imageData: Array<Omit<ReportRunResult, "mean" | "imageUrl"> & { stats: IndexStatistics }>,
+  imageUrls: Array<{ areaId?: string; areaName: string; indexType: string; url: string }>
+): Pick<ReportRun, "sceneDates" | "results"> {
+  const sceneDates = new Set<string>();
+  const results = imageData.map((data) => {
+    (data.imageDates || (data.imageDate ? [data.imageDate] : [])).forEach((date) => sceneDates.add(date));
+    return {
+      areaId: data.areaId,
+      areaName: data.areaName,
+      indexType: data.indexType,
+      imageDate: data.imageDate,
+      imageDates: data.imageDates,
+      source: data.source,
+      mean: data.stats.mean,
+      imageUrl: imageUrls.find((image) => image.areaId === data.areaId && image.indexType === data.indexType)?.url,
+    };
+  });
+  return { sceneDates: Array.from(sceneDates).sort(), results };
+}
+
+/**
+ * Label of a report run status for the dashboard
+ */
+export function getReportRunStatusLabel(status: ReportRunStatus): string {
+  switch (status) {
+    case "running":
+      return "En proceso";
+    case "succeeded":
+      return "Completado";
+    case "failed":
+      return "Fallido";
+    default:
+      return status;
+  }
+}
+
+/**
+ * Label of a delivery status (email or WhatsApp) for the dashboard
+ */
+export function getDeliveryStatusLabel(status: ReportDeliveryStatus): string {
+  switch (status) {
+    case "sent":
+      return "Enviado";
+    case "delivered":
+      return "Entregado";
+    case "read":
+      return "Leído";
+    case "failed":
+      return "No entregado";
+    default:
+      return status;
+  }
+}
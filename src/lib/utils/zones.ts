@@ -0,0 +1,36 @@
+import { ManagementZone, ZoneMethod } from "@/types/satellite";
+
+// Low to high productivity, same progression as the vegetation index palettes
+const ZONE_COLORS = ["#dc2626", "#f97316", "#facc15", "#a3e635", "#4ade80", "#16a34a", "#166534"];
+
+/**
+ * Get display label for a zone delineation method
+ */
+export function getZoneMethodLabel(method: ZoneMethod): string {
+  switch (method) {
+    case "kmeans":
+      return "Agrupamiento (k-means)";
+    case "quantile":
+      return "Cuantiles (áreas iguales)";
+    default:
+      return method;
+  }
+}
+
+/**
+ * Get the fill color of a zone (1 = lowest) spread over the full color ramp
+ */
+export function getZoneColor(zone: number, zoneCount: number): string {
+  if (zoneCount <= 1) return ZONE_COLORS[ZONE_COLORS.length - 1];
+  const position = (zone - 1) / (zoneCount - 1);
+  return ZONE_COLORS[Math.round(position * (ZONE_COLORS.length - 1))];
+}
+
+/**
+ * Convert a zone's GeoJSON multipolygon into Google Maps paths (outer rings and holes)
+ */
+export function getZonePaths(zone: ManagementZone): { lat: number; lng: number }[][] {
+  return zone.geometry.coordinates.flatMap((polygon) =>
+    polygon.map((ring) => ring.map(([lng, lat]) => ({ lat, lng })))
+  );
+}
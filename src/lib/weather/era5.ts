@@ -0,0 +1,92 @@
+import * as ee from "@google/earthengine";
+import { WeatherSummary } from "@/types/weather";
+
+const ERA5_LAND_DAILY = "ECMWF/ERA5_LAND/DAILY_AGGR";
+
+// ERA5-Land pixels are ~11 km, larger than most fields, so the area is sampled at its centroid
+const ERA5_LAND_SCALE = 11132;
+
+// Base temperature of the growing degree days (standard for maize, sorghum and most warm-season crops)
+export const GDD_BASE_TEMPERATURE_C = 10;
+
+// ERA5-Land daily aggregates are published with a delay of about a week
+const AVAILABILITY_LOOKBACK_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date): string => date.toISOString().split("T")[0];
+
+/**
+ * Accumulated precipitation, min/max temperature and growing degree days over an area
+ * for the last `periodDays` days with ERA5-Land data
+ * The period ends on the latest published day, so recent reports still get a full window
+ * @returns null when ERA5-Land has no recent data
+ */
+export async function getWeatherSummary(polygon: ee.Geometry, periodDays: number): Promise<WeatherSummary | null> {
+  const now = new Date();
+  const latest = ee.ImageCollection(ERA5_LAND_DAILY)
+    .filterDate(toDateString(new Date(now.getTime() - AVAILABILITY_LOOKBACK_DAYS * DAY_MS)), toDateString(now))
+    .aggregate_max("system:time_start");
+
+  const latestTimestamp = await new Promise<number | null>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error("Weather availability check timed out"));
+    }, 30000); // 30 second timeout
+
+    latest.getInfo((result: any, error?: Error) => {
+      clearTimeout(timeout);
+      if (error) reject(error);
+      else resolve(result);
+    });
+  });
+  if (typeof latestTimestamp !== "number") return null;
+
+  const endDate = toDateString(new Date(latestTimestamp));
+  const startDate = toDateString(new Date(latestTimestamp - (periodDays - 1) * DAY_MS));
+  const exclusiveEndDate = toDateString(new Date(latestTimestamp + DAY_MS));
+
+  const daily = ee.ImageCollection(ERA5_LAND_DAILY)
+    .filterDate(startDate, exclusiveEndDate)
+    .map((image: ee.Image) => {
+      const minTemperature = image.select("temperature_2m_min").subtract(273.15);
+      const maxTemperature = image.select("temperature_2m_max").subtract(273.15);
+      const degreeDays = minTemperature.add(maxTemperature).divide(2).subtract(GDD_BASE_TEMPERATURE_C).max(0);
+
+      return image.select("total_precipitation_sum").multiply(1000).rename("precipitation") // m to mm
+        .addBands(minTemperature.rename("minTemperature"))
+        .addBands(maxTemperature.rename("maxTemperature"))
+        .addBands(degreeDays.rename("gdd"));
+    });
+
+  const summary = daily.select(["precipitation", "gdd"]).sum()
+    .addBands(daily.select("minTemperature").min())
+    .addBands(daily.select("maxTemperature").max())
+    .reduceRegion({
+      reducer: ee.Reducer.mean(),
+      geometry: polygon.centroid(1),
+      scale: ERA5_LAND_SCALE,
+    });
+
+  const value = await new Promise<Record<string, number | null>>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error("Weather summary timed out"));
+    }, 30000); // 30 second timeout
+
+    summary.getInfo((result: any, error?: Error) => {
+      clearTimeout(timeout);
+      if (error) reject(error);
+      else resolve(result);
+    });
+  });
+  const read = (band: string): number | null => (typeof value?.[band] === "number" ? value[band] : null);
+
+  return {
+    startDate,
+    endDate,
+    precipitationMm: read("precipitation"),
+    minTemperatureC: read("minTemperature"),
+    maxTemperatureC: read("maxTemperature"),
+    growingDegreeDays: read("gdd"),
+    baseTemperatureC: GDD_BASE_TEMPERATURE_C,
+  };
+}
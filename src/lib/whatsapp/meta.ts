@@ -143,18 +143,38 @@ export async function sendReportWhatsApp(
   await sendWhatsAppMessage(phoneNumber, "reporte_automatico", params);
 }
 
+/**
+ * Send an index anomaly alert via WhatsApp
+ * Uses "alerta_indice" template with area, indice and mensaje parameters
+ */
+export async function sendAlertWhatsApp(
+  phoneNumber: string,
+  areaName: string,
+  indexType: string,
+  message: string
+): Promise<void> {
+  console.log(`[WhatsApp] Sending alert for ${areaName} (${indexType})`);
+
+  await sendWhatsAppMessage(phoneNumber, "alerta_indice", {
+    area: areaName,
+    indice: indexType,
+    mensaje: message,
+  });
+}
+
 /**
  * Send report delivery notification via WhatsApp with PDF URL
  * Uses "enviodereporte" template with header and body parameters
  * Header {{1}}: report name
  * Body {{1}}: PDF URL (shortened via custom short link service)
+ * @returns The WhatsApp message ID, matched by the status webhooks
  */
 export async function sendReportWhatsAppWithPDF(
   phoneNumber: string,
   reportName: string,
   pdfUrl: string,
   reportId?: string
-): Promise<void> {
+): Promise<string | undefined> {
   console.log(`[WhatsApp] Sending report delivery notification:`);
   console.log(`[WhatsApp]   - Report Name: ${reportName}`);
   console.log(`[WhatsApp]   - PDF URL: ${pdfUrl}`);
@@ -248,6 +268,7 @@ export async function sendReportWhatsAppWithPDF(
 
     const result = await response.json();
     console.log(`[WhatsApp] ✅ Message sent successfully:`, JSON.stringify(result, null, 2));
+    return result.messages?.[0]?.id;
   } catch (error: any) {
     console.error(`[WhatsApp] ❌ Failed to send message:`, error);
     throw new Error(`Failed to send WhatsApp message: ${error.message || "Unknown error"}`);
@@ -0,0 +1,62 @@
+import { CloudMaskMode, DeliveryMethod, IndexType } from "@/types/report";
+
+// mean_drop: mean index fell more than dropPercentage vs the previous pass
+// area_below: more than minHectares of the area are below valueThreshold
+export type AlertCondition = "mean_drop" | "area_below";
+
+export interface AlertRule {
+  id?: string;
+  userId: string;
+  areaId: string;
+  indexType: IndexType;
+  condition: AlertCondition;
+  dropPercentage?: number; // mean_drop - e.g. 15 for a 15% drop
+  valueThreshold?: number; // area_below - index value considered critical
+  minHectares?: number; // area_below - hectares below valueThreshold that trigger the alert
+  cloudMask?: CloudMaskMode; // Optional - defaults to "qa60"
+  deliveryMethod: DeliveryMethod;
+  email?: string; // Optional - required for email delivery
+  phoneNumber?: string; // Optional - required for WhatsApp delivery
+  enabled: boolean;
+  lastSceneId?: string; // Last scene evaluated, so each pass only runs on new scenes
+  lastMean?: number; // Mean of the last evaluated pass (baseline for mean_drop)
+  conditionMet?: boolean; // area_below - the last evaluated pass met the condition; alerts fire only when it starts
+  lastCheckedAt?: Date | any;
+  lastTriggeredAt?: Date | any;
+  createdAt: Date | any;
+}
+
+export interface AlertRuleFormData {
+  areaId: string;
+  indexType: IndexType;
+  condition: AlertCondition;
+  dropPercentage?: number;
+  valueThreshold?: number;
+  minHectares?: number;
+  cloudMask?: CloudMaskMode;
+  deliveryMethod: DeliveryMethod;
+  email?: string;
+  phoneNumber?: string;
+}
+
+// Alert history entry, written server-side when a rule triggers
+export interface AlertEvent {
+  id?: string;
+  ruleId: string;
+  userId: string;
+  areaId: string;
+  areaName: string;
+  indexType: IndexType;
+  condition: AlertCondition;
+  sceneId: string;
+  sceneDate: string; // YYYY-MM-DD
+  currentMean: number;
+  previousMean?: number;
+  dropPercentage?: number; // Measured drop vs the previous pass
+  hectaresBelow?: number; // Measured hectares below valueThreshold
+  message: string;
+  deliveryMethod: DeliveryMethod;
+  delivered: boolean;
+  deliveryError?: string;
+  createdAt: Date | any;
+}
@@ -5,6 +5,9 @@ export interface Area {
   userId: string;
   name: string;
   coordinates: GeoPoint[] | { lat: number; lng: number }[]; // Polygon coordinates
+  cropType?: string; // e.g. "Maíz"
+  sowingDate?: string; // YYYY-MM-DD
+  expectedHarvestDate?: string; // YYYY-MM-DD
   createdAt: Date | any;
   updatedAt: Date | any;
 }
@@ -12,5 +15,8 @@ export interface Area {
 export interface AreaFormData {
   name: string;
   coordinates: { lat: number; lng: number }[];
+  cropType?: string;
+  sowingDate?: string;
+  expectedHarvestDate?: string;
 }
 
@@ -0,0 +1,16 @@
+export interface CustomIndex {
+  id?: string;
+  userId: string;
+  name: string;
+  description?: string;
+  expression: string; // Band-math over Sentinel-2 bands, e.g. "(B8 - B11) / (B8 + B11)"
+  palette: string[]; // Low to high values
+  createdAt: Date | any;
+}
+
+export interface CustomIndexFormData {
+  name: string;
+  description?: string;
+  expression: string;
+  palette?: string[];
+}
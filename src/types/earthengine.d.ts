@@ -1,6 +1,6 @@
 declare module "@google/earthengine" {
   export interface Image {
-    select(band: string): Image;
+    select(band: string | string[]): Image;
     subtract(other: Image | number): Image;
     add(other: Image | number): Image;
     divide(other: Image | number): Image;
@@ -10,8 +10,41 @@ declare module "@google/earthengine" {
     rename(name: string): Image;
     bitwiseAnd(value: number): Image;
     or(other: Image): Image;
+    and(other: Image): Image;
     not(): Image;
+    neq(value: number): Image;
+    lt(value: number): Image;
+    gt(value: number): Image;
+    toInt(): Image;
+    mask(): Image;
+    addBands(image: Image): Image;
     sqrt(): Image;
+    clamp(low: number, high: number): Image;
+    max(value: number): Image;
+    focalMedian(radius: number, kernelType?: string, units?: string): Image;
+    expression(expression: string, map?: Record<string, Image | number>): Image;
+    date(): Date;
+    sample(options: {
+      region: Geometry;
+      scale: number;
+      numPixels?: number;
+      seed?: number;
+      geometries?: boolean;
+    }): FeatureCollection;
+    cluster(clusterer: Clusterer): Image;
+    reduceToVectors(options: {
+      reducer?: Reducer;
+      geometry: Geometry;
+      scale: number;
+      geometryType?: "polygon" | "bb" | "centroid";
+      eightConnected?: boolean;
+      labelProperty?: string;
+      maxPixels?: number;
+      bestEffort?: boolean;
+      tileScale?: number;
+    }): FeatureCollection;
+    get(property: string): ComputedObject;
+    set(property: string, value: any): Image;
     reduceRegion(options: {
       reducer: Reducer;
       geometry: Geometry;
@@ -32,20 +65,51 @@ declare module "@google/earthengine" {
   }
 
   export interface ImageCollection {
-    filterDate(start: string, end: string): ImageCollection;
+    filterDate(start: string | Date, end: string | Date): ImageCollection;
     filter(filter: Filter): ImageCollection;
     filterBounds(geometry: Geometry): ImageCollection;
     map(callback: (image: Image) => Image): ImageCollection;
+    map(callback: (image: Image) => Feature): FeatureCollection;
     sort(property: string, ascending?: boolean): ImageCollection;
     first(): Image;
     size(): ComputedObject;
+    median(): Image;
+    sum(): Image;
+    min(): Image;
+    max(): Image;
+    select(bands: string | string[]): ImageCollection;
+    aggregate_max(property: string): ComputedObject;
+    merge(other: ImageCollection): ImageCollection;
+    qualityMosaic(band: string): Image;
   }
 
   export interface Geometry {
     getInfo(callback: (value: any, error?: Error) => void): void;
     bounds(): Geometry;
     buffer(distance: number, projection?: any): Geometry;
-    area(): ComputedObject;
+    area(maxError?: number): ComputedObject;
+    centroid(maxError?: number): Geometry;
+  }
+
+  export interface Date {
+    format(pattern?: string): ComputedObject;
+    millis(): ComputedObject;
+    advance(delta: number, unit: string): Date;
+  }
+
+  export interface Feature {
+    set(property: string, value: any): Feature;
+    geometry(): Geometry;
+    getInfo(callback: (value: any, error?: Error) => void): void;
+  }
+
+  export interface FeatureCollection {
+    map(callback: (feature: Feature) => Feature): FeatureCollection;
+    filter(filter: Filter): FeatureCollection;
+    aggregate_array(property: string): ComputedObject;
+    sort(property: string, ascending?: boolean): FeatureCollection;
+    size(): ComputedObject;
+    getInfo(callback: (value: any, error?: Error) => void): void;
   }
 
   export interface Reducer {
@@ -54,11 +118,21 @@ declare module "@google/earthengine" {
     combine(options: { reducer2: Reducer; sharedInputs: boolean }): Reducer;
   }
 
+  export interface Clusterer {
+    train(features: FeatureCollection, inputProperties?: string[]): Clusterer;
+  }
+
+  export const Clusterer: {
+    wekaKMeans(nClusters: number): Clusterer;
+  };
+
   export interface Filter {
     lt(property: string, value: number): Filter;
+    eq(property: string, value: any): Filter;
   }
 
   export interface ComputedObject {
+    get(key: string): ComputedObject;
     get(callback: (value: any, error?: Error) => void): void;
     getInfo(callback: (value: any, error?: Error) => void): void;
   }
@@ -84,19 +158,53 @@ declare module "@google/earthengine" {
     Polygon(coordinates: number[][][], projection?: string): Geometry;
   };
 
+  export const Image: {
+    (input: any): Image;
+    constant(value: number | ComputedObject): Image;
+    pixelArea(): Image;
+  };
+
+  export const Dictionary: {
+    (input: Record<string, any>): ComputedObject;
+  };
+
   export const ImageCollection: {
-    (id: string): ImageCollection;
+    (id: string | Collection | Image[]): ImageCollection;
+  };
+
+  export interface Collection {}
+
+  export interface Join {
+    apply(options: { primary: ImageCollection; secondary: ImageCollection; condition: Filter }): Collection;
+  }
+
+  export const Join: {
+    saveFirst(matchKey: string): Join;
+  };
+
+  export const Feature: {
+    (geometry: Geometry | null, properties?: Record<string, any>): Feature;
   };
 
 
   export const Filter: {
     lt(property: string, value: number): Filter;
+    gt(property: string, value: number): Filter;
+    eq(property: string, value: any): Filter;
+    listContains(leftField: string, rightValue: any): Filter;
+    equals(options: { leftField: string; rightField: string }): Filter;
     date(start: string, end: string): Filter;
   };
 
   export const Reducer: {
     minMax(): Reducer;
     mean(): Reducer;
+    count(): Reducer;
+    sum(): Reducer;
+    percentile(percentiles: number[]): Reducer;
+    stdDev(): Reducer;
+    fixedHistogram(min: number, max: number, steps: number): Reducer;
+    autoHistogram(maxBuckets?: number): Reducer;
     combine(options: { reducer2: Reducer; sharedInputs: boolean }): Reducer;
   };
 }
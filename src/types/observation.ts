@@ -0,0 +1,18 @@
+import { IndexType, OpticalSource, RadarIndexType, ThermalLayerType } from "@/types/report";
+import { IndexStatistics } from "@/types/satellite";
+
+// One computed index result for an area, kept so history can be read without Earth Engine
+export interface Observation {
+  id?: string;
+  userId: string;
+  areaId: string;
+  areaName: string;
+  indexType: IndexType | RadarIndexType | ThermalLayerType;
+  imageDate: string; // YYYY-MM-DD of the scene (latest contributing scene for composites)
+  imageDates?: string[]; // Scenes behind a composite image
+  source?: OpticalSource; // Imagery of optical indices; missing on older observations means Sentinel-2
+  stats: IndexStatistics;
+  imageUrl?: string; // Rendered map in Firebase Storage
+  reportId: string;
+  createdAt: Date | any;
+}
@@ -0,0 +1,19 @@
+// Growth stage of a crop, expected from its calendar or observed in the NDVI time series
+export type CropStage = "pre_sowing" | "emergence" | "vegetative" | "reproductive" | "senescence" | "post_harvest";
+
+// Key dates of the season estimated from the NDVI time series
+export interface PhenologyEstimate {
+  greenUpDate: string | null; // YYYY-MM-DD, NDVI starts rising after emergence
+  peakDate: string | null; // YYYY-MM-DD, peak vegetative stage (null until NDVI starts declining)
+  peakValue: number | null; // Highest smoothed NDVI of the season
+  senescenceDate: string | null; // YYYY-MM-DD, NDVI starts declining after the peak
+  observedStage: CropStage | null; // Stage the latest NDVI points to
+}
+
+// Crop calendar of an area together with the phenology observed this season
+export interface AreaPhenology extends PhenologyEstimate {
+  cropType?: string;
+  sowingDate?: string; // YYYY-MM-DD
+  expectedHarvestDate?: string; // YYYY-MM-DD
+  expectedStage: CropStage | null; // Stage the crop calendar expects today
+}
@@ -0,0 +1,21 @@
+import { ManagementZone } from "./satellite";
+
+export type PrescriptionFormat = "shapefile" | "isoxml";
+export type RateUnit = "kg/ha" | "L/ha";
+
+export interface ZoneRate {
+  zone: number; // ManagementZone.zone
+  rate: number; // Application rate in the request unit
+}
+
+export interface PrescriptionRequest {
+  format: PrescriptionFormat;
+  zones: ManagementZone[]; // As returned by the satellite process route
+  rates: ZoneRate[]; // One rate per zone
+  unit: RateUnit;
+  productName?: string; // Optional - shown on the terminal, defaults to "Producto"
+}
+
+export interface PrescriptionZone extends ManagementZone {
+  rate: number;
+}
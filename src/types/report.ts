@@ -1,7 +1,24 @@
-export type IndexType = "NDVI" | "NDRE" | "EVI" | "NDWI" | "MSAVI" | "PSRI";
+export type IndexType =
+  | "NDVI" | "NDRE" | "EVI" | "NDWI" | "MSAVI" | "PSRI"
+  | "GNDVI" | "SAVI" | "CIre" | "LAI" | "NBR";
+// Sentinel-1 radar backscatter indices, available through clouds
+export type RadarIndexType = "VV" | "VH" | "RVI";
+// Landsat thermal layers: land surface temperature (°C) and estimated evapotranspiration (mm/day)
+export type ThermalLayerType = "LST" | "ET";
+// User-defined band-math index, referenced as "custom:<custom_indices document id>"
+export type CustomIndexId = `custom:${string}`;
+export type AnalysisIndex = IndexType | CustomIndexId | RadarIndexType | ThermalLayerType;
+// Overrides for tunable index constants, e.g. { SAVI: { L: 0.25 } }
+export type IndexParams = Partial<Record<IndexType, Record<string, number>>>;
 export type ReportFrequency = "3days" | "5days" | "weekly" | "monthly";
 export type ReportStatus = "active" | "paused";
 export type DeliveryMethod = "email" | "whatsapp";
+// Pixel cloud masking: QA60 bitmask, Scene Classification Layer, or SCL + s2cloudless probability
+export type CloudMaskMode = "qa60" | "scl" | "s2cloudless";
+// Optical imagery: Sentinel-2 (10 m, 2017+) or Landsat 8/9 harmonized to Sentinel-2 bands (30 m, 2013+)
+export type OpticalSource = "sentinel2" | "landsat";
+// Multi-scene mosaics for cloudy periods: per-pixel median, or the pixel with the highest NDVI
+export type CompositeMode = "median" | "greenest";
 
 export interface Report {
   id?: string;
@@ -9,14 +26,23 @@ export interface Report {
   areaIds: string[];
   indices: IndexType[];
   cloudCoverage: number; // 0-100
+  cloudMask?: CloudMaskMode; // Optional - defaults to "qa60"
+  compositeMode?: CompositeMode; // Optional - mosaic instead of the most recent scene
+  compositeDays?: number; // Optional - composite window in days, defaults to 30
+  indexParams?: IndexParams; // Optional - defaults from the index registry
+  includeChange?: boolean; // Optional - adds a "changes since the last report" section
+  thermalLayers?: ThermalLayerType[]; // Optional - LST/ET sections from the latest Landsat scene
+  includeYieldPotential?: boolean; // Optional - monthly reports rank the yield potential of their areas
   frequency: ReportFrequency;
   deliveryMethod: DeliveryMethod;
   email?: string; // Optional - required for email delivery
   phoneNumber?: string; // Optional - required for WhatsApp delivery
   name?: string; // Optional - user-defined report name
   pdfUrl?: string; // Optional - URL to PDF in Firebase Storage
-  imageUrls?: Array<{areaName: string; indexType: string; url: string}>; // Optional - URLs to images in Firebase Storage
+  imageUrls?: Array<{areaId?: string; areaName: string; indexType: string; url: string}>; // Optional - URLs to images in Firebase Storage
   status: ReportStatus;
+  pausedReason?: "delivery_failures"; // Optional - set when the server pauses the report itself
+  deliveryFailures?: number; // Optional - consecutive hard delivery failures, reset by a delivered report
   lastGenerated?: Date | any;
   nextRun: Date | any;
   createdAt: Date | any;
@@ -26,6 +52,13 @@ export interface ReportFormData {
   areaIds: string[];
   indices: IndexType[];
   cloudCoverage: number;
+  cloudMask?: CloudMaskMode;
+  compositeMode?: CompositeMode;
+  compositeDays?: number;
+  indexParams?: IndexParams;
+  includeChange?: boolean;
+  thermalLayers?: ThermalLayerType[];
+  includeYieldPotential?: boolean;
   frequency: ReportFrequency;
   deliveryMethod: DeliveryMethod;
   email?: string;
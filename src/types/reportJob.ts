@@ -0,0 +1,21 @@
+// queued: waiting for a worker (new, or retrying after a backoff)
+// running: claimed by a worker until leaseExpiresAt
+// succeeded / failed: final; failed once maxAttempts are used up
+export type ReportJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+// One scheduled run of a report, written only by the server (cron enqueues, workers claim)
+export interface ReportJob {
+  id?: string; // <reportId>_<scheduledFor in ms>, so a due run is enqueued once
+  reportId: string;
+  scheduledFor: Date | any; // nextRun of the report when it was enqueued
+  status: ReportJobStatus;
+  attempts: number; // Claims so far, including the running one
+  maxAttempts: number;
+  availableAt: Date | any; // Earliest time a worker may claim the job (retry backoff)
+  leaseExpiresAt?: Date | any; // Running jobs past their lease are reclaimed (crashed or timed-out worker)
+  leaseToken?: string; // Changes on every claim; only the worker holding it may finish the job
+  lastError?: string;
+  completedAt?: Date | any;
+  createdAt: Date | any;
+  updatedAt: Date | any;
+}
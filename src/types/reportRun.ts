@@ -0,0 +1,66 @@
+import { DeliveryMethod, IndexType, OpticalSource, RadarIndexType, ThermalLayerType } from "@/types/report";
+
+// running: in progress (or its worker died mid-run)
+// succeeded: the report was delivered; failed: nothing was delivered
+export type ReportRunStatus = "running" | "succeeded" | "failed";
+
+// scheduled: claimed from the report_jobs queue; manual: "send now" or a forced test run
+export type ReportRunTrigger = "scheduled" | "manual";
+
+// Result of one index for one area in a run
+export interface ReportRunResult {
+  areaId: string;
+  areaName: string;
+  indexType: IndexType | RadarIndexType | ThermalLayerType;
+  imageDate?: string; // YYYY-MM-DD of the scene (latest contributing scene for composites)
+  imageDates?: string[]; // Scenes behind a composite image
+  source?: OpticalSource; // Imagery of optical indices (radar indices have none)
+  mean: number;
+  imageUrl?: string; // Rendered map in Firebase Storage
+}
+
+export interface ReportRunError {
+  areaName?: string; // Missing for errors of the whole run
+  indexType?: string;
+  message: string;
+}
+
+// sent: accepted by Resend / Meta; delivered, read and failed come from their webhooks
+export type ReportDeliveryStatus = "sent" | "delivered" | "read" | "failed";
+
+export interface ReportRunDelivery {
+  method: DeliveryMethod;
+  recipient: string; // Email address or phone number
+  status: ReportDeliveryStatus;
+  messageId?: string; // Resend email ID or WhatsApp message ID, matched by the webhooks
+  sentAt?: Date | any;
+  updatedAt?: Date | any; // Time of the last status event
+  error?: string; // Bounce or WhatsApp error of a failed delivery
+}
+
+// Status update of a delivered message, normalized from Resend and WhatsApp webhooks
+export interface ReportDeliveryEvent {
+  messageId: string;
+  status: Exclude<ReportDeliveryStatus, "sent">;
+  timestamp: Date;
+  error?: string;
+  hardFailure?: boolean; // Recipient can't receive reports (permanent bounce, invalid number); counts towards auto-pause
+}
+
+// One execution of a report, stored in reports/{reportId}/report_runs by the server
+export interface ReportRun {
+  id?: string;
+  reportId: string;
+  userId: string;
+  trigger: ReportRunTrigger;
+  jobId?: string; // report_jobs entry of scheduled runs
+  status: ReportRunStatus;
+  startedAt: Date | any;
+  finishedAt?: Date | any;
+  sceneDates: string[]; // Every scene behind the results, oldest first
+  results: ReportRunResult[];
+  errors: ReportRunError[];
+  delivery?: ReportRunDelivery;
+  pdfUrl?: string; // This run's PDF (the report's pdfUrl is overwritten by every run)
+  imageUrls?: Array<{ areaId?: string; areaName: string; indexType: string; url: string }>;
+}
@@ -1,10 +1,77 @@
-import { IndexType } from "./report";
+import { IndexType, AnalysisIndex, IndexParams, CloudMaskMode, CompositeMode, OpticalSource } from "./report";
 
 export interface SatelliteImageRequest {
   coordinates: { lat: number; lng: number }[];
-  indexType: IndexType;
+  indexType: AnalysisIndex; // Built-in index or "custom:<id>"
+  indexParams?: IndexParams; // Optional overrides for tunable constants (e.g. SAVI L)
   cloudCoverage: number; // 0-100
-  // Date parameters removed - always fetch most recent data
+  // Optional date window (YYYY-MM-DD, inclusive); defaults to the last 60 days
+  startDate?: string;
+  endDate?: string;
+  // Optional scene to analyze (SatelliteScene.sceneId); defaults to the most recent scene
+  sceneId?: string;
+  // Optional pixel cloud masking mode; defaults to "qa60"
+  cloudMask?: CloudMaskMode;
+  // Optional mosaic of every clear scene in the date window instead of a single scene
+  compositeMode?: CompositeMode;
+  // Optional management zones delineated from the index image
+  zones?: ZoneRequest;
+  // Optional optical source; "auto" (default) uses Landsat 8/9 when Sentinel-2 has no scene
+  source?: OpticalSource | "auto";
+}
+
+export type ZoneMethod = "kmeans" | "quantile";
+
+export interface ZoneRequest {
+  count: number; // Number of zones (2-7)
+  method: ZoneMethod;
+}
+
+export interface ManagementZone {
+  zone: number; // 1 = lowest mean index value
+  areaHectares: number;
+  meanValue: number; // Area-weighted mean index value
+  geometry: {
+    type: "MultiPolygon";
+    coordinates: number[][][][]; // GeoJSON rings in [lng, lat]
+  };
+}
+
+export interface CompositeInfo {
+  mode: CompositeMode;
+  dates: string[]; // Acquisition dates (YYYY-MM-DD) that contributed clear pixels, ascending
+}
+
+export interface IndexPercentiles {
+  p5: number;
+  p25: number;
+  p50: number; // Median
+  p75: number;
+  p95: number;
+}
+
+export interface HistogramBin {
+  min: number; // Inclusive lower bound
+  max: number; // Exclusive upper bound
+  count: number; // Pixels in the bin
+}
+
+export interface IndexStatistics {
+  min: number;
+  max: number;
+  mean: number;
+  stdDev?: number;
+  percentiles?: IndexPercentiles;
+  histogram?: HistogramBin[];
+}
+
+export interface SatelliteImageMetadata {
+  sceneId: string; // Earth Engine system:index of the scene
+  date: string; // Acquisition date (YYYY-MM-DD) from system:time_start
+  acquisitionTime: string; // Full acquisition timestamp (ISO 8601)
+  tileId: string; // MGRS tile of the scene (e.g. "14QMG"), or Landsat WRS path/row (e.g. "028/046")
+  cloudPercentage: number; // Scene-level CLOUDY_PIXEL_PERCENTAGE (CLOUD_COVER for Landsat)
+  sensor: string; // Spacecraft that acquired the scene (e.g. "Sentinel-2A", "Landsat 9")
 }
 
 export interface SatelliteImageResponse {
@@ -13,7 +80,94 @@ export interface SatelliteImageResponse {
   minValue: number;
   maxValue: number;
   meanValue: number;
-  date: string;
+  stdDev?: number;
+  percentiles?: IndexPercentiles;
+  histogram?: HistogramBin[];
+  stretch?: { min: number; max: number }; // Value range mapped to the palette (p5-p95)
+  date: string; // Acquisition date of the image (YYYY-MM-DD)
+  indexType: AnalysisIndex;
+  indexName?: string; // Display name of a custom index
+  palette?: string[]; // Colors used for the tile overlay, low to high
+  sceneId?: string;
+  acquisitionTime?: string;
+  tileId?: string;
+  cloudPercentage?: number;
+  sensor?: string;
+  source?: OpticalSource | "sentinel1"; // Imagery the result was computed from
+  cloudMask?: CloudMaskMode;
+  maskedPercentage?: number; // 0-100, share of polygon pixels removed by the cloud mask
+  composite?: CompositeInfo; // Present when the image is a multi-scene mosaic
+  zones?: ManagementZone[]; // Present when zones were requested, ordered by zone number
+}
+
+
+export interface SatelliteScene extends SatelliteImageMetadata {
+  coverage: number; // 0-1, share of the polygon with cloud-free pixels
+}
+
+export interface SceneListRequest {
+  coordinates: { lat: number; lng: number }[];
+  cloudCoverage: number; // 0-100
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  cloudMask?: CloudMaskMode; // Defaults to "qa60"
+}
+
+export interface SceneListResponse {
+  startDate: string;
+  endDate: string;
+  scenes: SatelliteScene[]; // Newest first
+}
+
+export interface TimeSeriesRequest {
+  coordinates: { lat: number; lng: number }[];
   indexType: IndexType;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  cloudCoverage?: number; // 0-100, defaults to 100 (rely on pixel masking)
+  cloudMask?: CloudMaskMode; // Defaults to "qa60"
+  indexParams?: IndexParams;
+  source?: OpticalSource; // Defaults to "sentinel2"; "landsat" reaches back to 2013 for baselines
+}
+
+export interface TimeSeriesPoint {
+  sceneId: string; // Earth Engine system:index, loads the map of this acquisition
+  date: string; // Acquisition date (YYYY-MM-DD)
+  timestamp: number; // system:time_start in milliseconds
+  minValue: number | null; // null when every pixel in the polygon is masked
+  maxValue: number | null;
+  meanValue: number | null;
+  validPixelFraction: number; // 0-1, share of polygon pixels not masked by clouds
 }
 
+export interface TimeSeriesResponse {
+  indexType: IndexType;
+  source: OpticalSource;
+  startDate: string;
+  endDate: string;
+  points: TimeSeriesPoint[];
+}
+
+export interface ChangeDetectionRequest {
+  coordinates: { lat: number; lng: number }[];
+  indexType: IndexType;
+  indexParams?: IndexParams;
+  beforeSceneId: string; // SatelliteScene.sceneId of the earlier date
+  afterSceneId: string; // SatelliteScene.sceneId of the later date
+  cloudMask?: CloudMaskMode; // Defaults to "qa60"
+  declineThreshold?: number; // Index units, defaults to 0.1
+}
+
+export interface ChangeDetectionResponse {
+  indexType: IndexType;
+  beforeDate: string; // YYYY-MM-DD
+  afterDate: string; // YYYY-MM-DD
+  tileUrl: string; // Delta raster (after - before) for the map overlay
+  imageUrl?: string; // Static PNG data URI of the delta over the recent RGB image
+  palette: string[]; // Decline to gain
+  stretch: { min: number; max: number }; // Symmetric around zero
+  stats: IndexStatistics; // Statistics of the per-pixel change
+  declineThreshold: number;
+  declinedHectares: number;
+  declinedPercentage: number; // 0-100, share of the analyzed area
+}
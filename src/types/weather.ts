@@ -0,0 +1,10 @@
+// Weather over an area for a report period, from ERA5-Land daily aggregates
+export interface WeatherSummary {
+  startDate: string; // YYYY-MM-DD, first day of the period
+  endDate: string; // YYYY-MM-DD, last day with data (ERA5-Land lags a few days behind)
+  precipitationMm: number | null; // Accumulated precipitation
+  minTemperatureC: number | null; // Lowest daily minimum
+  maxTemperatureC: number | null; // Highest daily maximum
+  growingDegreeDays: number | null; // Accumulated °C-days above the base temperature
+  baseTemperatureC: number; // Base temperature of the growing degree days
+}
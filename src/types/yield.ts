@@ -0,0 +1,22 @@
+import { IndexType } from "./report";
+
+// Indices integrated over the season for the yield potential estimate
+export type YieldIndexType = Extract<IndexType, "NDVI" | "EVI">;
+
+// Relative yield potential of one area, from the seasonal integral of an index
+export interface AreaYieldPotential {
+  areaId: string;
+  areaName: string;
+  cropType: string; // Normalized crop type, "Sin cultivo" when the area has none
+  startDate: string; // YYYY-MM-DD, start of the integrated season
+  endDate: string; // YYYY-MM-DD
+  integral: number | null; // Index above bare soil accumulated over the season (index·days)
+  observations: number; // Clear scenes behind the integral
+  score: number | null; // 0-100, integral relative to the best area of the same crop
+  rank: number | null; // 1 = highest potential among areas of the same crop
+}
+
+export interface YieldPotentialResponse {
+  indexType: YieldIndexType;
+  areas: AreaYieldPotential[]; // Sorted by crop type, then rank
+}